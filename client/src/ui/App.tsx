@@ -1,12 +1,46 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { BrowserProvider, Contract, Eip1193Provider, JsonRpcProvider, ethers } from 'ethers'
 import abiJson from '../abi/SnakeLeaderboard.json'
+import { SnakeEngine, type Vec } from '../../../shared/engine'
+import { CLASSIC_MODE, GAME_MODES, GameMode, modeById } from '../../../shared/modes'
+import { DAILY_MODE, dayEndsAt } from '../../../shared/daily'
+import { attestationDomain, signRelayAuthorization } from '../../../shared/attestation'
+import { permitDomain, signPermit } from '../../../shared/permit'
+import type { HeartbeatResponse, RelayQuotaResponse, RelayRequest, RelayResponse, SessionResponse, VerifyRunRejection, VerifyRunRequest, VerifyRunResponse, VoidRunResponse } from '../../../shared/api'
+import ReplayViewer from './ReplayViewer'
+import PlayerProfile from './PlayerProfile'
 
 const abi = (abiJson as { abi: any[] }).abi
 
+const ERC20_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function nonces(address) view returns (uint256)',
+  'function allowance(address, address) view returns (uint256)',
+  'function approve(address, uint256) returns (bool)'
+]
+
+const BADGES_ABI = [
+  'function badgesOf(address) view returns (uint256[])',
+  'function tokenURI(uint256) view returns (string)'
+]
+
 const POOL_ADDRESS = import.meta.env.VITE_POOL_ADDRESS as string
 const PUBLIC_RPC = (import.meta.env.VITE_PUBLIC_RPC as string) || 'https://sepolia.base.org'
 const SERVER_URL = (import.meta.env.VITE_SERVER_URL as string) || 'http://localhost:8787'
+const INDEXER_URL = (import.meta.env.VITE_INDEXER_URL as string) || 'http://localhost:8788'
+// First block to scan for the player's RunStarted events
+const DEPLOY_BLOCK = Number(import.meta.env.VITE_DEPLOY_BLOCK || 0)
+
+// Referrer from a `?ref=0x...` link, kept until the player binds one so it
+// survives reloads before they connect.
+const REF_KEY = 'snake:ref'
+function referralFromLink(): string | null {
+  const ref = new URLSearchParams(window.location.search).get('ref')
+  if (ref && ethers.isAddress(ref)) localStorage.setItem(REF_KEY, ethers.getAddress(ref))
+  return localStorage.getItem(REF_KEY)
+}
 function useProviders() {
   const [wallet, setWallet] = useState<BrowserProvider | null>(null)
   const [account, setAccount] = useState<string | null>(null)
@@ -32,9 +66,13 @@ function usePool(rpc: JsonRpcProvider) {
 
 function toHex32(bytes: Uint8Array) { return ethers.hexlify(bytes) }
 
-// Simple Snake implementation (unchanged core gameplay)
-type Vec = { x: number, y: number }
-const GRID = 20
+// Snake rendering around the shared deterministic engine
+const KEY_DIRS: Record<string, Vec> = {
+  ArrowUp: { x: 0, y: -1 }, w: { x: 0, y: -1 }, W: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 }, s: { x: 0, y: 1 }, S: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 }, a: { x: -1, y: 0 }, A: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 }, d: { x: 1, y: 0 }, D: { x: 1, y: 0 }
+}
 
 type SnakeGameProps = {
   onBeginRun: () => Promise<boolean>
@@ -46,9 +84,20 @@ type SnakeGameProps = {
   submittingScore: boolean
   score: number
   setScore: React.Dispatch<React.SetStateAction<number>>
+  // Rules of the run; fixed once a session is open.
+  mode: GameMode
+  daily: boolean
+  onModeChange: (choice: Board) => void
+  // Relayed submissions left for this player, null while the relayer is off.
+  gaslessLeft: number | null
+  gasless: boolean
+  onGaslessChange: (on: boolean) => void
+  // The open run has a relay authorization, so no confirmation follows it.
+  relayed: boolean
 }
 
-function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed, submittingScore, score, setScore }: SnakeGameProps) {
+function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed, submittingScore, score, setScore, mode, daily, onModeChange, gaslessLeft, gasless, onGaslessChange, relayed }: SnakeGameProps) {
+  const grid = mode.config.grid
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const wrapRef = useRef<HTMLDivElement | null>(null)
   const controlsRef = useRef<HTMLDivElement | null>(null)
@@ -56,70 +105,28 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
   const runningRef = useRef(false)
   const [primed, setPrimed] = useState(false)
   const [cellSize, setCellSize] = useState<number>(20)
-  const dirRef = useRef<Vec>({ x: 1, y: 0 })
-  const snakeRef = useRef<Vec[]>([{ x: 5, y: 10 }])
-  const foodRef = useRef<Vec>({ x: 10, y: 10 })
-  const inputsRef = useRef<any[]>([])
-  const frameRef = useRef(0)
+  const engineRef = useRef<SnakeEngine | null>(null)
   const loopRef = useRef<number | null>(null)
-  const beatsRef = useRef<any[]>([])
+  const beatsRef = useRef<HeartbeatResponse[]>([])
   const hbTimerRef = useRef<number | null>(null)
   const hbCounterRef = useRef<number>(0)
-  const baseTickMs = 140
-  const minTickMs = 60
-  const tickMsRef = useRef<number>(baseTickMs)
   type GameState = 'idle' | 'primed' | 'running' | 'ended'
   const stateRef = useRef<GameState>('idle')
 
   const reset = () => {
     setScore(0)
-    dirRef.current = { x: 1, y: 0 }
-    snakeRef.current = [{ x: 5, y: 10 }]
-    foodRef.current = { x: 10, y: 10 }
-    inputsRef.current = []
-    frameRef.current = 0
-    tickMsRef.current = baseTickMs
-  }
-
-  const rngRef = useRef<(() => number) | null>(null)
-  useEffect(() => {
-    if (!seed) { rngRef.current = null; return }
-    const hex = seed.replace(/^0x/, '')
-    let h = 0
-    for (let i = 0; i < hex.length; i += 8) {
-      h ^= parseInt(hex.slice(i, i + 8), 16) >>> 0
-    }
-    let t = h >>> 0
-    rngRef.current = function() {
-      t += 0x6D2B79F5
-      let r = Math.imul(t ^ (t >>> 15), 1 | t)
-      r ^= r + Math.imul(r ^ (r >>> 7), 61 | r)
-      return ((r ^ (r >>> 14)) >>> 0) / 4294967296
-    }
-  }, [seed])
-
-  const placeFood = () => {
-    const rnd = rngRef.current || Math.random
-    foodRef.current = {
-      x: Math.floor(rnd() * GRID),
-      y: Math.floor(rnd() * GRID)
-    }
+    engineRef.current = seed ? new SnakeEngine(seed, mode.config) : null
   }
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      if (!running) return
-      let handled = false
-      let d = dirRef.current
-      if ((e.key === 'ArrowUp' || e.key === 'w' || e.key === 'W') && d.y !== 1) { d = { x: 0, y: -1 }; handled = true }
-      if ((e.key === 'ArrowDown' || e.key === 's' || e.key === 'S') && d.y !== -1) { d = { x: 0, y: 1 }; handled = true }
-      if ((e.key === 'ArrowLeft' || e.key === 'a' || e.key === 'A') && d.x !== 1) { d = { x: -1, y: 0 }; handled = true }
-      if ((e.key === 'ArrowRight' || e.key === 'd' || e.key === 'D') && d.x !== -1) { d = { x: 1, y: 0 }; handled = true }
-      if (handled) {
-        e.preventDefault()
-        dirRef.current = d
-        inputsRef.current.push({ f: frameRef.current, key: e.key, d })
-      }
+      if (!running || !engineRef.current) return
+      const d = KEY_DIRS[e.key]
+      // Auto-repeat of a held key only re-presses the current direction
+      if (d && e.repeat) { e.preventDefault(); return }
+      if (!d) return
+      e.preventDefault()
+      engineRef.current.turn(d, e.key)
     }
     window.addEventListener('keydown', onKey, { passive: false })
     return () => window.removeEventListener('keydown', onKey as any)
@@ -133,42 +140,34 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
       loopRef.current = null
     }
     stateRef.current = 'ended'
-    const runHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(inputsRef.current)))
-    onGameOver(score, runHash, { inputs: inputsRef.current.slice(), beats: beatsRef.current.slice(), sessionId })
+    const engine = engineRef.current
+    const inputs = engine ? engine.inputs.slice() : []
+    const runHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(inputs)))
+    onGameOver(engine ? engine.score : 0, runHash, { inputs, beats: beatsRef.current.slice(), sessionId })
   }
 
   const step = () => {
     if (!runningRef.current) return
     if (stateRef.current !== 'running') return
-    frameRef.current += 1
+    const engine = engineRef.current
+    if (!engine) return
     const ctx = canvasRef.current!.getContext('2d')!
-    const head = { ...snakeRef.current[0] }
-    head.x += dirRef.current.x
-    head.y += dirRef.current.y
-    const outOfBounds = head.x < 0 || head.y < 0 || head.x >= GRID || head.y >= GRID
-    const intoSelf = snakeRef.current.some((s, i) => i > 0 && s.x === head.x && s.y === head.y)
-    if (outOfBounds || intoSelf) {
+    const { ate, over } = engine.step()
+    if (over) {
       end(); return
     }
-    snakeRef.current.unshift(head)
-    if (head.x === foodRef.current.x && head.y === foodRef.current.y) {
-      setScore((s) => {
-        const next = s + 1
-        tickMsRef.current = Math.max(minTickMs, baseTickMs - next * 10)
-        return next
-      })
-      placeFood()
-    } else {
-      snakeRef.current.pop()
-    }
-    ctx.clearRect(0, 0, GRID * cellSize, GRID * cellSize)
+    if (ate) setScore(engine.score)
+    ctx.clearRect(0, 0, grid * cellSize, grid * cellSize)
     ctx.fillStyle = '#111'
-    ctx.fillRect(0, 0, GRID * cellSize, GRID * cellSize)
+    ctx.fillRect(0, 0, grid * cellSize, grid * cellSize)
     ctx.fillStyle = '#4ade80'
     const segSize = Math.max(cellSize - 2, 1)
-    snakeRef.current.forEach(seg => ctx.fillRect(seg.x * cellSize, seg.y * cellSize, segSize, segSize))
+    ctx.fillStyle = '#6b7280'
+    mode.config.obstacles.forEach(o => ctx.fillRect(o.x * cellSize, o.y * cellSize, segSize, segSize))
+    ctx.fillStyle = '#4ade80'
+    engine.snake.forEach(seg => ctx.fillRect(seg.x * cellSize, seg.y * cellSize, segSize, segSize))
     ctx.fillStyle = '#f59e0b'
-    ctx.fillRect(foodRef.current.x * cellSize, foodRef.current.y * cellSize, segSize, segSize)
+    ctx.fillRect(engine.food.x * cellSize, engine.food.y * cellSize, segSize, segSize)
   }
 
   const lastTickRef = useRef<number>(0)
@@ -176,7 +175,7 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
     loopRef.current = requestAnimationFrame(loop)
     if (stateRef.current !== 'running') return
     const now = ts ?? performance.now()
-    if (now - lastTickRef.current >= tickMsRef.current) {
+    if (engineRef.current && now - lastTickRef.current >= engineRef.current.tickMs) {
       lastTickRef.current = now
       step()
     }
@@ -207,15 +206,15 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
       const availW = Math.max(120, wrapper.clientWidth - 2)
       const availH = Math.max(120, window.innerHeight - rect.top - margin - controlsH)
       const side = Math.floor(Math.min(availW, availH))
-      const px = Math.max(8, Math.floor(side / GRID))
+      const px = Math.max(8, Math.floor(side / grid))
       setCellSize(px)
-      canvas.width = GRID * px
-      canvas.height = GRID * px
+      canvas.width = grid * px
+      canvas.height = grid * px
     }
     resize()
     window.addEventListener('resize', resize)
     return () => window.removeEventListener('resize', resize)
-  }, [])
+  }, [grid])
 
   useEffect(() => {
     if (!sessionId) {
@@ -242,7 +241,7 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
             body: JSON.stringify({ sessionId, i })
           })
           if (!resp.ok) return
-          const hb = await resp.json()
+          const hb: HeartbeatResponse = await resp.json()
           beatsRef.current.push(hb)
         } catch {}
       }, 300) as any
@@ -268,7 +267,6 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
     const ctx = canvasRef.current!.getContext('2d')!
     ctx.imageSmoothingEnabled = false
     lastTickRef.current = performance.now()
-    tickMsRef.current = baseTickMs
     canvasRef.current?.focus()
     stateRef.current = 'running'
     setPrimed(false)
@@ -277,29 +275,57 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
 
   return (
     <div ref={wrapRef} style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-          <div style={{ position: 'relative', width: `${GRID * cellSize}px`, height: `${GRID * cellSize}px` }}>
+          <div style={{ position: 'relative', width: `${grid * cellSize}px`, height: `${grid * cellSize}px` }}>
         <canvas
           ref={canvasRef}
           style={{
             border: '1px solid #333',
-            width: `${GRID * cellSize}px`,
-            height: `${GRID * cellSize}px`,
+            width: `${grid * cellSize}px`,
+            height: `${grid * cellSize}px`,
             display: 'block'
           }}
           tabIndex={0}
         />
       </div>
       <div ref={controlsRef} style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        <label style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          Mode:
+          <select
+            value={daily ? 'daily' : String(mode.id)}
+            onChange={e => onModeChange(e.target.value === 'daily' ? 'daily' : Number(e.target.value))}
+            disabled={!!sessionId || running || starting}
+          >
+            {GAME_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            <option value="daily">Daily Challenge</option>
+          </select>
+        </label>
+        <div style={{ fontSize: 12, opacity: 0.7 }}>{daily ? `Today's seed is the same for every player. ${mode.label} rules.` : mode.description}</div>
         <div>Score: {score}</div>
         <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
           <button onClick={handleStart} disabled={!canStart || running || starting}>
             {starting ? 'Processing entry…' : running ? 'Running…' : primed ? 'Press Start' : 'Pay Entry'}
           </button>
         </div>
-        {submittingScore && (
-          <div style={{ fontSize: 12, opacity: 0.85, color: '#fbbf24' }}>Check MetaMask to confirm score submission so your run lands on the leaderboard.</div>
+        {gaslessLeft != null && (
+          <label style={{ display: 'flex', gap: 8, alignItems: 'center', fontSize: 13 }}>
+            <input
+              type="checkbox"
+              checked={gasless && gaslessLeft > 0}
+              onChange={e => onGaslessChange(e.target.checked)}
+              disabled={gaslessLeft === 0 || !!sessionId || running || starting}
+            />
+            Gasless score submission ({gaslessLeft} left)
+          </label>
         )}
-        <div style={{ fontSize: 12, opacity: 0.7 }}>When a run ends, a final wallet confirmation submits your score on-chain.</div>
+        {submittingScore && (relayed
+          ? <div style={{ fontSize: 12, opacity: 0.85, color: '#fbbf24' }}>Submitting your score through the relayer…</div>
+          : <div style={{ fontSize: 12, opacity: 0.85, color: '#fbbf24' }}>Check MetaMask to confirm score submission so your run lands on the leaderboard.</div>
+        )}
+        <div style={{ fontSize: 12, opacity: 0.7 }}>
+          {gasless && gaslessLeft
+            ? 'You sign once before paying; the relayer submits your score when the run ends.'
+            : 'When a run ends, a final wallet confirmation submits your score on-chain.'}
+        </div>
         {primed && !running && !starting && (
           <div style={{ fontSize: 12, opacity: 0.8 }}>Entry paid — press Start when you&apos;re ready to play.</div>
         )}
@@ -308,68 +334,261 @@ function SnakeGame({ onBeginRun, onGameOver, canStart, starting, sessionId, seed
   )
 }
 
+// A game mode id, or the daily challenge.
+type Board = number | 'daily'
+
 type LeaderboardRow = { player: string, score: bigint, sessionId: string, updatedAt: bigint }
 
-type PlayerSummary = { bestScore: bigint, runs: bigint, bestRank: number }
+function toLeaderboardRows(rows: any[]): LeaderboardRow[] {
+  return rows
+    .map((r: any): LeaderboardRow => ({
+      player: r.player,
+      score: BigInt(r.score),
+      sessionId: r.sessionId,
+      updatedAt: BigInt(r.updatedAt ?? 0)
+    }))
+    .sort((a, b) => {
+      if (a.score === b.score) {
+        if (a.updatedAt === b.updatedAt) return 0
+        return a.updatedAt > b.updatedAt ? -1 : 1
+      }
+      return a.score > b.score ? -1 : 1
+    })
+}
+
+function formatCountdown(seconds: number) {
+  const s = Math.max(0, Math.floor(seconds))
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}`
+}
+
+// An entry fee asset; ETH is the zero address. A fee of 0 means the pool no
+// longer takes the token, though its prize pool and claims remain.
+type Asset = { address: string, name: string, symbol: string, decimals: number, fee: bigint, prizePool: bigint }
+
+const ETH: Asset = { address: ethers.ZeroAddress, name: 'Ether', symbol: 'ETH', decimals: 18, fee: 0n, prizePool: 0n }
+
+function formatAmount(amount: bigint, asset: Asset) {
+  return `${ethers.formatUnits(amount, asset.decimals)} ${asset.symbol}`
+}
+
+// Claimable prizes per asset address; referral rewards are claimed with them.
+// referrer is the zero address until the player binds one.
+type PlayerSummary = { bestScore: bigint, runs: bigint, bestRank: number, claimable: Record<string, bigint>, dailyAttempts: number, referrer: string, referred: number }
+
+// A paid run that never got a score; expiresAt is 0 while expiry is disabled.
+type OpenRun = { sessionId: string, token: string, fee: bigint, expiresAt: number }
+
+// An entry fee change queued behind the admin delay; it applies from eta on.
+type PendingFee = { token: string, fee: bigint, eta: number }
+
+// A soulbound milestone badge; image is the on-chain SVG as a data URI.
+type Badge = { id: bigint, name: string, image: string }
+
+// tokenURI is a base64 JSON data URI.
+function decodeBadge(id: bigint, uri: string): Badge {
+  const meta = JSON.parse(atob(uri.slice(uri.indexOf(',') + 1)))
+  return { id, name: meta.name, image: meta.image }
+}
 
 export default function App() {
   const { rpc, wallet, account, connect } = useProviders()
   const pool = usePool(rpc)
   const [entryFeeWei, setEntryFeeWei] = useState<bigint>(0n)
+  const [tokens, setTokens] = useState<Asset[]>([])
+  // Address of the asset the next run is paid with
+  const [payWith, setPayWith] = useState<string>(ETH.address)
+  // Token names, symbols and decimals do not change; read them once.
+  const tokenMeta = useRef(new Map<string, Pick<Asset, 'name' | 'symbol' | 'decimals'>>())
+  const [paused, setPaused] = useState(false)
+  const [pendingFees, setPendingFees] = useState<PendingFee[]>([])
+  const [prizePoolWei, setPrizePoolWei] = useState<bigint>(0n)
+  const [claiming, setClaiming] = useState(false)
   const [score, setScore] = useState<number>(0)
   const [startingRun, setStartingRun] = useState(false)
-  const [session, setSession] = useState<{ id: string, seed: string } | null>(null)
+  const [session, setSession] = useState<SessionResponse | null>(null)
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
   const [seed, setSeed] = useState<string | null>(null)
   const [leaderboard, setLeaderboard] = useState<LeaderboardRow[]>([])
+  const [currentSeason, setCurrentSeason] = useState<number>(0)
+  // null follows the live season; a number pins an archived board
+  const [selectedSeason, setSelectedSeason] = useState<number | null>(null)
+  // What the next run is played as, and which board is shown.
+  const [playChoice, setPlayChoice] = useState<Board>(CLASSIC_MODE)
+  const [boardMode, setBoardMode] = useState<Board>(CLASSIC_MODE)
+  // Every run on the board, or only each player's best one
+  const [boardView, setBoardView] = useState<'runs' | 'players'>('runs')
+  const [today, setToday] = useState<number>(0)
+  const [dailyAttemptLimit, setDailyAttemptLimit] = useState<number>(0)
+  const [boardSize, setBoardSize] = useState<number>(25)
+  const [yesterdayBoard, setYesterdayBoard] = useState<LeaderboardRow[]>([])
+  const [nowSec, setNowSec] = useState(() => Date.now() / 1000)
   const [playerSummary, setPlayerSummary] = useState<PlayerSummary | null>(null)
+  const [badges, setBadges] = useState<Badge[]>([])
+  const [referralBps, setReferralBps] = useState(0)
+  const [referralLink] = useState(referralFromLink)
+  const [binding, setBinding] = useState(false)
+  // Referral rewards credited so far, per asset address.
+  const [referralEarnings, setReferralEarnings] = useState<Record<string, bigint>>({})
+  // Badge metadata never changes once minted.
+  const badgeCache = useRef(new Map<bigint, Badge>())
   const [submittingScore, setSubmittingScore] = useState(false)
+  const [replaySessionId, setReplaySessionId] = useState<string | null>(null)
+  const [profileAddress, setProfileAddress] = useState<string | null>(null)
+  const [openRuns, setOpenRuns] = useState<OpenRun[]>([])
+  const [refunding, setRefunding] = useState<string | null>(null)
+  const [relayQuota, setRelayQuota] = useState<RelayQuotaResponse | null>(null)
+  const [gasless, setGasless] = useState(true)
+  // The player's RelayAuthorization for the open run, if they chose gasless.
+  const [relaySig, setRelaySig] = useState<string | null>(null)
 
   const refreshConfig = useCallback(async () => {
     try {
-      const [entryFee] = await Promise.all([
-        pool.entryFeeWei()
+      const [entryFee, season, prizePool, day, attemptLimit, size, isPaused, pending, tokenAddresses, referral] = await Promise.all([
+        pool.entryFeeWei(),
+        pool.currentSeason(),
+        pool.prizePool(),
+        pool.currentDay(),
+        pool.dailyAttemptLimit(),
+        pool.LEADERBOARD_SIZE(),
+        pool.paused(),
+        pool.getPendingChanges(),
+        pool.getTokens(),
+        pool.referralBps()
       ])
       setEntryFeeWei(BigInt(entryFee))
+      setPaused(Boolean(isPaused))
+      setPendingFees(pending
+        .map((c: any) => ({ call: pool.interface.parseTransaction({ data: c.data }), eta: Number(c.eta) }))
+        .filter(({ call }: any) => call?.name === 'setEntryFee' || call?.name === 'setTokenEntryFee')
+        .map(({ call, eta }: any): PendingFee => call.name === 'setEntryFee'
+          ? { token: ETH.address, fee: BigInt(call.args[0]), eta }
+          : { token: String(call.args[0]), fee: BigInt(call.args[1]), eta })
+        .sort((a: PendingFee, b: PendingFee) => a.eta - b.eta))
+      setTokens(await Promise.all(tokenAddresses.map(async (address: string): Promise<Asset> => {
+        let meta = tokenMeta.current.get(address)
+        if (!meta) {
+          const token = new Contract(address, ERC20_ABI, rpc)
+          const [name, symbol, decimals] = await Promise.all([token.name(), token.symbol(), token.decimals()])
+          meta = { name, symbol, decimals: Number(decimals) }
+          tokenMeta.current.set(address, meta)
+        }
+        const ledger = await pool.ledgers(address)
+        return { address, ...meta, fee: BigInt(ledger.entryFee), prizePool: BigInt(ledger.prizePool) }
+      })))
+      setCurrentSeason(Number(season))
+      setPrizePoolWei(BigInt(prizePool))
+      setReferralBps(Number(referral))
+      setToday(Number(day))
+      setDailyAttemptLimit(Number(attemptLimit))
+      setBoardSize(Number(size))
     } catch (e) {
       console.error('config fetch failed', e)
     }
-  }, [pool])
+  }, [pool, rpc])
 
   const refreshLeaderboard = useCallback(async () => {
     try {
-      const rows = await pool.getLeaderboard()
-      const mapped = rows
-        .map((r: any) => ({
-          player: r.player,
-          score: BigInt(r.score),
-          sessionId: r.sessionId,
-          updatedAt: BigInt(r.updatedAt ?? 0)
-        }))
-        .sort((a, b) => {
-          if (a.score === b.score) {
-            if (a.updatedAt === b.updatedAt) return 0
-            return a.updatedAt > b.updatedAt ? -1 : 1
-          }
-          return a.score > b.score ? -1 : 1
-        })
-        .slice(0, 25)
-      setLeaderboard(mapped)
+      if (boardMode === 'daily') {
+        if (!today) return
+        const [rows, yesterday] = await Promise.all([pool.getDailyLeaderboard(today), pool.getDailyLeaderboard(today - 1)])
+        setLeaderboard(toLeaderboardRows(rows))
+        setYesterdayBoard(toLeaderboardRows(yesterday))
+        return
+      }
+      const archived = selectedSeason != null && selectedSeason !== currentSeason
+      const rows = boardView === 'players'
+        ? archived ? await pool.getSeasonPlayerLeaderboard(selectedSeason, boardMode) : await pool.getPlayerLeaderboard(boardMode)
+        : archived ? await pool.getSeasonLeaderboard(selectedSeason, boardMode) : await pool.getLeaderboard(boardMode)
+      setLeaderboard(toLeaderboardRows(rows))
     } catch (e) {
       console.error('leaderboard fetch failed', e)
     }
-  }, [pool])
+  }, [pool, selectedSeason, currentSeason, boardMode, boardView, today])
 
   const refreshPlayerSummary = useCallback(async (addr?: string | null) => {
     try {
       if (!addr) { setPlayerSummary(null); return }
-      const stats = await pool.getPlayer(addr)
-      setPlayerSummary({ bestScore: BigInt(stats.bestScore), runs: BigInt(stats.runs), bestRank: Number(stats.bestRank) })
+      const assets = [ETH.address, ...tokens.map(t => t.address)]
+      const [stats, attempts, referral, ...claims] = await Promise.all([
+        pool.getPlayer(addr),
+        pool.dailyAttempts(today, addr),
+        pool.referrals(addr),
+        ...assets.map(asset => pool.claimableOf(asset, addr))
+      ])
+      setPlayerSummary({
+        bestScore: BigInt(stats.bestScore),
+        runs: BigInt(stats.runs),
+        bestRank: Number(stats.bestRank),
+        claimable: Object.fromEntries(assets.map((asset, i) => [asset, BigInt(claims[i])])),
+        dailyAttempts: Number(attempts),
+        referrer: referral.referrer,
+        referred: Number(referral.referred)
+      })
     } catch (e) {
       console.error('player summary fetch failed', e)
     }
+  }, [pool, today, tokens])
+
+  // Event scans are too heavy for the 1s poll; refreshed on connect and after runs.
+  const refreshOpenRuns = useCallback(async (addr?: string | null) => {
+    try {
+      if (!addr) { setOpenRuns([]); return }
+      const [events, expiry] = await Promise.all([
+        pool.queryFilter(pool.filters.RunStarted(null, addr), DEPLOY_BLOCK),
+        pool.runExpiry()
+      ])
+      const states = await Promise.all(events.map((ev: any) => pool.runs(ev.args.sessionId)))
+      const open = states
+        .map((r: any, i: number) => ({ r, sessionId: (events[i] as any).args.sessionId as string }))
+        .filter(({ r }) => !r.finalized)
+        .map(({ r, sessionId }): OpenRun => ({
+          sessionId,
+          token: r.token,
+          fee: BigInt(r.fee),
+          expiresAt: BigInt(expiry) > 0n ? Number(BigInt(r.startedAt) + BigInt(expiry)) : 0
+        }))
+      setOpenRuns(open)
+    } catch (e) {
+      console.error('open runs fetch failed', e)
+    }
+  }, [pool])
+
+  // Summed from ReferralRewarded events; refreshed with the open runs.
+  const refreshReferralEarnings = useCallback(async (addr?: string | null) => {
+    try {
+      if (!addr) { setReferralEarnings({}); return }
+      const events = await pool.queryFilter(pool.filters.ReferralRewarded(addr), DEPLOY_BLOCK)
+      const earned: Record<string, bigint> = {}
+      for (const ev of events as any[]) {
+        earned[ev.args.asset] = (earned[ev.args.asset] ?? 0n) + BigInt(ev.args.amount)
+      }
+      setReferralEarnings(earned)
+    } catch (e) {
+      console.error('referral earnings fetch failed', e)
+    }
   }, [pool])
 
+  // Refreshed with the open runs: on connect and after runs.
+  const refreshBadges = useCallback(async (addr?: string | null) => {
+    try {
+      const address: string = addr ? await pool.badges() : ethers.ZeroAddress
+      if (address === ethers.ZeroAddress) { setBadges([]); return }
+      const contract = new Contract(address, BADGES_ABI, rpc)
+      const ids: bigint[] = await contract.badgesOf(addr)
+      setBadges(await Promise.all(ids.map(async (id) => {
+        let badge = badgeCache.current.get(id)
+        if (!badge) {
+          badge = decodeBadge(id, await contract.tokenURI(id))
+          badgeCache.current.set(id, badge)
+        }
+        return badge
+      })))
+    } catch (e) {
+      console.error('badges fetch failed', e)
+    }
+  }, [pool, rpc])
+
   useEffect(() => {
     refreshConfig()
     refreshLeaderboard()
@@ -377,15 +596,32 @@ export default function App() {
 
   useEffect(() => {
     const id = setInterval(() => {
+      setNowSec(Date.now() / 1000)
+      refreshConfig()
       refreshLeaderboard()
       refreshPlayerSummary(account)
     }, 1000)
     return () => clearInterval(id)
-  }, [refreshLeaderboard, refreshPlayerSummary, account])
+  }, [refreshConfig, refreshLeaderboard, refreshPlayerSummary, account])
+
+  // A 503 means the server runs without a relayer; the toggle stays hidden.
+  const refreshRelayQuota = useCallback(async (addr?: string | null) => {
+    try {
+      if (!addr) { setRelayQuota(null); return }
+      const resp = await fetch(`${SERVER_URL}/relay/quota/${addr}`)
+      setRelayQuota(resp.ok ? await resp.json() : null)
+    } catch (e) {
+      setRelayQuota(null)
+    }
+  }, [])
 
   useEffect(() => {
     refreshPlayerSummary(account)
-  }, [account, refreshPlayerSummary])
+    refreshOpenRuns(account)
+    refreshBadges(account)
+    refreshReferralEarnings(account)
+    refreshRelayQuota(account)
+  }, [account, refreshPlayerSummary, refreshOpenRuns, refreshBadges, refreshReferralEarnings, refreshRelayQuota])
 
   const ensureSession = useCallback(async () => {
     if (!account) throw new Error('Connect wallet')
@@ -393,10 +629,10 @@ export default function App() {
       const resp = await fetch(`${SERVER_URL}/session`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ address: account })
+        body: JSON.stringify(playChoice === 'daily' ? { address: account, daily: true } : { address: account, mode: playChoice })
       })
       if (!resp.ok) throw new Error(`session failed (${resp.status})`)
-      const json = await resp.json()
+      const json: SessionResponse = await resp.json()
       setSession(json)
       setSeed(json.seed)
       return json
@@ -404,14 +640,36 @@ export default function App() {
       console.error(e)
       throw e
     }
-  }, [account])
+  }, [account, playChoice])
+
+  // A signed permit for the fee, so paying is one transaction. Tokens without
+  // permit support get an approval first and an empty permit.
+  const tokenPermit = useCallback(async (signer: ethers.Signer, asset: Asset) => {
+    const owner = await signer.getAddress()
+    const token = new Contract(asset.address, ERC20_ABI, signer)
+    try {
+      const { chainId } = await signer.provider!.getNetwork()
+      const nonce: bigint = await token.nonces(owner)
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600)
+      const sig = await signPermit(signer, permitDomain(asset.name, chainId, asset.address), { owner, spender: POOL_ADDRESS, value: asset.fee, nonce, deadline })
+      const { v, r, s } = ethers.Signature.from(sig)
+      return { deadline, v, r, s }
+    } catch (e: any) {
+      if (e?.code === 'ACTION_REJECTED') throw e
+      if (BigInt(await token.allowance(owner, POOL_ADDRESS)) < asset.fee) {
+        await (await token.approve(POOL_ADDRESS, asset.fee)).wait()
+      }
+      return { deadline: 0n, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash }
+    }
+  }, [])
 
   const onBeginRun = useCallback(async (): Promise<boolean> => {
     if (!wallet || !account) {
       alert('Connect your wallet first')
       return false
     }
-    if (entryFeeWei === 0n) {
+    const asset = payWith === ETH.address ? { ...ETH, fee: entryFeeWei } : tokens.find(t => t.address === payWith)
+    if (!asset || asset.fee === 0n) {
       alert('Entry fee not configured yet')
       return false
     }
@@ -420,10 +678,26 @@ export default function App() {
       const sess = await ensureSession()
       const signer = await wallet.getSigner()
       const write = new Contract(POOL_ADDRESS, abi, signer)
-      const tx = await (write as any).startRun(sess.sessionId, { value: entryFeeWei })
+      let authorization: string | null = null
+      if (gasless && relayQuota && relayQuota.remaining > 0) {
+        // Signed before paying: declining costs nothing and the run just uses
+        // a regular submission.
+        const { chainId } = await wallet.getNetwork()
+        authorization = await signRelayAuthorization(signer, attestationDomain(chainId, POOL_ADDRESS), account, sess.sessionId).catch(() => null)
+      }
+      setRelaySig(authorization)
+      let tx
+      if (asset.address === ETH.address) {
+        tx = sess.day
+          ? await (write as any).startDailyRun(sess.sessionId, sess.day, { value: entryFeeWei })
+          : await (write as any).startRun(sess.sessionId, { value: entryFeeWei })
+      } else {
+        tx = await (write as any).startRunWithToken(sess.sessionId, sess.day, asset.address, await tokenPermit(signer, asset))
+      }
+      await tx.wait()
+      // Heartbeats start with the session; the server refuses them until the run is on-chain.
       setActiveSessionId(sess.sessionId)
       setSeed(sess.seed)
-      await tx.wait()
       return true
     } catch (e: any) {
       alert(`Start failed: ${e?.shortMessage || e?.message || e}`)
@@ -431,7 +705,7 @@ export default function App() {
     } finally {
       setStartingRun(false)
     }
-  }, [wallet, account, entryFeeWei, ensureSession])
+  }, [wallet, account, entryFeeWei, payWith, tokens, ensureSession, gasless, relayQuota])
 
   const onGameOver = useCallback(async (score: number, runHash: string, payload?: any) => {
     if (!wallet || !account || !activeSessionId) return
@@ -447,19 +721,40 @@ export default function App() {
         runHash,
         inputsLen: payload.inputs?.length
       })
+      const body: VerifyRunRequest = { sessionId: activeSessionId, address: account, score: Number(score), runHash, inputs: payload.inputs, beats: payload.beats }
       const resp = await fetch(`${SERVER_URL}/verify-run`, {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId: activeSessionId, address: account, score: Number(score), runHash, inputs: payload.inputs, beats: payload.beats })
+        body: JSON.stringify(body)
       })
-      if (!resp.ok) throw new Error('verification failed')
-      const { timeDigest, attestSig, score: canonicalScore } = await resp.json()
+      if (!resp.ok) {
+        const err: Partial<VerifyRunRejection> = await resp.json().catch(() => ({}))
+        if (err.reasons) console.warn('[client] run rejected', err.reasons)
+        throw new Error(`verification failed${err.error ? `: ${err.error}` : ''}`)
+      }
+      const { timeDigest, attestSigs, mode, day, score: canonicalScore, deadline }: VerifyRunResponse = await resp.json()
       const finalScore = canonicalScore != null ? BigInt(canonicalScore) : BigInt(score)
       if (finalScore !== BigInt(score)) {
         console.log('[client] canonical score differs', { localScore: score, finalScore: finalScore.toString() })
       }
       setScore(Number(finalScore))
-      const runPayload = { player: account, sessionId: activeSessionId, score: finalScore, runHash, timeDigest }
-      const tx = await (write as any).submitScore(runPayload, attestSig)
+      const runPayload = { player: account, sessionId: activeSessionId, mode, day, score: finalScore, runHash, timeDigest, deadline }
+      if (relaySig) {
+        const relayBody: RelayRequest = { payload: { ...runPayload, score: Number(finalScore) }, attestSigs, playerSig: relaySig }
+        const relayResp = await fetch(`${SERVER_URL}/relay`, {
+          method: 'POST', headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(relayBody)
+        })
+        if (relayResp.ok) {
+          const { txHash }: RelayResponse = await relayResp.json()
+          const receipt = await rpc.waitForTransaction(txHash)
+          if (receipt?.status === 1) {
+            await Promise.all([refreshLeaderboard(), refreshPlayerSummary(account)])
+            return
+          }
+        }
+        console.warn('[client] relay failed, submitting directly', relayResp.status)
+      }
+      const tx = await (write as any).submitScore(runPayload, attestSigs)
       await tx.wait()
       await Promise.all([refreshLeaderboard(), refreshPlayerSummary(account)])
     } catch (e:any) {
@@ -468,11 +763,94 @@ export default function App() {
       setActiveSessionId(null)
       setSeed(null)
       setSession(null)
+      setRelaySig(null)
       setSubmittingScore(false)
+      refreshOpenRuns(account)
+      refreshBadges(account)
+      refreshReferralEarnings(account)
+      refreshRelayQuota(account)
+    }
+  }, [wallet, account, activeSessionId, relaySig, rpc, refreshLeaderboard, refreshPlayerSummary, refreshOpenRuns, refreshBadges, refreshReferralEarnings, refreshRelayQuota])
+
+  const onBindReferrer = useCallback(async (referrer: string) => {
+    if (!wallet || !account) return
+    try {
+      setBinding(true)
+      const signer = await wallet.getSigner()
+      const write = new Contract(POOL_ADDRESS, abi, signer)
+      await (await (write as any).setReferrer(referrer)).wait()
+      localStorage.removeItem(REF_KEY)
+      await refreshPlayerSummary(account)
+    } catch (e: any) {
+      alert(`Linking the referrer failed: ${e?.shortMessage || e?.message || e}`)
+    } finally {
+      setBinding(false)
+    }
+  }, [wallet, account, refreshPlayerSummary])
+
+  const onClaimPrize = useCallback(async (asset: string) => {
+    if (!wallet || !account) return
+    try {
+      setClaiming(true)
+      const signer = await wallet.getSigner()
+      const write = new Contract(POOL_ADDRESS, abi, signer)
+      const tx = asset === ETH.address ? await (write as any).claimPrize() : await (write as any).claimTokenPrize(asset)
+      await tx.wait()
+      await refreshPlayerSummary(account)
+    } catch (e: any) {
+      alert(`Claim failed: ${e?.shortMessage || e?.message || e}`)
+    } finally {
+      setClaiming(false)
     }
-  }, [wallet, account, activeSessionId, refreshLeaderboard, refreshPlayerSummary])
+  }, [wallet, account, refreshPlayerSummary])
 
-  const canStart = !!account && entryFeeWei > 0n
+  // Expired runs refund straight from the contract; younger ones need the
+  // server to void them first.
+  const onRefundRun = useCallback(async (run: OpenRun) => {
+    if (!wallet || !account) return
+    try {
+      setRefunding(run.sessionId)
+      const signer = await wallet.getSigner()
+      const write = new Contract(POOL_ADDRESS, abi, signer)
+      let tx
+      if (run.expiresAt > 0 && run.expiresAt * 1000 <= Date.now()) {
+        tx = await (write as any).refundExpiredRun(run.sessionId)
+      } else {
+        const resp = await fetch(`${SERVER_URL}/void-run`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionId: run.sessionId })
+        })
+        const json = await resp.json()
+        if (!resp.ok) throw new Error(json?.error || `void failed (${resp.status})`)
+        tx = await (write as any).voidRun(run.sessionId, (json as VoidRunResponse).voidSig)
+      }
+      await tx.wait()
+      await refreshOpenRuns(account)
+    } catch (e: any) {
+      alert(`Refund failed: ${e?.shortMessage || e?.message || e}`)
+    } finally {
+      setRefunding(null)
+    }
+  }, [wallet, account, refreshOpenRuns])
+
+  const assets = [{ ...ETH, fee: entryFeeWei }, ...tokens]
+  const assetOf = (address: string) => assets.find(a => a.address.toLowerCase() === address.toLowerCase()) ?? { ...ETH, symbol: address.slice(0, 8), decimals: 0 }
+  const accepted = assets.filter(a => a.fee > 0n)
+  const payAsset = assetOf(payWith)
+  const canStart = !!account && payAsset.fee > 0n && !paused
+  const playDaily = session ? session.day > 0 : playChoice === 'daily'
+  const playMode = modeById(session?.mode ?? (playChoice === 'daily' ? DAILY_MODE : playChoice)) ?? GAME_MODES[0]
+  const onModeChange = useCallback((choice: Board) => {
+    setPlayChoice(choice)
+    setBoardMode(choice)
+  }, [])
+  const dailyLeft = playerSummary ? Math.max(0, dailyAttemptLimit - playerSummary.dailyAttempts) : dailyAttemptLimit
+  const staleRuns = openRuns.filter(r => r.sessionId !== activeSessionId)
+  // A referrer from a link the connected player can still bind
+  const pendingReferrer = referralLink && account && playerSummary?.referrer === ethers.ZeroAddress &&
+    referralLink.toLowerCase() !== account.toLowerCase() ? referralLink : null
+  const inviteLink = account ? `${window.location.origin}${window.location.pathname}?ref=${account}` : ''
 
   return (
     <div style={{ fontFamily: 'system-ui, sans-serif', color: '#e5e7eb', background: '#0b1020', minHeight: '100vh' }}>
@@ -480,11 +858,44 @@ export default function App() {
         <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24 }}>
           <div>
             <h1 style={{ marginBottom: 4 }}>Token Snake — Endless Leaderboard</h1>
-            <div style={{ opacity: 0.7 }}>Pay {ethers.formatEther(entryFeeWei)} ETH to start. Each run records a single score.</div>
+            <div style={{ opacity: 0.7 }}>
+              Pay {accepted.map(a => formatAmount(a.fee, a)).join(' or ') || 'the entry fee'} to start. Each run records a single score.
+            </div>
+            {accepted.length > 1 && (
+              <label style={{ fontSize: 13 }}>
+                Pay with{' '}
+                <select value={payWith} onChange={e => setPayWith(e.target.value)} disabled={!!activeSessionId}>
+                  {accepted.map(a => <option key={a.address} value={a.address}>{a.symbol}</option>)}
+                </select>
+              </label>
+            )}
           </div>
           <button onClick={connect}>{account ? `Connected: ${account.slice(0,6)}...${account.slice(-4)}` : 'Connect Wallet'}</button>
         </header>
 
+        {paused && (
+          <div style={{ marginBottom: 16, padding: 12, borderRadius: 8, background: '#450a0a', border: '1px solid #7f1d1d' }}>
+            The game is paused: new runs and score submissions are on hold. Refunds and prize claims still work.
+          </div>
+        )}
+        {pendingReferrer && (
+          <div style={{ marginBottom: 16, padding: 12, borderRadius: 8, background: '#052e16', border: '1px solid #14532d', display: 'flex', alignItems: 'center', gap: 12 }}>
+            <span style={{ flex: '1 1 auto' }}>
+              You were invited by {pendingReferrer.slice(0, 6)}...{pendingReferrer.slice(-4)}. Link them as your referrer
+              {referralBps > 0 ? ` and they receive ${referralBps / 100}% of your entry fees` : ''}; this can&apos;t be changed later.
+            </span>
+            <button onClick={() => onBindReferrer(pendingReferrer)} disabled={binding}>{binding ? 'Linking…' : 'Link referrer'}</button>
+          </div>
+        )}
+        {pendingFees.map(f => (
+          <div key={`${f.eta}-${f.token}-${f.fee}`} style={{ marginBottom: 16, padding: 12, borderRadius: 8, background: '#422006', border: '1px solid #78350f', color: '#fbbf24' }}>
+            {f.fee === 0n
+              ? `Entry fees stop being taken in ${assetOf(f.token).symbol}`
+              : `The ${assetOf(f.token).symbol} entry fee changes from ${formatAmount(assetOf(f.token).fee, assetOf(f.token))} to ${formatAmount(f.fee, assetOf(f.token))}`}
+            {f.eta > nowSec ? ` on ${new Date(f.eta * 1000).toLocaleString()}` : ' once the owner applies it'}.
+          </div>
+        ))}
+
         <section style={{ display: 'flex', gap: 24, flexWrap: 'wrap' }}>
           <SnakeGame
             onBeginRun={onBeginRun}
@@ -496,18 +907,88 @@ export default function App() {
             submittingScore={submittingScore}
             score={score}
             setScore={setScore}
+            mode={playMode}
+            daily={playDaily}
+            onModeChange={onModeChange}
+            gaslessLeft={relayQuota?.remaining ?? null}
+            gasless={gasless}
+            onGaslessChange={setGasless}
+            relayed={!!relaySig}
           />
 
           <aside style={{ flex: '1 1 320px', background: '#111827', borderRadius: 12, padding: 16, border: '1px solid #1f2937' }}>
-            <h2 style={{ marginBottom: 12 }}>Top 25 Scores</h2>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+              <h2 style={{ margin: 0 }}>Top {boardSize} Scores</h2>
+              {currentSeason > 0 && boardMode !== 'daily' && (
+                <select
+                  value={selectedSeason ?? currentSeason}
+                  onChange={e => {
+                    const next = Number(e.target.value)
+                    setSelectedSeason(next === currentSeason ? null : next)
+                  }}
+                >
+                  {Array.from({ length: currentSeason }, (_, i) => currentSeason - i).map(id => (
+                    <option key={id} value={id}>{id === currentSeason ? `Season ${id} (live)` : `Season ${id}`}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap', marginBottom: 12 }}>
+              {GAME_MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setBoardMode(m.id)}
+                  title={m.description}
+                  style={{ fontWeight: m.id === boardMode ? 700 : 400, opacity: m.id === boardMode ? 1 : 0.6 }}
+                >
+                  {m.label}
+                </button>
+              ))}
+              <button
+                onClick={() => setBoardMode('daily')}
+                title="Today's shared-seed challenge"
+                style={{ fontWeight: boardMode === 'daily' ? 700 : 400, opacity: boardMode === 'daily' ? 1 : 0.6 }}
+              >
+                Daily
+              </button>
+            </div>
+            {boardMode !== 'daily' && (
+              <div style={{ display: 'flex', gap: 4, marginBottom: 12 }}>
+                {(['runs', 'players'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setBoardView(view)}
+                    title={view === 'runs' ? 'Every run, so one player can hold several rows' : "Each player's best run"}
+                    style={{ fontWeight: view === boardView ? 700 : 400, opacity: view === boardView ? 1 : 0.6 }}
+                  >
+                    {view === 'runs' ? 'Top runs' : 'Top players'}
+                  </button>
+                ))}
+              </div>
+            )}
+            {boardMode === 'daily' && (
+              <div style={{ fontSize: 13, opacity: 0.8, marginBottom: 12 }}>
+                Daily challenge #{today} — next one in {formatCountdown(dayEndsAt(today) - nowSec)}
+                {account && ` — ${dailyLeft} of ${dailyAttemptLimit} attempts left today`}
+              </div>
+            )}
+            {boardMode === CLASSIC_MODE && (selectedSeason == null || selectedSeason === currentSeason) && (
+              <div style={{ fontSize: 13, opacity: 0.8, marginBottom: 12 }}>
+                Prize pool: {[{ ...ETH, prizePool: prizePoolWei }, ...tokens].filter((a, i) => i === 0 || a.prizePool > 0n).map(a => formatAmount(a.prizePool, a)).join(' + ')}
+                {' '}— paid to the top runs when the season closes
+              </div>
+            )}
             <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-              {Array.from({ length: 25 }, (_, idx) => {
+              {Array.from({ length: boardSize }, (_, idx) => {
                 const row = leaderboard[idx] ?? null
                 const isSelf = row && account && row.player.toLowerCase() === account.toLowerCase()
                 return (
                   <div
                     key={row ? row.sessionId : `empty-${idx}`}
+                    onClick={row ? () => setProfileAddress(row.player) : undefined}
+                    title={row ? 'View player profile' : undefined}
                     style={{
+                      cursor: row ? 'pointer' : 'default',
                       display: 'flex',
                       justifyContent: 'space-between',
                       padding: '6px 10px',
@@ -523,20 +1004,103 @@ export default function App() {
                     <div style={{ fontVariantNumeric: 'tabular-nums' }}>
                       {row ? row.score.toString() : '—'}
                     </div>
+                    {row && (
+                      <button
+                        onClick={e => { e.stopPropagation(); setReplaySessionId(row.sessionId) }}
+                        title="Watch replay"
+                        style={{ marginLeft: 8, padding: '0 6px' }}
+                      >
+                        ▶
+                      </button>
+                    )}
                   </div>
                 )
               })}
             </div>
+            {boardMode === 'daily' && (
+              <div style={{ marginTop: 16, padding: 12, borderRadius: 8, background: '#0f172a', border: '1px solid #1e293b' }}>
+                <div style={{ fontWeight: 600, marginBottom: 8 }}>Yesterday&apos;s final results</div>
+                {yesterdayBoard.length === 0 && <div style={{ fontSize: 13, opacity: 0.7 }}>Nobody played yesterday&apos;s challenge.</div>}
+                {yesterdayBoard.slice(0, 5).map((row, idx) => (
+                  <div key={row.sessionId} style={{ display: 'flex', gap: 8, fontSize: 13 }}>
+                    <span style={{ width: 24 }}>{idx + 1}.</span>
+                    <span style={{ flex: '1 1 auto', cursor: 'pointer' }} onClick={() => setProfileAddress(row.player)}>
+                      {row.player.slice(0, 6)}...{row.player.slice(-4)}
+                    </span>
+                    <span style={{ fontVariantNumeric: 'tabular-nums' }}>{row.score.toString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             {playerSummary && (
               <div style={{ marginTop: 16, padding: 12, borderRadius: 8, background: '#0f172a', border: '1px solid #1e293b' }}>
-                <div style={{ fontWeight: 600, marginBottom: 8 }}>Your Stats</div>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                  <span style={{ fontWeight: 600 }}>Your Stats</span>
+                  {account && <button onClick={() => setProfileAddress(account)}>Full profile</button>}
+                </div>
                 <div>Runs played: {playerSummary.runs.toString()}</div>
-                <div>Personal best: {playerSummary.bestScore.toString()}</div>
-                <div>Best leaderboard rank: {playerSummary.bestRank > 0 ? `#${playerSummary.bestRank}` : '—'}</div>
+                <div>Personal best (Classic): {playerSummary.bestScore.toString()}</div>
+                <div>Best Classic rank: {playerSummary.bestRank > 0 ? `#${playerSummary.bestRank}` : '—'}</div>
+                {assets.filter(a => a.address === ETH.address || (playerSummary.claimable[a.address] ?? 0n) > 0n).map(a => (
+                  <div key={a.address} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <span>Claimable prizes: {formatAmount(playerSummary.claimable[a.address] ?? 0n, a)}</span>
+                    {(playerSummary.claimable[a.address] ?? 0n) > 0n && (
+                      <button onClick={() => onClaimPrize(a.address)} disabled={claiming}>{claiming ? 'Claiming…' : 'Claim'}</button>
+                    )}
+                  </div>
+                ))}
+                <div style={{ marginTop: 8 }}>
+                  <div style={{ fontSize: 13, opacity: 0.8, marginBottom: 4 }}>Referrals</div>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13 }}>
+                    <input readOnly value={inviteLink} style={{ flex: '1 1 auto', minWidth: 0 }} onFocus={e => e.target.select()} />
+                    <button onClick={() => navigator.clipboard.writeText(inviteLink)}>Copy</button>
+                  </div>
+                  {referralBps > 0 && <div style={{ fontSize: 12, opacity: 0.7 }}>You receive {referralBps / 100}% of every scored entry fee of players you refer.</div>}
+                  <div>Referred players: {playerSummary.referred}</div>
+                  <div>
+                    Referral earnings: {assets.filter(a => a.address === ETH.address || (referralEarnings[a.address] ?? 0n) > 0n)
+                      .map(a => formatAmount(referralEarnings[a.address] ?? 0n, a)).join(' + ')}
+                  </div>
+                </div>
+                {badges.length > 0 && (
+                  <div style={{ marginTop: 8 }}>
+                    <div style={{ fontSize: 13, opacity: 0.8, marginBottom: 4 }}>Badges</div>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                      {badges.map(b => (
+                        <img key={b.id.toString()} src={b.image} alt={b.name} title={b.name} width={56} height={56} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            {staleRuns.length > 0 && (
+              <div style={{ marginTop: 16, padding: 12, borderRadius: 8, background: '#0f172a', border: '1px solid #1e293b' }}>
+                <div style={{ fontWeight: 600, marginBottom: 8 }}>Unscored Runs</div>
+                {staleRuns.map(run => {
+                  const expired = run.expiresAt > 0 && run.expiresAt * 1000 <= Date.now()
+                  return (
+                    <div key={run.sessionId} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13 }}>
+                      <span style={{ flex: '1 1 auto' }}>
+                        {run.sessionId.slice(0, 10)}… — {formatAmount(run.fee, assetOf(run.token))}
+                        {run.expiresAt > 0 && !expired && ` — refundable ${new Date(run.expiresAt * 1000).toLocaleString()}`}
+                      </span>
+                      <button onClick={() => onRefundRun(run)} disabled={refunding !== null}>
+                        {refunding === run.sessionId ? 'Refunding…' : expired ? 'Refund' : 'Request void'}
+                      </button>
+                    </div>
+                  )
+                })}
               </div>
             )}
           </aside>
         </section>
+        {profileAddress && (
+          <PlayerProfile indexerUrl={INDEXER_URL} address={profileAddress} mode={boardMode === 'daily' ? DAILY_MODE : boardMode} onReplay={setReplaySessionId} onClose={() => setProfileAddress(null)} />
+        )}
+        {replaySessionId && (
+          <ReplayViewer serverUrl={SERVER_URL} sessionId={replaySessionId} onClose={() => setReplaySessionId(null)} />
+        )}
       </div>
     </div>
   )
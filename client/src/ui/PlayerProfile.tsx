@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import type { Page, PlayerProfile as Profile, RankedRun } from '../../../shared/indexer'
+import { modeById } from '../../../shared/modes'
+
+const PAGE_SIZE = 20
+
+type PlayerProfileProps = {
+  indexerUrl: string
+  address: string
+  // Score statistics and rank history are per game mode.
+  mode: number
+  onReplay: (sessionId: string) => void
+  onClose: () => void
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const resp = await fetch(url)
+  const json = await resp.json()
+  if (!resp.ok) throw new Error(json?.error || `indexer request failed (${resp.status})`)
+  return json as T
+}
+
+function fmt(n: number | null, digits = 0) {
+  return n == null ? '—' : n.toFixed(digits)
+}
+
+// Rank 1 at the top; one point per time the player's run entered the board.
+function RankChart({ points }: { points: Profile['rankHistory'] }) {
+  const w = 320
+  const h = 80
+  const worst = Math.max(...points.map(p => p.rank))
+  const x = (i: number) => (points.length === 1 ? w / 2 : (i / (points.length - 1)) * (w - 8) + 4)
+  const y = (rank: number) => (worst === 1 ? h / 2 : ((rank - 1) / (worst - 1)) * (h - 8) + 4)
+  return (
+    <svg width={w} height={h} style={{ background: '#0f172a', borderRadius: 6 }}>
+      <polyline fill="none" stroke="#60a5fa" strokeWidth={2} points={points.map((p, i) => `${x(i)},${y(p.rank)}`).join(' ')} />
+      {points.map((p, i) => (
+        <circle key={`${p.block}-${i}`} cx={x(i)} cy={y(p.rank)} r={3} fill="#60a5fa">
+          <title>{`#${p.rank} after scoring ${p.score} — ${new Date(p.at * 1000).toLocaleString()}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+export default function PlayerProfile({ indexerUrl, address, mode, onReplay, onClose }: PlayerProfileProps) {
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [runs, setRuns] = useState<Page<RankedRun> | null>(null)
+  const [page, setPage] = useState(1)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setProfile(null)
+    setError(null)
+    setPage(1)
+    getJson<Profile>(`${indexerUrl}/players/${address}/profile?mode=${mode}`)
+      .then(p => { if (!cancelled) setProfile(p) })
+      .catch(e => { if (!cancelled) setError(e?.message || String(e)) })
+    return () => { cancelled = true }
+  }, [indexerUrl, address, mode])
+
+  useEffect(() => {
+    let cancelled = false
+    getJson<Page<RankedRun>>(`${indexerUrl}/players/${address}/runs?page=${page}&pageSize=${PAGE_SIZE}`)
+      .then(r => { if (!cancelled) setRuns(r) })
+      .catch(e => { if (!cancelled) setError(e?.message || String(e)) })
+    return () => { cancelled = true }
+  }, [indexerUrl, address, page])
+
+  const maxBucket = Math.max(1, ...(profile?.distribution.map(b => b.count) ?? []))
+  const pages = runs ? Math.max(1, Math.ceil(runs.total / runs.pageSize)) : 1
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 10 }} onClick={onClose}>
+      <div style={{ background: '#111827', border: '1px solid #1f2937', borderRadius: 12, padding: 16, width: 420, maxHeight: '90vh', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 12 }} onClick={e => e.stopPropagation()}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 16 }}>
+          <h2 style={{ margin: 0 }}>Player {address.slice(0, 6)}...{address.slice(-4)}</h2>
+          <button onClick={onClose}>Close</button>
+        </div>
+        {error && <div style={{ color: '#f87171' }}>Profile unavailable: {error}</div>}
+        {!error && !profile && <div style={{ opacity: 0.7 }}>Loading profile…</div>}
+        {profile && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 4, fontSize: 14 }}>
+              <div>Runs: {profile.runs}</div>
+              <div>Scored: {profile.scoredRuns}{profile.refundedRuns > 0 && ` (${profile.refundedRuns} refunded)`}</div>
+              <div style={{ gridColumn: '1 / -1', opacity: 0.7, fontSize: 12 }}>Scores below: {modeById(mode)?.label ?? `mode ${mode}`}</div>
+              <div>Best: {fmt(profile.bestScore)}</div>
+              <div>Average: {fmt(profile.averageScore, 1)}</div>
+              <div>Median: {fmt(profile.medianScore, 1)}</div>
+              <div>Fees spent: {ethers.formatEther(profile.feesWei)} ETH</div>
+            </div>
+            {profile.distribution.length > 0 && (
+              <div>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>Score distribution</div>
+                {profile.distribution.map(b => (
+                  <div key={b.from} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12 }}>
+                    <span style={{ width: 64, fontVariantNumeric: 'tabular-nums' }}>{b.from === b.to ? b.from : `${b.from}–${b.to}`}</span>
+                    <div style={{ height: 10, width: `${(b.count / maxBucket) * 70}%`, minWidth: b.count ? 2 : 0, background: '#4ade80', borderRadius: 2 }} />
+                    <span style={{ opacity: 0.7 }}>{b.count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {profile.rankHistory.length > 0 && (
+              <div>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>Rank history</div>
+                <RankChart points={profile.rankHistory} />
+              </div>
+            )}
+          </>
+        )}
+        {runs && (
+          <div>
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>Runs</div>
+            {runs.items.length === 0 && <div style={{ opacity: 0.7, fontSize: 13 }}>No runs yet.</div>}
+            {runs.items.map(run => (
+              <div key={run.sessionId} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, padding: '3px 0' }}>
+                <span style={{ flex: '1 1 auto', opacity: 0.8 }}>{new Date((run.submittedAt ?? run.startedAt) * 1000).toLocaleString()}</span>
+                {run.mode != null && <span style={{ opacity: 0.7 }}>{modeById(run.mode)?.label ?? `mode ${run.mode}`}</span>}
+                <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+                  {run.score != null ? `${run.score} pts` : run.refundWei != null ? 'refunded' : 'unscored'}
+                </span>
+                {run.score != null && <button onClick={() => onReplay(run.sessionId)}>Replay</button>}
+              </div>
+            ))}
+            {pages > 1 && (
+              <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 4, fontSize: 12 }}>
+                <button onClick={() => setPage(p => p - 1)} disabled={page <= 1}>Prev</button>
+                <span>Page {page} / {pages}</span>
+                <button onClick={() => setPage(p => p + 1)} disabled={page >= pages}>Next</button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
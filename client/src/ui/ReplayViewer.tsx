@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { DEFAULT_CONFIG, EngineConfig, replaySteps, tickMsForScore, type Vec } from '../../../shared/engine'
+import { CLASSIC_MODE, modeById } from '../../../shared/modes'
+import type { RunTranscriptResponse } from '../../../shared/api'
+
+type Frame = { snake: Vec[], food: Vec, score: number, eaten: number }
+
+const CELL = 16
+
+function configOf(run: RunTranscriptResponse): EngineConfig {
+  return modeById(run.mode ?? CLASSIC_MODE)?.config ?? DEFAULT_CONFIG
+}
+
+// Rebuild every frame of a run up front so scrubbing is just an index change.
+function buildFrames(run: RunTranscriptResponse): Frame[] {
+  const config = configOf(run)
+  const frames: Frame[] = [{ snake: [{ ...config.start }], food: { ...config.firstFood }, score: 0, eaten: 0 }]
+  for (const engine of replaySteps(run.inputs, run.seed, config)) {
+    frames.push({ snake: engine.snake.map(s => ({ ...s })), food: { ...engine.food }, score: engine.score, eaten: engine.eaten })
+  }
+  return frames
+}
+
+const CHAIN_LABEL: Record<RunTranscriptResponse['chain'], string> = {
+  match: 'Matches on-chain run hash',
+  pending: 'Score not yet submitted on-chain',
+  unchecked: 'Server could not check the chain'
+}
+
+type ReplayViewerProps = {
+  serverUrl: string
+  sessionId: string
+  onClose: () => void
+}
+
+export default function ReplayViewer({ serverUrl, sessionId, onClose }: ReplayViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [run, setRun] = useState<RunTranscriptResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [idx, setIdx] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setRun(null)
+    setError(null)
+    setIdx(0)
+    setPlaying(false)
+    fetch(`${serverUrl}/runs/${sessionId}`)
+      .then(async (resp) => {
+        const json = await resp.json()
+        if (!resp.ok) throw new Error(json?.error || `replay fetch failed (${resp.status})`)
+        if (!cancelled) setRun(json as RunTranscriptResponse)
+      })
+      .catch((e) => { if (!cancelled) setError(e?.message || String(e)) })
+    return () => { cancelled = true }
+  }, [serverUrl, sessionId])
+
+  const frames = useMemo(() => (run ? buildFrames(run) : []), [run])
+  const frame = frames[idx]
+  const config = run ? configOf(run) : DEFAULT_CONFIG
+  const grid = config.grid
+
+  useEffect(() => {
+    if (!playing || !frame) return
+    if (idx >= frames.length - 1) { setPlaying(false); return }
+    const id = window.setTimeout(() => setIdx(i => i + 1), tickMsForScore(frame.eaten))
+    return () => window.clearTimeout(id)
+  }, [playing, idx, frame, frames.length])
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx || !frame) return
+    ctx.fillStyle = '#111'
+    ctx.fillRect(0, 0, grid * CELL, grid * CELL)
+    ctx.fillStyle = '#6b7280'
+    config.obstacles.forEach(o => ctx.fillRect(o.x * CELL, o.y * CELL, CELL - 2, CELL - 2))
+    ctx.fillStyle = '#4ade80'
+    frame.snake.forEach(seg => ctx.fillRect(seg.x * CELL, seg.y * CELL, CELL - 2, CELL - 2))
+    ctx.fillStyle = '#f59e0b'
+    ctx.fillRect(frame.food.x * CELL, frame.food.y * CELL, CELL - 2, CELL - 2)
+  }, [frame, config, grid])
+
+  const togglePlay = () => {
+    if (!playing && idx >= frames.length - 1) setIdx(0)
+    setPlaying(p => !p)
+  }
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 10 }} onClick={onClose}>
+      <div style={{ background: '#111827', border: '1px solid #1f2937', borderRadius: 12, padding: 16, display: 'flex', flexDirection: 'column', gap: 8 }} onClick={e => e.stopPropagation()}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 16 }}>
+          <h2 style={{ margin: 0 }}>Run Replay</h2>
+          <button onClick={onClose}>Close</button>
+        </div>
+        {error && <div style={{ color: '#f87171' }}>Replay unavailable: {error}</div>}
+        {!error && !run && <div style={{ opacity: 0.7 }}>Loading transcript…</div>}
+        {run && frame && (
+          <>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>
+              {run.player.slice(0, 6)}...{run.player.slice(-4)} — {modeById(run.mode ?? CLASSIC_MODE)?.label ?? 'Unknown mode'} — {run.score} pts — verified {new Date(run.verifiedAt).toLocaleString()}
+            </div>
+            <div style={{ fontSize: 12, color: run.chain === 'match' ? '#4ade80' : '#fbbf24' }}>{CHAIN_LABEL[run.chain]}</div>
+            <canvas ref={canvasRef} width={grid * CELL} height={grid * CELL} style={{ border: '1px solid #333' }} />
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <button onClick={togglePlay}>{playing ? 'Pause' : 'Play'}</button>
+              <input
+                type="range"
+                min={0}
+                max={frames.length - 1}
+                value={idx}
+                onChange={e => { setPlaying(false); setIdx(Number(e.target.value)) }}
+                style={{ flex: '1 1 auto' }}
+              />
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.7, fontVariantNumeric: 'tabular-nums' }}>
+              Frame {idx} / {frames.length - 1} — Score {frame.score}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
-  server: { port: 5173 }
+  // the game engine lives in ../shared so the attestation server can replay it
+  server: { port: 5173, fs: { allow: ['..'] } }
 })
 
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Leaderboard} from "./Leaderboard.sol";
+
+/// Events of Boards; the pool inherits them so they are part of its ABI.
+interface IBoards {
+    event LeaderboardChanged(address indexed player, uint8 mode, uint64 runScore, uint8 newRank);
+    event PlayerLeaderboardChanged(address indexed player, uint8 mode, uint64 bestScore, uint8 newRank);
+    event DailyLeaderboardChanged(uint32 indexed day, address indexed player, uint64 runScore, uint8 newRank);
+}
+
+/**
+ * Boards – enters scored runs on the pool's boards and works out the player's
+ * rank on them without walking the board. A run that beats the player's best
+ * score is their highest row, so its own rank is theirs; otherwise their best
+ * row is found by its score.
+ * It is an external library linked into SnakeLeaderboard, keeping the pool
+ * under the contract size limit; its functions run on the pool's storage.
+ */
+library Boards {
+    using Leaderboard for Leaderboard.Board;
+    using Leaderboard for Leaderboard.PlayerBoard;
+
+    /// Enter a run on a season's per-run board and player board of its mode.
+    /// Returns the player's rank on the per-run board.
+    function enterSeason(
+        Leaderboard.Board storage board,
+        Leaderboard.PlayerBoard storage playerBoard,
+        uint8 size,
+        uint8 mode,
+        address player,
+        uint64 score,
+        bytes32 sessionId
+    ) external returns (uint8 newRank) {
+        // The player board holds the player's best score before this run.
+        uint64 best = playerBoard.scoreOf(player);
+        uint8 runRank = board.insert(size, player, score, sessionId);
+        newRank = score > best ? runRank : board.rankOf(player, best);
+        if (runRank != 0) emit IBoards.LeaderboardChanged(player, mode, score, newRank);
+
+        uint8 playerRank = playerBoard.upsert(size, player, score, sessionId);
+        if (playerRank != 0) emit IBoards.PlayerLeaderboardChanged(player, mode, score, playerRank);
+    }
+
+    /// Enter a run on its day's board; `bestOf` keeps each player's best score
+    /// of the day. Returns the player's rank on the board.
+    function enterDaily(
+        Leaderboard.Board storage board,
+        mapping(address => uint64) storage bestOf,
+        uint8 size,
+        uint32 day,
+        address player,
+        uint64 score,
+        bytes32 sessionId
+    ) external returns (uint8 newRank) {
+        uint64 best = bestOf[player];
+        uint8 runRank = board.insert(size, player, score, sessionId);
+        if (score > best) {
+            bestOf[player] = score;
+            newRank = runRank;
+        } else {
+            newRank = board.rankOf(player, best);
+        }
+        if (runRank != 0) emit IBoards.DailyLeaderboardChanged(day, player, score, newRank);
+    }
+}
@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+/// A board row as returned by the views.
+struct LeaderboardEntry {
+    address player;
+    uint64 score;
+    bytes32 sessionId;
+    uint64 updatedAt;
+}
+
+/**
+ * Leaderboard – a bounded board of run scores, best first. Ties go to the more
+ * recent run; a run that ties the entry it would displace with the same
+ * timestamp stays out.
+ * Rows are written once into a fixed slot and never moved. The ranking is a
+ * packed array of slot indices (32 per storage word), so an insertion is a
+ * binary search plus a shift of one-byte indices instead of swapping whole
+ * rows. Boards hold at most 255 rows.
+ * A PlayerBoard holds at most one row per player, their best run, which moves
+ * up in place when the player beats it.
+ */
+library Leaderboard {
+    struct Row {
+        address player;
+        uint64 score;
+        uint32 updatedAt; // unix seconds; fits until 2106
+        bytes32 sessionId;
+    }
+
+    struct Board {
+        uint8[] order; // row slots, best first
+        Row[] rows;
+    }
+
+    struct PlayerBoard {
+        Board board;
+        mapping(address => uint8) slotOf; // row slot + 1 of the player's row, 0 = not on the board
+    }
+
+    function length(Board storage board) internal view returns (uint256) {
+        return board.order.length;
+    }
+
+    function playerAt(Board storage board, uint256 rank) internal view returns (address) {
+        return board.rows[board.order[rank]].player;
+    }
+
+    /// Insert a run into a board capped at `size` rows; the last row drops off a
+    /// full board. Returns the run's 1-based rank, 0 if it missed the board.
+    function insert(Board storage board, uint8 size, address player, uint64 score, bytes32 sessionId)
+        internal
+        returns (uint8)
+    {
+        uint32 updatedAt = uint32(block.timestamp);
+        uint256 pos = _position(board, score, updatedAt);
+        if (pos >= size) return 0;
+        (uint8 slot, uint256 from) = _claimRow(board, size);
+        _moveUp(board, from, pos, slot);
+        board.rows[slot] = Row({player: player, score: score, updatedAt: updatedAt, sessionId: sessionId});
+        return uint8(pos + 1);
+    }
+
+    /// Record a run on a one-row-per-player board: it replaces the player's row
+    /// if it beats that score, or enters like `insert` if the player has none.
+    /// Returns the row's new 1-based rank, 0 if the board did not change.
+    function upsert(PlayerBoard storage pb, uint8 size, address player, uint64 score, bytes32 sessionId)
+        internal
+        returns (uint8)
+    {
+        Board storage board = pb.board;
+        uint8 held = pb.slotOf[player];
+        if (held != 0 && score <= board.rows[held - 1].score) return 0;
+
+        uint32 updatedAt = uint32(block.timestamp);
+        uint256 pos = _position(board, score, updatedAt);
+        uint8 slot;
+        uint256 from;
+        if (held != 0) {
+            // The better score can only move the row up, so it sits at or below `pos`.
+            slot = held - 1;
+            from = pos;
+            while (board.order[from] != slot) from++;
+        } else {
+            if (pos >= size) return 0;
+            uint256 len = board.order.length;
+            if (len == size) delete pb.slotOf[board.rows[board.order[len - 1]].player];
+            (slot, from) = _claimRow(board, size);
+            pb.slotOf[player] = slot + 1;
+        }
+        _moveUp(board, from, pos, slot);
+        board.rows[slot] = Row({player: player, score: score, updatedAt: updatedAt, sessionId: sessionId});
+        return uint8(pos + 1);
+    }
+
+    /// Score of the player's row on a player board (0 = not on the board).
+    function scoreOf(PlayerBoard storage pb, address player) internal view returns (uint64) {
+        uint8 held = pb.slotOf[player];
+        return held == 0 ? 0 : pb.board.rows[held - 1].score;
+    }
+
+    /// 1-based position of the player's highest row, given their best score
+    /// (0 = not on the board): a binary search for the first row with that
+    /// score, then a walk over its ties only.
+    function rankOf(Board storage board, address player, uint64 score) internal view returns (uint8) {
+        uint256 len = board.order.length;
+        uint256 lo;
+        uint256 hi = len;
+        while (lo < hi) {
+            uint256 mid = (lo + hi) / 2;
+            if (board.rows[board.order[mid]].score > score) {
+                lo = mid + 1;
+            } else {
+                hi = mid;
+            }
+        }
+        for (; lo < len; lo++) {
+            Row storage row = board.rows[board.order[lo]];
+            if (row.score != score) break;
+            if (row.player == player) return uint8(lo + 1);
+        }
+        return 0;
+    }
+
+    /// Index of the first row a run with this score and time beats; rows it
+    /// does not beat keep their place above it.
+    function _position(Board storage board, uint64 score, uint32 updatedAt) private view returns (uint256 lo) {
+        uint256 hi = board.order.length;
+        while (lo < hi) {
+            uint256 mid = (lo + hi) / 2;
+            Row storage row = board.rows[board.order[mid]];
+            if (score > row.score || (score == row.score && updatedAt > row.updatedAt)) {
+                hi = mid;
+            } else {
+                lo = mid + 1;
+            }
+        }
+    }
+
+    /// Slot for a new row and the order index it starts from: a fresh slot at the
+    /// end of a board with room, else the last row's slot.
+    function _claimRow(Board storage board, uint8 size) private returns (uint8 slot, uint256 from) {
+        from = board.order.length;
+        if (from < size) {
+            slot = uint8(board.rows.length);
+            board.rows.push();
+            board.order.push(slot);
+        } else {
+            from -= 1;
+            slot = board.order[from];
+        }
+    }
+
+    /// Move `slot` from order index `from` up to `to`, shifting the rows between down.
+    function _moveUp(Board storage board, uint256 from, uint256 to, uint8 slot) private {
+        for (uint256 i = from; i > to; i--) {
+            board.order[i] = board.order[i - 1];
+        }
+        board.order[to] = slot;
+    }
+
+    function entries(Board storage board) internal view returns (LeaderboardEntry[] memory out) {
+        uint256 len = board.order.length;
+        out = new LeaderboardEntry[](len);
+        for (uint256 i = 0; i < len; i++) {
+            Row storage row = board.rows[board.order[i]];
+            out[i] = LeaderboardEntry({player: row.player, score: row.score, sessionId: row.sessionId, updatedAt: row.updatedAt});
+        }
+    }
+}
@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Leaderboard} from "./Leaderboard.sol";
+
+/// Events and errors of Payments; the pool inherits them so they are part of its ABI.
+interface IPayments {
+    error TokenNotAccepted();
+    error NothingToClaim();
+
+    event TokenEntryFeeUpdated(address indexed token, uint256 fee);
+    event PrizeAwarded(uint32 indexed seasonId, address indexed player, uint8 rank, uint256 amount, address indexed asset);
+    event PrizePoolSettled(uint32 indexed seasonId, uint256 pool, uint256 toWinners, uint256 remainder, address indexed asset);
+    event PrizeClaimed(address indexed account, uint256 amount, address indexed asset);
+}
+
+/**
+ * Payments – the pool's money paths that are not on every run: accepting token
+ * entry fees (with EIP-2612 permits), settling prize pools, claims and
+ * withdrawals. Every asset, address(0) being ETH, keeps its own AssetLedger.
+ * It is an external library linked into SnakeLeaderboard, keeping the pool
+ * under the contract size limit; its functions run on the pool's storage.
+ */
+library Payments {
+    using SafeERC20 for IERC20;
+    using Leaderboard for Leaderboard.Board;
+
+    address internal constant ETH = address(0);
+    uint16 internal constant BPS = 10_000;
+
+    struct AssetLedger {
+        uint256 entryFee; // tokens only (ETH uses entryFeeWei); 0 = not accepted
+        uint256 prizePool; // accrued for the current season
+        uint256 escrowed; // fees of runs not yet scored or refunded
+        uint256 totalClaimable;
+    }
+
+    /// EIP-2612 permit for the entry fee; a zero deadline skips it and spends an
+    /// existing allowance instead.
+    struct Permit {
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /// Accept `token` at `fee`, 0 stops accepting it; `tokens` lists every
+    /// token ever accepted.
+    function setTokenEntryFee(
+        mapping(address => AssetLedger) storage ledgers,
+        address[] storage tokens,
+        address token,
+        uint256 fee
+    ) external {
+        if (token == ETH) revert IPayments.TokenNotAccepted();
+        AssetLedger storage ledger = ledgers[token];
+        if (ledger.entryFee == 0 && !_isKnown(tokens, token)) tokens.push(token);
+        ledger.entryFee = fee;
+        emit IPayments.TokenEntryFeeUpdated(token, fee);
+    }
+
+    /// Pull `fee` of `token` from the caller, through the permit if it has one.
+    function collect(address token, uint256 fee, Permit calldata permit) external {
+        if (permit.deadline != 0) {
+            // A front-run permit has already set the allowance; let transferFrom decide.
+            try IERC20Permit(token).permit(msg.sender, address(this), fee, permit.deadline, permit.v, permit.r, permit.s) {} catch {}
+        }
+        IERC20(token).safeTransferFrom(msg.sender, address(this), fee);
+    }
+
+    /// Only fees that are neither escrowed, in the prize pool nor owed to claimants can leave.
+    function withdraw(AssetLedger storage ledger, address asset, address to, uint256 amount) external {
+        require(to != address(0), "bad to");
+        uint256 balance = asset == ETH ? address(this).balance : IERC20(asset).balanceOf(address(this));
+        // Added up rather than subtracted: a balance short of what is owed must not underflow.
+        require(amount + ledger.prizePool + ledger.totalClaimable + ledger.escrowed <= balance, "exceeds free balance");
+        send(asset, to, amount);
+    }
+
+    /// Pay out everything `asset` owes the caller.
+    function claim(AssetLedger storage ledger, mapping(address => uint256) storage claimable, address asset) external {
+        uint256 amount = claimable[msg.sender];
+        if (amount == 0) revert IPayments.NothingToClaim();
+        claimable[msg.sender] = 0;
+        ledger.totalClaimable -= amount;
+        send(asset, msg.sender, amount);
+        emit IPayments.PrizeClaimed(msg.sender, amount, asset);
+    }
+
+    /// Send `amount` of `asset` out of the pool.
+    function send(address asset, address to, uint256 amount) public {
+        if (asset == ETH) {
+            (bool ok, ) = payable(to).call{value: amount}("");
+            require(ok, "transfer failed");
+        } else {
+            IERC20(asset).safeTransfer(to, amount);
+        }
+    }
+
+    /// Split the ETH pool and every token's pool over the ranked entries of `board`.
+    function settleAll(
+        mapping(address => AssetLedger) storage ledgers,
+        mapping(address => mapping(address => uint256)) storage claimableOf,
+        address[] storage tokens,
+        uint16[] storage payoutBps,
+        Leaderboard.Board storage board,
+        uint32 seasonId,
+        address feeSink
+    ) external {
+        _settle(ledgers[ETH], claimableOf[ETH], payoutBps, board, seasonId, feeSink, ETH);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            _settle(ledgers[token], claimableOf[token], payoutBps, board, seasonId, feeSink, token);
+        }
+    }
+
+    /// Credit each ranked entry its share of the asset's pool and send the rest to the fee sink.
+    function _settle(
+        AssetLedger storage ledger,
+        mapping(address => uint256) storage claimable,
+        uint16[] storage payoutBps,
+        Leaderboard.Board storage board,
+        uint32 seasonId,
+        address feeSink,
+        address asset
+    ) private {
+        uint256 pool = ledger.prizePool;
+        if (pool == 0) return;
+        ledger.prizePool = 0;
+
+        uint256 paid;
+        uint256 winners = payoutBps.length < board.length() ? payoutBps.length : board.length();
+        for (uint256 i = 0; i < winners; i++) {
+            uint256 amount = (pool * payoutBps[i]) / BPS;
+            if (amount == 0) continue;
+            address winner = board.playerAt(i);
+            claimable[winner] += amount;
+            paid += amount;
+            emit IPayments.PrizeAwarded(seasonId, winner, uint8(i + 1), amount, asset);
+        }
+
+        uint256 rest = pool - paid;
+        if (feeSink != address(0)) {
+            claimable[feeSink] += rest;
+            ledger.totalClaimable += pool;
+        } else {
+            // no sink configured: the rest joins the owner-withdrawable balance
+            ledger.totalClaimable += paid;
+        }
+        emit IPayments.PrizePoolSettled(seasonId, pool, paid, rest, asset);
+    }
+
+    function _isKnown(address[] storage tokens, address token) private view returns (bool) {
+        for (uint256 i = 0; i < tokens.length; i++) {
+            if (tokens[i] == token) return true;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+/// Events and errors of Referrals; the pool inherits them so they are part of its ABI.
+interface IReferrals {
+    error InvalidReferrer();
+    error ReferrerAlreadySet();
+    error ReferralCycle();
+
+    event ReferrerSet(address indexed player, address indexed referrer);
+}
+
+/**
+ * Referrals – who brought whom in. Every account binds its referrer at most
+ * once and the referrer keeps a count of the players it brought.
+ * It is an external library linked into SnakeLeaderboard, keeping the pool
+ * under the contract size limit; its functions run on the pool's storage.
+ */
+library Referrals {
+    /// How far up the referrer's chain `bind` looks for the caller, so a bind
+    /// costs a bounded number of reads however long the chain grows.
+    uint256 internal constant MAX_HOPS = 16;
+
+    struct Referral {
+        address referrer; // bound once, address(0) = none
+        uint32 referred; // players who bound this account as their referrer
+    }
+
+    /// Bind `referrer` as the caller's; it can never be changed.
+    function bind(mapping(address => Referral) storage referrals, address referrer) external {
+        if (referrer == address(0) || referrer == msg.sender) revert IReferrals.InvalidReferrer();
+        Referral storage own = referrals[msg.sender];
+        if (own.referrer != address(0)) revert IReferrals.ReferrerAlreadySet();
+        // The caller has no referrer yet, so a cycle means the caller is up the referrer's chain.
+        address up = referrals[referrer].referrer;
+        for (uint256 i = 0; i < MAX_HOPS && up != address(0); i++) {
+            if (up == msg.sender) revert IReferrals.ReferralCycle();
+            up = referrals[up].referrer;
+        }
+        own.referrer = referrer;
+        referrals[referrer].referred++;
+        emit IReferrals.ReferrerSet(msg.sender, referrer);
+    }
+}
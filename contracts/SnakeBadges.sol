@@ -0,0 +1,186 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+
+/// What the pool reports to its badge contract after each classic run.
+interface IBadgeMinter {
+    function recordRun(address player, uint32 season, uint64 score, uint8 rank) external;
+}
+
+/**
+ * SnakeBadges – non-transferable achievement badges for leaderboard milestones.
+ * The pool (`minter`) reports every classic run that reaches a live season and
+ * the badges decide what it earned: a first entry on the classic board, reaching
+ * #1, and each score threshold. Every milestone is minted once per player.
+ * A milestone missed because the call failed is caught up on the player's next
+ * run that still qualifies.
+ * Badges cannot be transferred or approved; metadata and artwork are generated
+ * on-chain from the run that earned them.
+ */
+contract SnakeBadges is ERC721, Ownable, IBadgeMinter {
+    using Strings for uint256;
+
+    uint8 public constant BOARD_ENTRY = 0;
+    uint8 public constant TOP_RANK = 1;
+    uint8 public constant SCORE_THRESHOLD = 2;
+
+    struct Badge {
+        uint8 kind;
+        uint8 rank; // classic board rank when earned, 0 = not on the board
+        uint32 season;
+        uint64 score; // score of the run that earned it
+        uint64 threshold; // SCORE_THRESHOLD badges only
+        uint64 earnedAt;
+    }
+
+    error NotMinter();
+    error Soulbound();
+    error InvalidThresholds();
+
+    address public minter;
+    uint256 public totalSupply;
+    mapping(uint256 => Badge) public badges;
+    // player => keccak256(kind, threshold) => token id, 0 = not earned
+    mapping(address => mapping(bytes32 => uint256)) public earned;
+    mapping(address => uint256[]) internal _owned;
+    uint64[] internal _thresholds; // ascending
+
+    event MinterUpdated(address indexed minter);
+    event ThresholdsUpdated(uint64[] thresholds);
+    event BadgeMinted(address indexed player, uint256 indexed tokenId, uint8 kind, uint64 score);
+
+    constructor(address _minter) ERC721("Snake Badges", "SNAKEB") Ownable(msg.sender) {
+        minter = _minter;
+        emit MinterUpdated(_minter);
+        uint64[] memory defaults = new uint64[](4);
+        (defaults[0], defaults[1], defaults[2], defaults[3]) = (10, 25, 50, 100);
+        setThresholds(defaults);
+    }
+
+    // -------- Admin --------
+    function setMinter(address _minter) external onlyOwner {
+        minter = _minter;
+        emit MinterUpdated(_minter);
+    }
+
+    /// Thresholds already earned keep their badges.
+    function setThresholds(uint64[] memory thresholds) public onlyOwner {
+        for (uint256 i = 0; i < thresholds.length; i++) {
+            if (thresholds[i] == 0 || (i > 0 && thresholds[i] <= thresholds[i - 1])) revert InvalidThresholds();
+        }
+        _thresholds = thresholds;
+        emit ThresholdsUpdated(thresholds);
+    }
+
+    // -------- Minting --------
+    function recordRun(address player, uint32 season, uint64 score, uint8 rank) external {
+        if (msg.sender != minter) revert NotMinter();
+        if (rank != 0) _award(player, Badge(BOARD_ENTRY, rank, season, score, 0, uint64(block.timestamp)));
+        if (rank == 1) _award(player, Badge(TOP_RANK, rank, season, score, 0, uint64(block.timestamp)));
+        for (uint256 i = 0; i < _thresholds.length && score >= _thresholds[i]; i++) {
+            _award(player, Badge(SCORE_THRESHOLD, rank, season, score, _thresholds[i], uint64(block.timestamp)));
+        }
+    }
+
+    // -------- Views --------
+    function getThresholds() external view returns (uint64[] memory) {
+        return _thresholds;
+    }
+
+    /// Token ids of a player's badges, oldest first.
+    function badgesOf(address player) external view returns (uint256[] memory) {
+        return _owned[player];
+    }
+
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        Badge memory b = badges[tokenId];
+        string memory title = _title(b);
+        string memory date = _date(b.earnedAt);
+        string memory attributes = string.concat(
+            '[{"trait_type":"Milestone","value":"', title,
+            '"},{"trait_type":"Score","display_type":"number","value":', uint256(b.score).toString(),
+            '},{"trait_type":"Season","display_type":"number","value":', uint256(b.season).toString(),
+            '},{"trait_type":"Earned","display_type":"date","value":', uint256(b.earnedAt).toString(), "}]"
+        );
+        string memory json = string.concat(
+            '{"name":"', title, '","description":"Snake leaderboard milestone, earned on ', date,
+            '.","image":"data:image/svg+xml;base64,', Base64.encode(bytes(_svg(b, title, date))),
+            '","attributes":', attributes, "}"
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    // -------- Internal --------
+    function _award(address player, Badge memory badge) internal {
+        bytes32 key = keccak256(abi.encode(badge.kind, badge.threshold));
+        if (earned[player][key] != 0) return;
+        uint256 tokenId = ++totalSupply;
+        earned[player][key] = tokenId;
+        badges[tokenId] = badge;
+        _owned[player].push(tokenId);
+        // _mint, not _safeMint: a player contract without onERC721Received must not lose its run
+        _mint(player, tokenId);
+        emit BadgeMinted(player, tokenId, badge.kind, badge.score);
+    }
+
+    /// Minting is the only movement allowed.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        if (_ownerOf(tokenId) != address(0)) revert Soulbound();
+        return super._update(to, tokenId, auth);
+    }
+
+    function approve(address, uint256) public pure override {
+        revert Soulbound();
+    }
+
+    function setApprovalForAll(address, bool) public pure override {
+        revert Soulbound();
+    }
+
+    function _title(Badge memory b) internal pure returns (string memory) {
+        if (b.kind == BOARD_ENTRY) return "On the board";
+        if (b.kind == TOP_RANK) return "Number one";
+        return string.concat("Score ", uint256(b.threshold).toString(), "+");
+    }
+
+    function _svg(Badge memory b, string memory title, string memory date) internal pure returns (string memory) {
+        string memory color = b.kind == TOP_RANK ? "#f5c542" : b.kind == BOARD_ENTRY ? "#4caf50" : "#42a5f5";
+        string memory ring = string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 300 300">',
+            '<rect width="300" height="300" rx="24" fill="#111"/>',
+            '<circle cx="150" cy="110" r="62" fill="none" stroke="', color, '" stroke-width="10"/>',
+            '<text x="150" y="124" font-family="monospace" font-size="40" fill="', color, '" text-anchor="middle">',
+            uint256(b.score).toString(), "</text>"
+        );
+        return string.concat(
+            ring,
+            '<text x="150" y="210" font-family="monospace" font-size="24" fill="#eee" text-anchor="middle">', title, "</text>",
+            '<text x="150" y="245" font-family="monospace" font-size="16" fill="#999" text-anchor="middle">Season ',
+            uint256(b.season).toString(), " - ", date, "</text></svg>"
+        );
+    }
+
+    /// YYYY-MM-DD (UTC) of a unix timestamp.
+    function _date(uint64 timestamp) internal pure returns (string memory) {
+        // days-from-civil inverted, after Howard Hinnant's algorithm
+        uint256 z = timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 day = doy - (153 * mp + 2) / 5 + 1;
+        uint256 month = mp < 10 ? mp + 3 : mp - 9;
+        uint256 year = yoe + era * 400 + (month <= 2 ? 1 : 0);
+        return string.concat(year.toString(), "-", _pad(month), "-", _pad(day));
+    }
+
+    function _pad(uint256 n) internal pure returns (string memory) {
+        return n < 10 ? string.concat("0", n.toString()) : n.toString();
+    }
+}
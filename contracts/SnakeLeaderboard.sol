@@ -3,229 +3,782 @@ pragma solidity ^0.8.26;
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
 import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
-import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {Leaderboard, LeaderboardEntry} from "./Leaderboard.sol";
+import {IBadgeMinter} from "./SnakeBadges.sol";
+import {IPayments, Payments} from "./Payments.sol";
+import {ITimelock, Timelock} from "./Timelock.sol";
+import {IReferrals, Referrals} from "./Referrals.sol";
+import {IBoards, Boards} from "./Boards.sol";
 
 /**
- * SnakeLeaderboard – pay-to-play endless mode with a global leaderboard.
+ * SnakeLeaderboard – pay-to-play endless mode with seasonal leaderboards.
  * Players pay an entry fee to start a run and submit a verified score signed by
- * the off-chain attestation server. The contract tracks the top 25 individual
- * run scores on-chain for easy querying, allowing multiple entries per player
- * based on their best runs.
+ * the off-chain attestation server. The contract tracks the top
+ * `LEADERBOARD_SIZE` (set at deployment) individual run scores of the current
+ * season on-chain for easy querying, allowing multiple entries per player based
+ * on their best runs. Ranks are read off the boards rather than stored.
+ * Next to each per-run board a player board keeps one row per player, their best
+ * run, so a single grinder cannot fill it. When the owner closes a season its
+ * board is frozen as a queryable archive and a fresh board starts.
+ * A share of every entry fee accrues to a prize pool that is split among the top
+ * entries of the closing season; winners pull their prizes with `claimPrize`.
+ * Entry fees stay escrowed in their run until it is scored. Runs the server voids
+ * or that expire unattested can be refunded (fully or partially) to the player.
+ * Server signatures are EIP-712 typed data bound to this chain and contract.
+ * Scores need `signerThreshold` signatures from the signer set; removed signers
+ * keep validating for `signerGracePeriod` so in-flight attestations survive a rotation.
+ * Every run is played in a game mode fixed by the server and signed into its
+ * payload; each mode has its own board per season. Player stats and prizes
+ * follow the classic board (mode 0).
+ * Daily challenge runs share one server seed per UTC day, are limited to
+ * `dailyAttemptLimit` paid attempts per player and day, and only enter that
+ * day's board.
+ * Players who would rather not pay gas for the submission can authorize a relayer
+ * for a session with an off-chain signature; `submitScoreFor` then records the run
+ * for the signing player no matter who sends it.
+ * `submitScores` takes a batch of runs in one transaction: bad entries are skipped
+ * with `ScoreSkipped` instead of failing the batch.
+ * The owner or a guardian can pause starting and scoring runs; only the owner
+ * unpauses. Refunds and prize claims stay open while paused. Once `adminDelay`
+ * is set, changes to fees, payouts, refunds, referrals, signers and badges must
+ * be queued with `queueChange` and can only be executed after the delay, so
+ * players see them coming.
+ * Entry fees can also be paid in ERC-20 tokens the owner accepts, each with its
+ * own fee; `startRunWithToken` takes an EIP-2612 permit so paying is a single
+ * transaction. Escrow, prize pools, claims and withdrawals are kept per asset
+ * (address(0) is ETH) and every pool is split over the same classic board.
+ * Tokens that charge a fee on transfer are not supported.
+ * With a `badges` contract set, every classic run that reaches a live season is
+ * reported to it for achievement badges; a failing badge contract never blocks
+ * a score.
+ * Players can bind a referrer once with `setReferrer`; from then on a
+ * `referralBps` share of each of their scored entry fees is credited to the
+ * referrer, who claims it like a prize.
+ * Token payments, prize settlement, claims and withdrawals live in the linked
+ * Payments library, the queue of timelocked changes in Timelock, referrer
+ * binding in Referrals and entering runs on the boards in Boards.
  */
-contract SnakeLeaderboard is Ownable, ReentrancyGuard {
+contract SnakeLeaderboard is Ownable, ReentrancyGuard, Pausable, EIP712, IPayments, ITimelock, IReferrals, IBoards {
     using ECDSA for bytes32;
+    using Leaderboard for Leaderboard.Board;
+    using Leaderboard for Leaderboard.PlayerBoard;
+    using Timelock for Timelock.Queue;
 
     error AlreadyRunning();
     error InvalidSession();
     error InvalidFee();
     error RunFinalized();
     error BadAttestation();
-
-    uint8 public constant LEADERBOARD_SIZE = 25;
+    error UnknownSeason();
+    error InvalidSchedule();
+    error RunNotExpired();
+    error AttestationExpired();
+    error InvalidSigner();
+    error InvalidThreshold();
+    error WrongDay();
+    error DailyLimitReached();
+    error BadPlayerSignature();
+    error InvalidBatch();
+    error InvalidBoardSize();
+    error NotGuardian();
+    error Timelocked();
+    error NotTimelocked();
+    error InvalidDelay();
+    error BadgeGasTooLow();
+
+    uint8 public immutable LEADERBOARD_SIZE; // rows per board, 1-255
+    uint8 public constant CLASSIC_MODE = 0;
+    uint16 internal constant BPS = 10_000;
+    address internal constant ETH = address(0);
+    uint64 public constant MAX_ADMIN_DELAY = 30 days;
+    uint256 public constant BADGE_GAS = 1_000_000; // gas the badge contract gets per run, enough for ~9 mints
+    uint256 internal constant BADGE_CALL_OVERHEAD = 10_000; // the call itself, on top of what it forwards
+    bytes32 public constant SCORE_PAYLOAD_TYPEHASH = keccak256(
+        "ScorePayload(address player,bytes32 sessionId,uint8 mode,uint32 day,uint64 score,bytes32 runHash,bytes32 timeDigest,uint64 deadline)"
+    );
+    bytes32 public constant VOID_RUN_TYPEHASH = keccak256("VoidRun(address player,bytes32 sessionId)");
+    bytes32 public constant RELAY_AUTHORIZATION_TYPEHASH = keccak256("RelayAuthorization(address player,bytes32 sessionId)");
 
     struct RunState {
         address player;
         bool finalized;
+        uint32 season; // season the entry fee was paid in; the score only counts toward that season
+        bytes32 runHash; // transcript hash attested at submission, lets anyone check a published replay
+        uint64 startedAt;
+        uint128 fee; // escrowed until the run is scored or refunded
+        bool refunded;
+        uint32 day; // daily challenge day the run was started for (0 = regular run)
+        address token; // asset the fee was paid in (address(0) = ETH)
     }
 
     struct PlayerStats {
-        uint64 bestScore;
+        uint64 bestScore; // classic mode only; scores of other modes are not comparable
         uint32 runs;
-        uint8 bestRank; // 1-based index of the player’s highest ranked run (0 = not on board)
+        uint8 bestRank; // 1-based index of the player’s highest ranked run (0 = not on board); filled in by the views
     }
 
-    struct LeaderboardEntry {
-        address player;
-        uint64 score;
-        bytes32 sessionId;
-        uint64 updatedAt;
+    struct SeasonInfo {
+        uint64 startedAt;
+        uint64 closedAt; // 0 while the season is live
     }
 
     struct ScorePayload {
         address player;
         bytes32 sessionId;
+        uint8 mode; // game mode id, selects the board the score enters
+        uint32 day; // daily challenge day, 0 for regular runs; must match the run
         uint64 score;
         bytes32 runHash;
         bytes32 timeDigest;
+        uint64 deadline; // last timestamp the attestation may be submitted at
     }
 
     address public feeSink;
-    address public serverSigner;
+
+    address[] internal _signers; // active signer set
+    // Last timestamp each address may sign at: max for active signers, end of
+    // the grace period for removed ones, 0 for strangers.
+    mapping(address => uint64) public signerValidUntil;
+    uint8 public signerThreshold;
+    uint64 public signerGracePeriod;
 
     uint256 public entryFeeWei;
     mapping(bytes32 => RunState) public runs;
-    mapping(address => PlayerStats) public players;
-    LeaderboardEntry[] public leaderboard;
+    // Lifetime stats; getPlayer adds the rank on the current season's classic board.
+    mapping(address => PlayerStats) internal _players;
+
+    uint32 public currentSeason;
+    mapping(uint32 => SeasonInfo) public seasons;
+    // Per-season stats; getSeasonPlayer adds the rank on that season's classic board.
+    mapping(uint32 => mapping(address => PlayerStats)) internal _seasonPlayers;
+    mapping(uint32 => mapping(uint8 => Leaderboard.Board)) internal _boards; // season => mode => board
+    mapping(uint32 => mapping(uint8 => Leaderboard.PlayerBoard)) internal _playerBoards; // season => mode => best run per player
+
+    uint16 public prizePoolBps; // share of each entry fee that goes to the prize pool
+    uint16[] internal _payoutBps; // prize share per rank, index 0 = rank 1
+    mapping(address => Payments.AssetLedger) public ledgers; // asset => accounting, address(0) = ETH
+    mapping(address => mapping(address => uint256)) public claimableOf; // asset => account => prizes owed
+    address[] internal _tokens; // every token ever accepted; their pools settle with each season
+
+    uint64 public runExpiry; // seconds after start an unattested run becomes refundable (0 = never)
+    uint16 public refundBps; // share of the escrowed fee returned on refund (all of it by default)
+
+    uint8 public dailyAttemptLimit; // paid daily challenge runs per player and day (0 disables them)
+    mapping(uint32 => mapping(address => uint8)) public dailyAttempts;
+    mapping(uint32 => Leaderboard.Board) internal _dailyBoards;
+    mapping(uint32 => mapping(address => uint64)) internal _dailyBest; // day => player => best daily score
+
+    address public guardian; // may pause, never unpause
+    uint64 public adminDelay; // timelock on the owner's setters (0 = they apply at once)
+    Timelock.Queue internal _changes;
+
+    IBadgeMinter public badges; // address(0) = no badges
 
-    event RunStarted(bytes32 indexed sessionId, address indexed player);
-    event ScoreSubmitted(bytes32 indexed sessionId, address indexed player, uint64 score, uint8 rank);
-    event LeaderboardChanged(address indexed player, uint64 runScore, uint8 newRank);
+    uint16 public referralBps; // share of each scored entry fee credited to the player's referrer
+    mapping(address => Referrals.Referral) public referrals;
+
+    event RunStarted(bytes32 indexed sessionId, address indexed player, uint256 fee);
+    event ScoreSubmitted(bytes32 indexed sessionId, address indexed player, uint8 mode, uint64 score, uint8 rank);
     event FeesUpdated(uint256 entryFeeWei);
-    event ServerSignerUpdated(address indexed signer);
+    event SignerAdded(address indexed signer);
+    event SignerRemoved(address indexed signer, uint64 validUntil);
+    event SignerThresholdUpdated(uint8 threshold);
+    event SignerGracePeriodUpdated(uint64 gracePeriod);
     event FeeSinkUpdated(address indexed sink);
+    event SeasonClosed(uint32 indexed seasonId, uint256 entries);
+    event SeasonStarted(uint32 indexed seasonId);
+    event PrizeConfigUpdated(uint16 prizePoolBps, uint16[] payoutBps);
+    event RefundPolicyUpdated(uint64 runExpiry, uint16 refundBps);
+    event RunRefunded(bytes32 indexed sessionId, address indexed player, uint256 amount, bool voided);
+    event DailyRunStarted(bytes32 indexed sessionId, address indexed player, uint32 indexed day, uint8 attempt);
+    event DailyAttemptLimitUpdated(uint8 limit);
+    event ScoreSkipped(bytes32 indexed sessionId, address indexed player, bytes4 reason);
+    event GuardianUpdated(address indexed guardian);
+    event AdminDelayUpdated(uint64 delay);
+    event TokenRunStarted(bytes32 indexed sessionId, address indexed token);
+    event BadgesUpdated(address indexed badges);
+    event ReferralBpsUpdated(uint16 bps);
+    event ReferralRewarded(address indexed referrer, address indexed player, uint256 amount, address indexed asset);
+
+    /// Owner-only; with a nonzero `adminDelay` only reachable through `executeChange`.
+    modifier timelocked() {
+        _checkTimelocked();
+        _;
+    }
 
-    constructor(address _feeSink, address _serverSigner, uint256 _entryFeeWei) Ownable(msg.sender) {
+    constructor(address _feeSink, address _serverSigner, uint256 _entryFeeWei, uint8 _leaderboardSize)
+        Ownable(msg.sender)
+        EIP712("SnakeLeaderboard", "1")
+    {
+        if (_leaderboardSize == 0) revert InvalidBoardSize();
+        LEADERBOARD_SIZE = _leaderboardSize;
         feeSink = _feeSink;
-        serverSigner = _serverSigner;
+        if (_serverSigner != address(0)) _addSigner(_serverSigner);
+        signerThreshold = 1;
+        emit SignerThresholdUpdated(1);
         entryFeeWei = _entryFeeWei;
+        dailyAttemptLimit = 3;
+        emit DailyAttemptLimitUpdated(3);
+        refundBps = BPS;
+        emit RefundPolicyUpdated(0, BPS);
+        _startSeason(1);
     }
 
     // -------- Admin --------
-    function setEntryFee(uint256 _entryFeeWei) external onlyOwner {
+    function setEntryFee(uint256 _entryFeeWei) external timelocked {
         entryFeeWei = _entryFeeWei;
         emit FeesUpdated(_entryFeeWei);
     }
 
-    function setServerSigner(address signer) external onlyOwner {
-        serverSigner = signer;
-        emit ServerSignerUpdated(signer);
+    function addSigner(address signer) external timelocked {
+        if (signer == address(0) || signerValidUntil[signer] == type(uint64).max) revert InvalidSigner();
+        _addSigner(signer);
+    }
+
+    /// The signer keeps validating for `signerGracePeriod` after removal.
+    function removeSigner(address signer) external timelocked {
+        if (signerValidUntil[signer] != type(uint64).max) revert InvalidSigner();
+        if (_signers.length - 1 < signerThreshold) revert InvalidThreshold();
+        uint256 last = _signers.length - 1;
+        for (uint256 i = 0; i < last; i++) {
+            if (_signers[i] == signer) {
+                _signers[i] = _signers[last];
+                break;
+            }
+        }
+        _signers.pop();
+        uint64 validUntil = uint64(block.timestamp) + signerGracePeriod;
+        signerValidUntil[signer] = validUntil;
+        emit SignerRemoved(signer, validUntil);
+    }
+
+    function setSignerThreshold(uint8 threshold) external timelocked {
+        if (threshold == 0 || threshold > _signers.length) revert InvalidThreshold();
+        signerThreshold = threshold;
+        emit SignerThresholdUpdated(threshold);
     }
 
-    function setFeeSink(address sink) external onlyOwner {
+    /// Applies to signers removed from now on.
+    function setSignerGracePeriod(uint64 gracePeriod) external timelocked {
+        signerGracePeriod = gracePeriod;
+        emit SignerGracePeriodUpdated(gracePeriod);
+    }
+
+    function setFeeSink(address sink) external timelocked {
         feeSink = sink;
         emit FeeSinkUpdated(sink);
     }
 
+    /// Accept `token` for entry fees at `fee` (in its own units); 0 stops
+    /// accepting it. Its prize pool and claims stay in place either way.
+    function setTokenEntryFee(address token, uint256 fee) external timelocked {
+        Payments.setTokenEntryFee(ledgers, _tokens, token, fee);
+    }
+
+    /// @param poolBps share of each entry fee added to the prize pool
+    /// @param payoutBps prize share of the pool per rank (rank 1 first); the
+    ///        unassigned rest of the pool goes to `feeSink` at settlement
+    function setPrizeConfig(uint16 poolBps, uint16[] calldata payoutBps) external timelocked {
+        if (uint256(poolBps) + referralBps > BPS || payoutBps.length > LEADERBOARD_SIZE) revert InvalidSchedule();
+        uint256 total;
+        for (uint256 i = 0; i < payoutBps.length; i++) {
+            total += payoutBps[i];
+        }
+        if (total > BPS) revert InvalidSchedule();
+        prizePoolBps = poolBps;
+        _payoutBps = payoutBps;
+        emit PrizeConfigUpdated(poolBps, payoutBps);
+    }
+
+    /// @param expirySeconds time after `startRun` an unattested run may be refunded (0 disables)
+    /// @param bps share of the entry fee refunded; the rest stays with the house
+    function setRefundPolicy(uint64 expirySeconds, uint16 bps) external timelocked {
+        if (bps > BPS) revert InvalidFee();
+        runExpiry = expirySeconds;
+        refundBps = bps;
+        emit RefundPolicyUpdated(expirySeconds, bps);
+    }
+
+    /// Applies to runs scored from now on; together with `prizePoolBps` at most the whole fee.
+    function setReferralBps(uint16 bps) external timelocked {
+        if (uint256(bps) + prizePoolBps > BPS) revert InvalidFee();
+        referralBps = bps;
+        emit ReferralBpsUpdated(bps);
+    }
+
+    /// Applies from the next attempt on, including today's.
+    function setDailyAttemptLimit(uint8 limit) external onlyOwner {
+        dailyAttemptLimit = limit;
+        emit DailyAttemptLimitUpdated(limit);
+    }
+
+    /// Only fees that are neither escrowed, in the prize pool nor owed to claimants can leave.
     function withdraw(address payable to, uint256 amount) external onlyOwner {
-        require(to != address(0), "bad to");
-        (bool ok, ) = to.call{value: amount}("");
-        require(ok, "withdraw failed");
+        Payments.withdraw(ledgers[ETH], ETH, to, amount);
+    }
+
+    /// `withdraw` for an entry fee token.
+    function withdrawToken(address token, address to, uint256 amount) external onlyOwner {
+        Payments.withdraw(ledgers[token], token, to, amount);
+    }
+
+    /// Applies to changes queued from now on.
+    function setAdminDelay(uint64 delay) external timelocked {
+        if (delay > MAX_ADMIN_DELAY) revert InvalidDelay();
+        adminDelay = delay;
+        emit AdminDelayUpdated(delay);
+    }
+
+    /// Queue a call to a timelocked setter, encoded as calldata, for execution
+    /// after `adminDelay`.
+    function queueChange(bytes calldata data) external onlyOwner returns (bytes32 id) {
+        if (data.length < 4 || !_isTimelocked(bytes4(data))) revert NotTimelocked();
+        return _changes.queue(data, adminDelay);
+    }
+
+    /// Works while paused, so a leaked signer can be removed before unpausing.
+    function executeChange(bytes32 id) external onlyOwner {
+        _changes.execute(id);
+    }
+
+    function cancelChange(bytes32 id) external onlyOwner {
+        _changes.cancel(id);
+    }
+
+    /// Guardians can only pause, so a hot key can hold the role.
+    function setGuardian(address _guardian) external onlyOwner {
+        guardian = _guardian;
+        emit GuardianUpdated(_guardian);
+    }
+
+    function setBadges(address _badges) external timelocked {
+        badges = IBadgeMinter(_badges);
+        emit BadgesUpdated(_badges);
+    }
+
+    /// Stops new runs and score submissions.
+    function pause() external {
+        if (msg.sender != guardian && msg.sender != owner()) revert NotGuardian();
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    /// Freeze the current boards as season `currentSeason` and open the next one.
+    /// Runs paid for in the closed season can still be submitted for stats but
+    /// no longer enter any board. Each asset's prize pool is split over the
+    /// classic board.
+    function closeSeason() external onlyOwner {
+        uint32 closing = currentSeason;
+        Leaderboard.Board storage board = _boards[closing][CLASSIC_MODE];
+        seasons[closing].closedAt = uint64(block.timestamp);
+        emit SeasonClosed(closing, board.length());
+        Payments.settleAll(ledgers, claimableOf, _tokens, _payoutBps, board, closing, feeSink);
+        _startSeason(closing + 1);
+    }
+
+    function claimPrize() external nonReentrant {
+        Payments.claim(ledgers[ETH], claimableOf[ETH], ETH);
+    }
+
+    /// Bind the account that brought the caller in; it can never be changed.
+    function setReferrer(address referrer) external {
+        Referrals.bind(referrals, referrer);
+    }
+
+    function claimTokenPrize(address token) external nonReentrant {
+        Payments.claim(ledgers[token], claimableOf[token], token);
     }
 
     // -------- Gameplay --------
-    function startRun(bytes32 sessionId) external payable nonReentrant {
-        if (entryFeeWei == 0) revert InvalidFee();
-        if (msg.value != entryFeeWei) revert InvalidFee();
+    function startRun(bytes32 sessionId) external payable nonReentrant whenNotPaused {
+        _startRun(sessionId, ETH, _ethFee());
+    }
+
+    /// Start a daily challenge run; `day` must be today (see `currentDay`) so a
+    /// session opened just before midnight cannot be paid for tomorrow.
+    function startDailyRun(bytes32 sessionId, uint32 day) external payable nonReentrant whenNotPaused {
+        _startDailyRun(sessionId, day, _startRun(sessionId, ETH, _ethFee()));
+    }
+
+    /// Pay the entry fee in an accepted token, for a regular run (`day` 0) or
+    /// today's daily challenge. With a permit the pool needs no prior approval.
+    function startRunWithToken(bytes32 sessionId, uint32 day, address token, Payments.Permit calldata permit)
+        external
+        nonReentrant
+        whenNotPaused
+    {
+        uint256 fee = token == ETH ? 0 : ledgers[token].entryFee;
+        if (fee == 0) revert TokenNotAccepted();
+        RunState storage rs = _startRun(sessionId, token, fee);
+        if (day != 0) _startDailyRun(sessionId, day, rs);
+        emit TokenRunStarted(sessionId, token);
+        Payments.collect(token, fee, permit);
+    }
+
+    /// @param serverSigs signatures from at least `signerThreshold` distinct
+    ///        signers, ordered by ascending signer address
+    function submitScore(ScorePayload calldata payload, bytes[] calldata serverSigs) external nonReentrant whenNotPaused {
+        if (payload.player != msg.sender) revert InvalidSession();
+        _revertWith(_checkRun(payload, serverSigs));
+        _recordRun(payload);
+    }
+
+    /// Submit on behalf of `payload.player`, who signed a RelayAuthorization for
+    /// the session. Sessions are single-use, so the authorization needs no nonce.
+    function submitScoreFor(ScorePayload calldata payload, bytes[] calldata serverSigs, bytes calldata playerSig) external nonReentrant whenNotPaused {
+        if (!_relayAuthorized(payload, playerSig)) revert BadPlayerSignature();
+        _revertWith(_checkRun(payload, serverSigs));
+        _recordRun(payload);
+    }
+
+    /// Batched `submitScore`/`submitScoreFor`. Entries of other players need their
+    /// RelayAuthorization in `playerSigs` (pass empty bytes for the caller's own).
+    /// An entry that would revert on its own emits `ScoreSkipped` with the error
+    /// selector and is left untouched.
+    /// @return accepted number of runs recorded
+    function submitScores(
+        ScorePayload[] calldata payloads,
+        bytes[][] calldata serverSigs,
+        bytes[] calldata playerSigs
+    ) external nonReentrant whenNotPaused returns (uint256 accepted) {
+        if (serverSigs.length != payloads.length || playerSigs.length != payloads.length) revert InvalidBatch();
+        for (uint256 i = 0; i < payloads.length; i++) {
+            ScorePayload calldata payload = payloads[i];
+            bytes4 err = payload.player == msg.sender || _relayAuthorized(payload, playerSigs[i])
+                ? _checkRun(payload, serverSigs[i])
+                : BadPlayerSignature.selector;
+            if (err != 0) {
+                emit ScoreSkipped(payload.sessionId, payload.player, err);
+                continue;
+            }
+            _recordRun(payload);
+            accepted++;
+        }
+    }
+
+    /// Refund a run the attestation server declared void (e.g. it was down or
+    /// failed mid-run). Anyone may relay the server's signature. A void only
+    /// returns the player's own fee, so one valid signer is enough.
+    function voidRun(bytes32 sessionId, bytes calldata serverSig) external nonReentrant {
         RunState storage rs = runs[sessionId];
-        if (rs.player != address(0)) revert AlreadyRunning();
+        if (rs.player == address(0)) revert InvalidSession();
+        if (rs.finalized) revert RunFinalized();
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(VOID_RUN_TYPEHASH, rs.player, sessionId)));
+        if (!_isValidSigner(digest.recover(serverSig))) revert BadAttestation();
+        _refund(sessionId, rs, true);
+    }
 
-        rs.player = msg.sender;
-        rs.finalized = false;
+    /// Refund a run that was never attested within `runExpiry` of starting.
+    function refundExpiredRun(bytes32 sessionId) external nonReentrant {
+        RunState storage rs = runs[sessionId];
+        if (rs.player == address(0)) revert InvalidSession();
+        if (rs.finalized) revert RunFinalized();
+        if (runExpiry == 0 || block.timestamp < uint256(rs.startedAt) + runExpiry) revert RunNotExpired();
+        _refund(sessionId, rs, false);
+    }
 
-        PlayerStats storage stats = players[msg.sender];
-        stats.runs += 1;
+    // -------- Views --------
+    function prizePool() external view returns (uint256) {
+        return ledgers[ETH].prizePool;
+    }
 
-        emit RunStarted(sessionId, msg.sender);
+    function escrowedFees() external view returns (uint256) {
+        return ledgers[ETH].escrowed;
     }
 
-    function submitScore(ScorePayload calldata payload, bytes calldata serverSig) external nonReentrant {
-        if (payload.player != msg.sender) revert InvalidSession();
+    function totalClaimable() external view returns (uint256) {
+        return ledgers[ETH].totalClaimable;
+    }
+
+    function claimable(address account) external view returns (uint256) {
+        return claimableOf[ETH][account];
+    }
+
+    /// Every token ever accepted, including ones whose fee is now 0.
+    function getTokens() external view returns (address[] memory) {
+        return _tokens;
+    }
+
+    /// UTC day index of the current block (unix seconds / 1 day).
+    function currentDay() public view returns (uint32) {
+        return uint32(block.timestamp / 1 days);
+    }
+
+    function getDailyLeaderboard(uint32 day) external view returns (LeaderboardEntry[] memory rows) {
+        rows = _dailyBoards[day].entries();
+    }
+
+    function leaderboardLength(uint8 mode) external view returns (uint256) {
+        return _boards[currentSeason][mode].length();
+    }
+
+    function getLeaderboard(uint8 mode) external view returns (LeaderboardEntry[] memory rows) {
+        rows = _boards[currentSeason][mode].entries();
+    }
+
+    /// Board of any season and mode; for `currentSeason` this is the live board.
+    function getSeasonLeaderboard(uint32 seasonId, uint8 mode) external view returns (LeaderboardEntry[] memory rows) {
+        if (seasonId == 0 || seasonId > currentSeason) revert UnknownSeason();
+        rows = _boards[seasonId][mode].entries();
+    }
+
+    /// Best run of each top player this season, one row per player.
+    function getPlayerLeaderboard(uint8 mode) external view returns (LeaderboardEntry[] memory rows) {
+        rows = _playerBoards[currentSeason][mode].board.entries();
+    }
+
+    function getSeasonPlayerLeaderboard(uint32 seasonId, uint8 mode) external view returns (LeaderboardEntry[] memory rows) {
+        if (seasonId == 0 || seasonId > currentSeason) revert UnknownSeason();
+        rows = _playerBoards[seasonId][mode].board.entries();
+    }
+
+    function getSigners() external view returns (address[] memory) {
+        return _signers;
+    }
+
+    function getPayoutSchedule() external view returns (uint16[] memory) {
+        return _payoutBps;
+    }
+
+    /// Queued admin changes, in no particular order; the id of each is keccak256(data).
+    function getPendingChanges() external view returns (Timelock.PendingChange[] memory) {
+        return _changes.pending();
+    }
+
+    function getPlayer(address player) external view returns (PlayerStats memory stats) {
+        stats = _players[player];
+        stats.bestRank = _boards[currentSeason][CLASSIC_MODE].rankOf(player, _playerBoards[currentSeason][CLASSIC_MODE].scoreOf(player));
+    }
+
+    /// For a closed season bestRank is the rank the season ended with.
+    function getSeasonPlayer(uint32 seasonId, address player) external view returns (PlayerStats memory stats) {
+        if (seasonId == 0 || seasonId > currentSeason) revert UnknownSeason();
+        stats = _seasonPlayers[seasonId][player];
+        stats.bestRank = _boards[seasonId][CLASSIC_MODE].rankOf(player, _playerBoards[seasonId][CLASSIC_MODE].scoreOf(player));
+    }
+
+    // -------- Internal helpers --------
+    function _relayAuthorized(ScorePayload calldata payload, bytes calldata playerSig) internal view returns (bool) {
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(RELAY_AUTHORIZATION_TYPEHASH, payload.player, payload.sessionId)));
+        (address signer, ECDSA.RecoverError err, ) = digest.tryRecover(playerSig);
+        return err == ECDSA.RecoverError.NoError && signer == payload.player;
+    }
+
+    /// Selector of the error a submission of `payload` fails with, 0 if it is valid.
+    /// Callers have established that `payload.player` stands behind the submission.
+    function _checkRun(ScorePayload calldata payload, bytes[] calldata serverSigs) internal view returns (bytes4) {
         RunState storage rs = runs[payload.sessionId];
-        if (rs.player != msg.sender) revert InvalidSession();
-        if (rs.finalized) revert RunFinalized();
-        if (serverSigner == address(0)) revert BadAttestation();
+        if (rs.player != payload.player) return InvalidSession.selector;
+        if (rs.finalized) return RunFinalized.selector;
+        if (block.timestamp > payload.deadline) return AttestationExpired.selector;
+        if (payload.day != rs.day) return InvalidSession.selector;
 
-        bytes32 digest = keccak256(abi.encode(
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            SCORE_PAYLOAD_TYPEHASH,
             payload.player,
             payload.sessionId,
+            payload.mode,
+            payload.day,
             payload.score,
             payload.runHash,
-            payload.timeDigest
-        ));
-        address recovered = ECDSA.recover(MessageHashUtils.toEthSignedMessageHash(digest), serverSig);
-        if (recovered != serverSigner) revert BadAttestation();
+            payload.timeDigest,
+            payload.deadline
+        )));
+        if (!_hasSignatures(digest, serverSigs, signerThreshold)) return BadAttestation.selector;
+        return 0;
+    }
 
-        rs.finalized = true;
+    function _isTimelocked(bytes4 selector) internal pure returns (bool) {
+        return selector == this.setEntryFee.selector
+            || selector == this.setTokenEntryFee.selector
+            || selector == this.setFeeSink.selector
+            || selector == this.addSigner.selector
+            || selector == this.removeSigner.selector
+            || selector == this.setSignerThreshold.selector
+            || selector == this.setSignerGracePeriod.selector
+            || selector == this.setPrizeConfig.selector
+            || selector == this.setRefundPolicy.selector
+            || selector == this.setReferralBps.selector
+            || selector == this.setBadges.selector
+            || selector == this.setAdminDelay.selector;
+    }
 
-        PlayerStats storage stats = players[msg.sender];
-        if (payload.score > stats.bestScore) {
-            stats.bestScore = payload.score;
+    function _checkTimelocked() internal view {
+        if (msg.sender != address(this)) {
+            _checkOwner();
+            if (adminDelay != 0) revert Timelocked();
         }
+    }
 
-        (bool inserted, address dropped) = _considerLeaderboardEntry(LeaderboardEntry({
-            player: msg.sender,
-            score: payload.score,
-            sessionId: payload.sessionId,
-            updatedAt: uint64(block.timestamp)
-        }));
-
-        if (dropped != address(0)) {
-            players[dropped].bestRank = 0;
+    function _revertWith(bytes4 err) internal pure {
+        if (err == 0) return;
+        assembly {
+            mstore(0, err)
+            revert(0, 4)
         }
+    }
 
-        uint8 newRank = players[msg.sender].bestRank;
-        if (inserted) {
-            _recalculateRanks();
-            newRank = players[msg.sender].bestRank;
-            emit LeaderboardChanged(msg.sender, payload.score, newRank);
-        }
+    /// Finalize a checked run and enter it on its board.
+    function _recordRun(ScorePayload calldata payload) internal {
+        RunState storage rs = runs[payload.sessionId];
+        rs.finalized = true;
+        rs.runHash = payload.runHash;
+        _releaseFee(rs);
 
-        emit ScoreSubmitted(payload.sessionId, msg.sender, payload.score, newRank);
+        uint8 newRank = rs.day != 0 ? _enterDailyBoard(payload) : _enterSeasonBoards(rs.season, payload);
+        emit ScoreSubmitted(payload.sessionId, payload.player, payload.mode, payload.score, newRank);
     }
 
-    // -------- Views --------
-    function leaderboardLength() external view returns (uint256) {
-        return leaderboard.length;
+    function _startSeason(uint32 seasonId) internal {
+        currentSeason = seasonId;
+        seasons[seasonId].startedAt = uint64(block.timestamp);
+        emit SeasonStarted(seasonId);
     }
 
-    function getLeaderboard() external view returns (LeaderboardEntry[] memory rows) {
-        rows = leaderboard;
+    function _ethFee() internal view returns (uint256) {
+        if (entryFeeWei == 0 || msg.value != entryFeeWei) revert InvalidFee();
+        return msg.value;
     }
 
-    function getPlayer(address player) external view returns (PlayerStats memory stats) {
-        stats = players[player];
-    }
+    /// Open a run paid with `fee` of `token`; the caller collects the fee.
+    function _startRun(bytes32 sessionId, address token, uint256 fee) internal returns (RunState storage rs) {
+        rs = runs[sessionId];
+        if (rs.player != address(0)) revert AlreadyRunning();
 
-    // -------- Internal helpers --------
-    function _considerLeaderboardEntry(LeaderboardEntry memory entry) internal returns (bool inserted, address droppedPlayer) {
-        if (leaderboard.length < LEADERBOARD_SIZE) {
-            leaderboard.push(entry);
-            _bubbleUp(leaderboard.length - 1);
-            inserted = true;
-            return (inserted, address(0));
-        }
+        rs.player = msg.sender;
+        rs.finalized = false;
+        rs.season = currentSeason;
+        rs.startedAt = uint64(block.timestamp);
+        rs.fee = SafeCast.toUint128(fee);
+        rs.token = token;
+        ledgers[token].escrowed += fee;
 
-        uint256 lastIdx = leaderboard.length - 1;
-        LeaderboardEntry memory tail = leaderboard[lastIdx];
-        if (entry.score < tail.score) {
-            return (false, address(0));
-        }
-        if (entry.score == tail.score && entry.updatedAt <= tail.updatedAt) {
-            return (false, address(0));
-        }
+        _players[msg.sender].runs += 1;
+        _seasonPlayers[currentSeason][msg.sender].runs += 1;
 
-        droppedPlayer = tail.player;
-        leaderboard[lastIdx] = entry;
-        _bubbleUp(lastIdx);
-        inserted = true;
-    }
-
-    function _bubbleUp(uint256 i) internal {
-        while (i > 0) {
-            uint256 prev = i - 1;
-            LeaderboardEntry memory curr = leaderboard[i];
-            LeaderboardEntry memory prevEntry = leaderboard[prev];
-            bool shouldSwap;
-            if (curr.score > prevEntry.score) {
-                shouldSwap = true;
-            } else if (curr.score == prevEntry.score) {
-                shouldSwap = curr.updatedAt > prevEntry.updatedAt;
-            }
+        emit RunStarted(sessionId, msg.sender, fee);
+    }
 
-            if (!shouldSwap) {
-                break;
-            }
+    function _startDailyRun(bytes32 sessionId, uint32 day, RunState storage rs) internal {
+        if (day != currentDay()) revert WrongDay();
+        uint8 attempt = dailyAttempts[day][msg.sender] + 1;
+        if (attempt > dailyAttemptLimit) revert DailyLimitReached();
+        dailyAttempts[day][msg.sender] = attempt;
+        rs.day = day;
+        emit DailyRunStarted(sessionId, msg.sender, day, attempt);
+    }
+
+    function _addSigner(address signer) internal {
+        _signers.push(signer);
+        signerValidUntil[signer] = type(uint64).max;
+        emit SignerAdded(signer);
+    }
 
-            leaderboard[prev] = curr;
-            leaderboard[i] = prevEntry;
+    function _isValidSigner(address signer) internal view returns (bool) {
+        return signer != address(0) && block.timestamp <= signerValidUntil[signer];
+    }
 
-            i = prev;
+    /// Ascending signer order makes duplicate signatures impossible to count twice.
+    /// Signatures from unknown or expired signers are skipped, so a server still
+    /// co-signing with a rotated-out key does not break submissions.
+    function _hasSignatures(bytes32 digest, bytes[] calldata sigs, uint256 threshold) internal view returns (bool) {
+        address last;
+        uint256 valid;
+        for (uint256 i = 0; i < sigs.length; i++) {
+            (address signer, ECDSA.RecoverError err, ) = digest.tryRecover(sigs[i]);
+            if (err != ECDSA.RecoverError.NoError || signer <= last) return false;
+            last = signer;
+            if (_isValidSigner(signer)) valid++;
         }
+        return threshold != 0 && valid >= threshold;
+    }
+
+    /// Move a scored run's fee out of escrow: the pool share to the prize pool,
+    /// the referral share to the player's referrer, the rest to the house balance.
+    function _releaseFee(RunState storage rs) internal {
+        uint256 fee = rs.fee;
+        Payments.AssetLedger storage ledger = ledgers[rs.token];
+        ledger.escrowed -= fee;
+        ledger.prizePool += (fee * prizePoolBps) / BPS;
+
+        address referrer = referrals[rs.player].referrer;
+        uint256 reward = (fee * referralBps) / BPS;
+        if (referrer == address(0) || reward == 0) return;
+        claimableOf[rs.token][referrer] += reward;
+        ledger.totalClaimable += reward;
+        emit ReferralRewarded(referrer, rs.player, reward, rs.token);
+    }
+
+    function _refund(bytes32 sessionId, RunState storage rs, bool voided) internal {
+        rs.finalized = true;
+        rs.refunded = true;
+        uint256 fee = rs.fee;
+        ledgers[rs.token].escrowed -= fee;
+        uint256 amount = (fee * refundBps) / BPS;
+        emit RunRefunded(sessionId, rs.player, amount, voided);
+        if (amount > 0) Payments.send(rs.token, rs.player, amount);
     }
 
-    function _recalculateRanks() internal {
-        for (uint256 i = 0; i < leaderboard.length; i++) {
-            players[leaderboard[i].player].bestRank = 0;
+    /// Record a regular run: classic stats, then the mode's boards if the run's
+    /// season is still live, then badges for classic runs. Returns the player's
+    /// rank on the per-run board.
+    function _enterSeasonBoards(uint32 season, ScorePayload calldata payload) internal returns (uint8 newRank) {
+        if (payload.mode == CLASSIC_MODE) {
+            PlayerStats storage stats = _players[payload.player];
+            if (payload.score > stats.bestScore) {
+                stats.bestScore = payload.score;
+            }
+            PlayerStats storage seasonStats = _seasonPlayers[season][payload.player];
+            if (payload.score > seasonStats.bestScore) {
+                seasonStats.bestScore = payload.score;
+            }
         }
-        for (uint256 i = 0; i < leaderboard.length; i++) {
-            PlayerStats storage stats = players[leaderboard[i].player];
-            if (stats.bestRank == 0) {
-                stats.bestRank = uint8(i + 1);
+        if (season != currentSeason) return 0;
+
+        newRank = Boards.enterSeason(
+            _boards[season][payload.mode],
+            _playerBoards[season][payload.mode],
+            LEADERBOARD_SIZE,
+            payload.mode,
+            payload.player,
+            payload.score,
+            payload.sessionId
+        );
+
+        if (payload.mode == CLASSIC_MODE && address(badges) != address(0)) {
+            // Capped gas and no returndata copied: whatever the badge contract does,
+            // it cannot block or drain a score submission. A caller that sends too
+            // little gas for the call to get all of BADGE_GAS (only 63/64 of what is
+            // left is forwarded) is refused rather than silently losing the badges.
+            if (gasleft() < (BADGE_GAS * 64) / 63 + BADGE_CALL_OVERHEAD) revert BadgeGasTooLow();
+            bytes memory data = abi.encodeCall(IBadgeMinter.recordRun, (payload.player, season, payload.score, newRank));
+            address target = address(badges);
+            assembly {
+                pop(call(BADGE_GAS, target, 0, add(data, 32), mload(data), 0, 0))
             }
         }
     }
 
+    /// Daily runs only compete on their day's board.
+    function _enterDailyBoard(ScorePayload calldata payload) internal returns (uint8 newRank) {
+        return Boards.enterDaily(
+            _dailyBoards[payload.day],
+            _dailyBest[payload.day],
+            LEADERBOARD_SIZE,
+            payload.day,
+            payload.player,
+            payload.score,
+            payload.sessionId
+        );
+    }
+
     // safety: block unexpected ETH
     receive() external payable {
         revert("direct eth not allowed");
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+/// Events and errors of Timelock; the pool inherits them so they are part of its ABI.
+interface ITimelock {
+    error ChangeAlreadyQueued();
+    error UnknownChange();
+    error ChangeNotReady();
+
+    event ChangeQueued(bytes32 indexed id, bytes data, uint64 eta);
+    event ChangeExecuted(bytes32 indexed id, bytes data);
+    event ChangeCancelled(bytes32 indexed id, bytes data);
+}
+
+/**
+ * Timelock – the queue of delayed admin calls. A change is the calldata of a
+ * call the contract makes to itself once its delay has passed; its id is
+ * keccak256 of that calldata. Which calls may be queued is the contract's
+ * business.
+ * It is an external library linked into SnakeLeaderboard, keeping the pool
+ * under the contract size limit; its functions run on the pool's storage.
+ */
+library Timelock {
+    struct PendingChange {
+        bytes data; // calldata of the timelocked admin call
+        uint64 eta; // earliest timestamp it may be executed at
+    }
+
+    struct Queue {
+        mapping(bytes32 => PendingChange) changes; // keccak256(data) => change
+        bytes32[] ids;
+    }
+
+    function queue(Queue storage q, bytes calldata data, uint64 delay) external returns (bytes32 id) {
+        id = keccak256(data);
+        if (q.changes[id].eta != 0) revert ITimelock.ChangeAlreadyQueued();
+        uint64 eta = uint64(block.timestamp) + delay;
+        q.changes[id] = PendingChange(data, eta);
+        q.ids.push(id);
+        emit ITimelock.ChangeQueued(id, data, eta);
+    }
+
+    /// Make the queued call, bubbling up its revert.
+    function execute(Queue storage q, bytes32 id) external {
+        PendingChange memory change = _drop(q, id);
+        if (block.timestamp < change.eta) revert ITimelock.ChangeNotReady();
+        emit ITimelock.ChangeExecuted(id, change.data);
+        (bool ok, bytes memory ret) = address(this).call(change.data);
+        if (!ok) {
+            assembly {
+                revert(add(ret, 32), mload(ret))
+            }
+        }
+    }
+
+    function cancel(Queue storage q, bytes32 id) external {
+        emit ITimelock.ChangeCancelled(id, _drop(q, id).data);
+    }
+
+    /// Queued changes, in no particular order.
+    function pending(Queue storage q) external view returns (PendingChange[] memory changes) {
+        changes = new PendingChange[](q.ids.length);
+        for (uint256 i = 0; i < changes.length; i++) {
+            changes[i] = q.changes[q.ids[i]];
+        }
+    }
+
+    /// Remove a queued change and return it.
+    function _drop(Queue storage q, bytes32 id) private returns (PendingChange memory change) {
+        change = q.changes[id];
+        if (change.eta == 0) revert ITimelock.UnknownChange();
+        delete q.changes[id];
+        uint256 last = q.ids.length - 1;
+        for (uint256 i = 0; i < last; i++) {
+            if (q.ids[i] == id) {
+                q.ids[i] = q.ids[last];
+                break;
+            }
+        }
+        q.ids.pop();
+    }
+}
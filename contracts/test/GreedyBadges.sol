@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {IBadgeMinter} from "../SnakeBadges.sol";
+
+/// Test-only badge contract that burns every bit of gas it is given.
+contract GreedyBadges is IBadgeMinter {
+    function recordRun(address, uint32, uint64, uint8) external pure {
+        while (true) {}
+    }
+}
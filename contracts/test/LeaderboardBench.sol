@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Leaderboard, LeaderboardEntry} from "../Leaderboard.sol";
+
+/**
+ * Test-only harnesses that put the Leaderboard library next to the board it
+ * replaced, so the tests can check its ordering and compare gas. Each `submit`
+ * does what SnakeLeaderboard does to a season's boards for one scored run,
+ * including working out the player's best rank, and emits that rank.
+ */
+contract LeaderboardBench {
+    using Leaderboard for Leaderboard.Board;
+    using Leaderboard for Leaderboard.PlayerBoard;
+
+    uint8 public immutable size;
+    Leaderboard.Board internal _board;
+    Leaderboard.PlayerBoard internal _playerBoard;
+
+    event Submitted(address indexed player, uint8 rank);
+
+    constructor(uint8 _size) {
+        size = _size;
+    }
+
+    function submit(address player, uint64 score, bytes32 sessionId) external returns (uint8 rank) {
+        uint64 best = _playerBoard.scoreOf(player);
+        uint8 runRank = _board.insert(size, player, score, sessionId);
+        rank = score > best ? runRank : _board.rankOf(player, best);
+        _playerBoard.upsert(size, player, score, sessionId);
+        emit Submitted(player, rank);
+    }
+
+    function rankOf(address player) external view returns (uint8) {
+        return _board.rankOf(player, _playerBoard.scoreOf(player));
+    }
+
+    function entries() external view returns (LeaderboardEntry[] memory) {
+        return _board.entries();
+    }
+
+    function submitBest(address player, uint64 score, bytes32 sessionId) external returns (uint8) {
+        return _playerBoard.upsert(size, player, score, sessionId);
+    }
+
+    function bestEntries() external view returns (LeaderboardEntry[] memory) {
+        return _playerBoard.board.entries();
+    }
+}
+
+/// The board as it was before the Leaderboard library: an array of full rows
+/// kept sorted by swapping, with every player's rank rewritten on each insert.
+contract LegacyLeaderboardBench {
+    uint8 public immutable size;
+    LeaderboardEntry[] internal _board;
+    mapping(address => uint8) public bestRank;
+    mapping(address => uint8) public seasonBestRank;
+
+    event Submitted(address indexed player, uint8 rank);
+
+    constructor(uint8 _size) {
+        size = _size;
+    }
+
+    function submit(address player, uint64 score, bytes32 sessionId) external returns (uint8 rank) {
+        LeaderboardEntry memory entry = LeaderboardEntry({
+            player: player,
+            score: score,
+            sessionId: sessionId,
+            updatedAt: uint64(block.timestamp)
+        });
+        (bool inserted, address dropped) = _considerLeaderboardEntry(entry);
+        if (dropped != address(0)) {
+            bestRank[dropped] = 0;
+            seasonBestRank[dropped] = 0;
+        }
+        if (inserted) _recalculateRanks();
+        rank = _bestRankOf(player);
+        emit Submitted(player, rank);
+    }
+
+    function rankOf(address player) external view returns (uint8) {
+        return bestRank[player];
+    }
+
+    function entries() external view returns (LeaderboardEntry[] memory) {
+        return _board;
+    }
+
+    function _considerLeaderboardEntry(LeaderboardEntry memory entry) internal returns (bool inserted, address droppedPlayer) {
+        if (_board.length < size) {
+            _board.push(entry);
+            _bubbleUp(_board.length - 1);
+            return (true, address(0));
+        }
+        uint256 lastIdx = _board.length - 1;
+        LeaderboardEntry memory tail = _board[lastIdx];
+        if (entry.score < tail.score) return (false, address(0));
+        if (entry.score == tail.score && entry.updatedAt <= tail.updatedAt) return (false, address(0));
+        droppedPlayer = tail.player;
+        _board[lastIdx] = entry;
+        _bubbleUp(lastIdx);
+        inserted = true;
+    }
+
+    function _bubbleUp(uint256 i) internal {
+        while (i > 0) {
+            uint256 prev = i - 1;
+            LeaderboardEntry memory curr = _board[i];
+            LeaderboardEntry memory prevEntry = _board[prev];
+            bool shouldSwap;
+            if (curr.score > prevEntry.score) {
+                shouldSwap = true;
+            } else if (curr.score == prevEntry.score) {
+                shouldSwap = curr.updatedAt > prevEntry.updatedAt;
+            }
+            if (!shouldSwap) break;
+            _board[prev] = curr;
+            _board[i] = prevEntry;
+            i = prev;
+        }
+    }
+
+    function _bestRankOf(address player) internal view returns (uint8) {
+        for (uint256 i = 0; i < _board.length; i++) {
+            if (_board[i].player == player) return uint8(i + 1);
+        }
+        return 0;
+    }
+
+    function _recalculateRanks() internal {
+        for (uint256 i = 0; i < _board.length; i++) {
+            bestRank[_board[i].player] = 0;
+        }
+        for (uint256 i = 0; i < _board.length; i++) {
+            address player = _board[i].player;
+            if (bestRank[player] == 0) {
+                bestRank[player] = uint8(i + 1);
+                seasonBestRank[player] = uint8(i + 1);
+            }
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import express, { Request, Response } from 'express'
+import cors from 'cors'
+import { isAddress } from 'ethers'
+import type { ErrorResponse } from '../../shared/api'
+import type { IndexerHealth, Page, PlayerProfile, RankedRun } from '../../shared/indexer'
+import { IndexerDb } from './db'
+import { buildProfile } from './profile'
+import { CLASSIC_MODE } from '../../shared/modes'
+
+export type ApiDeps = {
+  db: IndexerDb
+  clientOrigin: string
+}
+
+const DEFAULT_PAGE_SIZE = 25
+const MAX_PAGE_SIZE = 100
+
+type Paging = { page: number, pageSize: number, offset: number }
+
+function parsePaging(query: Request['query']): Paging | null {
+  const page = query.page == null ? 1 : Number(query.page)
+  const pageSize = query.pageSize == null ? DEFAULT_PAGE_SIZE : Number(query.pageSize)
+  if (!Number.isInteger(page) || page < 1) return null
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) return null
+  return { page, pageSize, offset: (page - 1) * pageSize }
+}
+
+function parseTimestamp(v: unknown): number | null {
+  const n = Number(v)
+  return typeof v === 'string' && v !== '' && Number.isInteger(n) && n >= 0 ? n : null
+}
+
+// Game mode of a ranking; scores of different modes are never ranked together.
+function parseMode(v: unknown): number | null {
+  if (v == null) return CLASSIC_MODE
+  const n = Number(v)
+  return typeof v === 'string' && v !== '' && Number.isInteger(n) && n >= 0 && n <= 255 ? n : null
+}
+
+type Reply = Response<Page<RankedRun> | ErrorResponse>
+
+export function createApi({ db, clientOrigin }: ApiDeps) {
+  const app = express()
+  app.use(cors({ origin: clientOrigin }))
+
+  const paged = (fn: (req: Request, paging: Paging) => { total: number, items: RankedRun[] } | string) =>
+    (req: Request, res: Reply) => {
+      const paging = parsePaging(req.query)
+      if (!paging) return res.status(400).json({ error: 'bad paging' })
+      const result = fn(req, paging)
+      if (typeof result === 'string') return res.status(400).json({ error: result })
+      res.json({ page: paging.page, pageSize: paging.pageSize, ...result })
+    }
+
+  // All-time scored runs of `mode` (default classic), ranked like the on-chain board.
+  app.get('/runs', paged((req, p) => {
+    const mode = parseMode(req.query.mode)
+    if (mode == null) return 'bad mode'
+    return db.rankedRuns(mode, p.offset, p.pageSize)
+  }))
+
+  // Scored runs submitted between `from` and `to` (unix seconds, inclusive).
+  app.get('/runs/window', paged((req, p) => {
+    const mode = parseMode(req.query.mode)
+    const from = parseTimestamp(req.query.from)
+    const to = parseTimestamp(req.query.to)
+    if (mode == null) return 'bad mode'
+    if (from == null || to == null || from > to) return 'bad window'
+    return db.runsBetween(mode, from, to, p.offset, p.pageSize)
+  }))
+
+  // Scored daily challenge runs of one UTC day index (see shared/daily.ts), ranked.
+  app.get('/daily/:day/runs', paged((req, p) => {
+    const day = parseTimestamp(req.params.day)
+    if (day == null) return 'bad day'
+    return db.dailyRuns(day, p.offset, p.pageSize)
+  }))
+
+  app.get('/players/:address/runs', paged((req, p) => {
+    if (!isAddress(req.params.address)) return 'bad address'
+    return db.playerRuns(req.params.address, p.offset, p.pageSize)
+  }))
+
+  // Run statistics and rank history for any address, connected or not.
+  app.get('/players/:address/profile', (req, res: Response<PlayerProfile | ErrorResponse>) => {
+    if (!isAddress(req.params.address)) return res.status(400).json({ error: 'bad address' })
+    const mode = parseMode(req.query.mode)
+    if (mode == null) return res.status(400).json({ error: 'bad mode' })
+    const { runs, ranks } = db.profileData(req.params.address, mode)
+    res.json(buildProfile(req.params.address, mode, runs, ranks))
+  })
+
+  app.get('/health', (_req, res: Response<IndexerHealth>) => {
+    res.json({ ok: true, block: db.cursor()?.number ?? null })
+  })
+
+  app.use((err: unknown, _req: Request, res: Response, _next: express.NextFunction) => {
+    console.error(err)
+    res.status(500).json({ error: 'server error' })
+  })
+
+  return app
+}
@@ -0,0 +1,27 @@
+export type IndexerConfig = {
+  port: number
+  clientOrigin: string
+  rpcUrl?: string
+  poolAddress?: string
+  startBlock: number
+  dbPath: string
+  confirmations: number
+  pollMs: number
+  batchBlocks: number
+  reorgDepth: number
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  return {
+    port: Number(env.PORT || 8788),
+    clientOrigin: env.CLIENT_ORIGIN || 'http://localhost:5173',
+    rpcUrl: env.BASE_RPC || undefined,
+    poolAddress: env.POOL_ADDRESS || undefined,
+    startBlock: Number(env.START_BLOCK || 0),
+    dbPath: env.INDEXER_DB || 'indexer.sqlite',
+    confirmations: Number(env.CONFIRMATIONS ?? 0),
+    pollMs: Number(env.POLL_MS || 4000),
+    batchBlocks: Number(env.BATCH_BLOCKS || 2000),
+    reorgDepth: Number(env.REORG_DEPTH || 64),
+  }
+}
@@ -0,0 +1,260 @@
+import fs from 'fs'
+import initSqlJs, { Database, SqlValue } from 'sql.js'
+import type { IndexedRun, RankPoint, RankedRun } from '../../shared/indexer'
+
+export type BlockRef = { number: number, hash: string, timestamp: number }
+
+// Wei amounts are decimal strings; SQLite integers stop at 2^63.
+export type PoolEvent =
+  | { kind: 'RunStarted', sessionId: string, player: string, fee: string }
+  | { kind: 'ScoreSubmitted', sessionId: string, player: string, mode: number, score: number, rank: number }
+  | { kind: 'LeaderboardChanged', player: string, mode: number, score: number, rank: number, logIndex: number }
+  | { kind: 'RunRefunded', sessionId: string, amount: string }
+  | { kind: 'DailyRunStarted', sessionId: string, day: number }
+  | { kind: 'TokenRunStarted', sessionId: string, token: string }
+
+// Bump when the layout changes; older databases are dropped and re-indexed.
+const SCHEMA_VERSION = 5
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    session_id TEXT PRIMARY KEY,
+    player TEXT NOT NULL,
+    started_block INTEGER NOT NULL,
+    started_at INTEGER NOT NULL,
+    fee TEXT NOT NULL,
+    token TEXT,
+    day INTEGER,
+    mode INTEGER,
+    score INTEGER,
+    rank INTEGER,
+    submitted_block INTEGER,
+    submitted_at INTEGER,
+    refund TEXT,
+    refund_block INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS runs_by_score ON runs (mode, score DESC, submitted_at DESC);
+  CREATE INDEX IF NOT EXISTS runs_by_day ON runs (day, score DESC);
+  CREATE INDEX IF NOT EXISTS runs_by_player ON runs (player, started_block DESC);
+  CREATE TABLE IF NOT EXISTS leaderboard_changes (
+    block INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    at INTEGER NOT NULL,
+    player TEXT NOT NULL,
+    mode INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    rank INTEGER NOT NULL,
+    PRIMARY KEY (block, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+`
+
+const TABLES = ['runs', 'leaderboard_changes', 'blocks', 'meta']
+
+const RUN_COLUMNS = `session_id, player, started_block, started_at, fee, token, day, mode, score, rank, submitted_block, submitted_at, refund`
+
+// Same order as the on-chain board: higher score first, then the newer submission.
+const RANKED = `score IS NOT NULL ORDER BY score DESC, submitted_at DESC, submitted_block DESC`
+
+type Row = Record<string, SqlValue>
+
+function toRun(r: Row): IndexedRun {
+  return {
+    sessionId: String(r.session_id),
+    player: String(r.player),
+    startedBlock: Number(r.started_block),
+    startedAt: Number(r.started_at),
+    feeWei: String(r.fee),
+    token: r.token == null ? null : String(r.token),
+    refundWei: r.refund == null ? null : String(r.refund),
+    day: r.day == null ? null : Number(r.day),
+    mode: r.mode == null ? null : Number(r.mode),
+    score: r.score == null ? null : Number(r.score),
+    rank: r.rank == null ? null : Number(r.rank),
+    submittedBlock: r.submitted_block == null ? null : Number(r.submitted_block),
+    submittedAt: r.submitted_at == null ? null : Number(r.submitted_at),
+  }
+}
+
+function ranked(rows: Row[], offset: number): RankedRun[] {
+  return rows.map((r, i) => ({ ...toRun(r), position: offset + i + 1 }))
+}
+
+// SQLite (sql.js) database of indexed pool events. Without a path it lives in
+// memory; with one it is loaded from and saved back to that file.
+export class IndexerDb {
+  private constructor(private readonly db: Database, private readonly path?: string) {
+    db.exec('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)')
+    if (this.all(`SELECT value FROM meta WHERE key = 'schema'`)[0]?.value !== String(SCHEMA_VERSION)) {
+      db.exec(TABLES.map((t) => `DROP TABLE IF EXISTS ${t};`).join('\n'))
+      db.exec(SCHEMA)
+      db.run(`INSERT INTO meta (key, value) VALUES ('schema', ?)`, [String(SCHEMA_VERSION)])
+    }
+  }
+
+  static async open(path?: string): Promise<IndexerDb> {
+    const SQL = await initSqlJs()
+    const data = path && fs.existsSync(path) ? fs.readFileSync(path) : undefined
+    return new IndexerDb(new SQL.Database(data), path)
+  }
+
+  private all(sql: string, params: SqlValue[] = []): Row[] {
+    const stmt = this.db.prepare(sql)
+    try {
+      stmt.bind(params)
+      const rows: Row[] = []
+      while (stmt.step()) rows.push(stmt.getAsObject())
+      return rows
+    } finally {
+      stmt.free()
+    }
+  }
+
+  private count(sql: string, params: SqlValue[] = []): number {
+    return Number(this.all(sql, params)[0]?.n ?? 0)
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN')
+    try {
+      fn()
+      this.db.exec('COMMIT')
+    } catch (e) {
+      this.db.exec('ROLLBACK')
+      throw e
+    }
+  }
+
+  // Last block fully indexed, with the hash it had when we indexed it.
+  cursor(): { number: number, hash: string } | null {
+    const rows = this.all(`SELECT value FROM meta WHERE key = 'cursor'`)
+    if (!rows.length) return null
+    const n = Number(rows[0].value)
+    return { number: n, hash: this.blockHash(n)! }
+  }
+
+  blockHash(number: number): string | null {
+    const rows = this.all('SELECT hash FROM blocks WHERE number = ?', [number])
+    return rows.length ? String(rows[0].hash) : null
+  }
+
+  // Remembered hashes, newest first, for finding the fork point after a reorg.
+  knownBlocks(): { number: number, hash: string }[] {
+    return this.all('SELECT number, hash FROM blocks ORDER BY number DESC').map((r) => ({ number: Number(r.number), hash: String(r.hash) }))
+  }
+
+  applyBlock(block: BlockRef, events: PoolEvent[]): void {
+    this.transaction(() => {
+      for (const ev of events) {
+        if (ev.kind === 'RunStarted') {
+          this.db.run(
+            `INSERT OR REPLACE INTO runs (session_id, player, started_block, started_at, fee) VALUES (?, ?, ?, ?, ?)`,
+            [ev.sessionId, ev.player.toLowerCase(), block.number, block.timestamp, ev.fee]
+          )
+        } else if (ev.kind === 'ScoreSubmitted') {
+          this.db.run(
+            `UPDATE runs SET mode = ?, score = ?, rank = ?, submitted_block = ?, submitted_at = ? WHERE session_id = ?`,
+            [ev.mode, ev.score, ev.rank, block.number, block.timestamp, ev.sessionId]
+          )
+        } else if (ev.kind === 'DailyRunStarted') {
+          this.db.run(`UPDATE runs SET day = ? WHERE session_id = ?`, [ev.day, ev.sessionId])
+        } else if (ev.kind === 'TokenRunStarted') {
+          this.db.run(`UPDATE runs SET token = ? WHERE session_id = ?`, [ev.token.toLowerCase(), ev.sessionId])
+        } else if (ev.kind === 'RunRefunded') {
+          this.db.run(`UPDATE runs SET refund = ?, refund_block = ? WHERE session_id = ?`, [ev.amount, block.number, ev.sessionId])
+        } else {
+          this.db.run(
+            `INSERT OR REPLACE INTO leaderboard_changes (block, log_index, at, player, mode, score, rank) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [block.number, ev.logIndex, block.timestamp, ev.player.toLowerCase(), ev.mode, ev.score, ev.rank]
+          )
+        }
+      }
+      this.db.run('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)', [block.number, block.hash])
+    })
+  }
+
+  setCursor(block: { number: number, hash: string }, keepBlocks: number): void {
+    this.transaction(() => {
+      this.db.run('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)', [block.number, block.hash])
+      this.db.run(`INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)`, [String(block.number)])
+      this.db.run('DELETE FROM blocks WHERE number < ?', [block.number - keepBlocks])
+    })
+  }
+
+  // Forget everything after `number` (a reorged-out range).
+  rollback(number: number): void {
+    this.transaction(() => {
+      this.db.run('DELETE FROM runs WHERE started_block > ?', [number])
+      this.db.run(
+        'UPDATE runs SET mode = NULL, score = NULL, rank = NULL, submitted_block = NULL, submitted_at = NULL WHERE submitted_block > ?',
+        [number]
+      )
+      this.db.run('UPDATE runs SET refund = NULL, refund_block = NULL WHERE refund_block > ?', [number])
+      this.db.run('DELETE FROM leaderboard_changes WHERE block > ?', [number])
+      this.db.run('DELETE FROM blocks WHERE number > ?', [number])
+      const kept = this.all('SELECT MAX(number) AS n FROM blocks')[0]?.n
+      if (kept == null) this.db.run(`DELETE FROM meta WHERE key = 'cursor'`)
+      else this.db.run(`INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)`, [String(kept)])
+    })
+  }
+
+  save(): void {
+    if (!this.path) return
+    const tmp = `${this.path}.tmp`
+    fs.writeFileSync(tmp, Buffer.from(this.db.export()))
+    fs.renameSync(tmp, this.path)
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  // Regular runs only; daily challenge runs are ranked per day by dailyRuns.
+  rankedRuns(mode: number, offset: number, limit: number): { total: number, items: RankedRun[] } {
+    const where = 'day IS NULL AND mode = ?'
+    return {
+      total: this.count(`SELECT COUNT(*) AS n FROM runs WHERE ${where} AND score IS NOT NULL`, [mode]),
+      items: ranked(this.all(`SELECT ${RUN_COLUMNS} FROM runs WHERE ${where} AND ${RANKED} LIMIT ? OFFSET ?`, [mode, limit, offset]), offset),
+    }
+  }
+
+  dailyRuns(day: number, offset: number, limit: number): { total: number, items: RankedRun[] } {
+    return {
+      total: this.count('SELECT COUNT(*) AS n FROM runs WHERE day = ? AND score IS NOT NULL', [day]),
+      items: ranked(this.all(`SELECT ${RUN_COLUMNS} FROM runs WHERE day = ? AND ${RANKED} LIMIT ? OFFSET ?`, [day, limit, offset]), offset),
+    }
+  }
+
+  // Regular scored runs of one mode submitted within [from, to] (unix seconds), ranked.
+  runsBetween(mode: number, from: number, to: number, offset: number, limit: number): { total: number, items: RankedRun[] } {
+    const window = 'day IS NULL AND mode = ? AND submitted_at >= ? AND submitted_at <= ?'
+    return {
+      total: this.count(`SELECT COUNT(*) AS n FROM runs WHERE ${window} AND score IS NOT NULL`, [mode, from, to]),
+      items: ranked(this.all(`SELECT ${RUN_COLUMNS} FROM runs WHERE ${window} AND ${RANKED} LIMIT ? OFFSET ?`, [mode, from, to, limit, offset]), offset),
+    }
+  }
+
+  // Every run of a player, newest first, scored or not.
+  playerRuns(player: string, offset: number, limit: number): { total: number, items: RankedRun[] } {
+    const p = player.toLowerCase()
+    return {
+      total: this.count('SELECT COUNT(*) AS n FROM runs WHERE player = ?', [p]),
+      items: ranked(this.all(
+        `SELECT ${RUN_COLUMNS} FROM runs WHERE player = ? ORDER BY started_block DESC, session_id LIMIT ? OFFSET ?`,
+        [p, limit, offset]
+      ), offset),
+    }
+  }
+
+  // Everything a profile is computed from: all of the player's runs and the
+  // ranks they reached on one mode's board, oldest first.
+  profileData(player: string, mode: number): { runs: IndexedRun[], ranks: RankPoint[] } {
+    const p = player.toLowerCase()
+    return {
+      runs: this.all(`SELECT ${RUN_COLUMNS} FROM runs WHERE player = ? ORDER BY started_block`, [p]).map(toRun),
+      ranks: this.all('SELECT block, at, score, rank FROM leaderboard_changes WHERE player = ? AND mode = ? ORDER BY block, log_index', [p, mode])
+        .map((r) => ({ block: Number(r.block), at: Number(r.at), score: Number(r.score), rank: Number(r.rank) })),
+    }
+  }
+}
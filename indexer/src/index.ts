@@ -0,0 +1,31 @@
+// Pool event indexer: follows the contract into SQLite and serves run history.
+import 'dotenv/config'
+import { JsonRpcProvider } from 'ethers'
+import { loadConfig } from './config'
+import { IndexerDb } from './db'
+import { Indexer } from './sync'
+import { createApi } from './api'
+
+async function main() {
+  const config = loadConfig()
+  if (!config.rpcUrl || !config.poolAddress) throw new Error('BASE_RPC and POOL_ADDRESS are required')
+
+  const db = await IndexerDb.open(config.dbPath)
+  const indexer = new Indexer(new JsonRpcProvider(config.rpcUrl), db, {
+    poolAddress: config.poolAddress,
+    startBlock: config.startBlock,
+    confirmations: config.confirmations,
+    batchBlocks: config.batchBlocks,
+    reorgDepth: config.reorgDepth,
+  })
+  indexer.start(config.pollMs)
+  console.log('[indexer] following', config.poolAddress, 'from block', db.cursor()?.number ?? config.startBlock)
+
+  const app = createApi({ db, clientOrigin: config.clientOrigin })
+  app.listen(config.port, () => console.log(`[indexer] listening on http://localhost:${config.port}`))
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
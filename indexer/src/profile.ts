@@ -0,0 +1,38 @@
+import type { IndexedRun, PlayerProfile, RankPoint, ScoreBucket } from '../../shared/indexer'
+
+const MAX_BUCKETS = 10
+
+export function median(sorted: number[]): number | null {
+  if (!sorted.length) return null
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// Equal-width buckets from 0 to the best score, at most MAX_BUCKETS of them.
+export function distribution(sorted: number[]): ScoreBucket[] {
+  if (!sorted.length) return []
+  const best = sorted[sorted.length - 1]
+  const width = Math.max(1, Math.ceil((best + 1) / MAX_BUCKETS))
+  const buckets: ScoreBucket[] = []
+  for (let from = 0; from <= best; from += width) buckets.push({ from, to: from + width - 1, count: 0 })
+  for (const score of sorted) buckets[Math.floor(score / width)].count++
+  return buckets
+}
+
+export function buildProfile(player: string, mode: number, runs: IndexedRun[], ranks: RankPoint[]): PlayerProfile {
+  const scores = runs.flatMap((r) => (r.score == null || r.mode !== mode ? [] : [r.score])).sort((a, b) => a - b)
+  const paid = runs.reduce((sum, r) => (r.token ? sum : sum + BigInt(r.feeWei) - BigInt(r.refundWei ?? 0)), 0n)
+  return {
+    player: player.toLowerCase(),
+    mode,
+    runs: runs.length,
+    scoredRuns: runs.filter((r) => r.score != null).length,
+    refundedRuns: runs.filter((r) => r.refundWei != null).length,
+    feesWei: paid.toString(),
+    bestScore: scores.length ? scores[scores.length - 1] : null,
+    averageScore: scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+    medianScore: median(scores),
+    distribution: distribution(scores),
+    rankHistory: ranks,
+  }
+}
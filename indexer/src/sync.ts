@@ -0,0 +1,147 @@
+import { Interface } from 'ethers'
+import { IndexerDb, PoolEvent } from './db'
+
+export const POOL_EVENTS_ABI = [
+  'event RunStarted(bytes32 indexed sessionId, address indexed player, uint256 fee)',
+  'event ScoreSubmitted(bytes32 indexed sessionId, address indexed player, uint8 mode, uint64 score, uint8 rank)',
+  'event LeaderboardChanged(address indexed player, uint8 mode, uint64 runScore, uint8 newRank)',
+  'event RunRefunded(bytes32 indexed sessionId, address indexed player, uint256 amount, bool voided)',
+  'event DailyRunStarted(bytes32 indexed sessionId, address indexed player, uint32 indexed day, uint8 attempt)',
+  'event TokenRunStarted(bytes32 indexed sessionId, address indexed token)',
+]
+
+const pool = new Interface(POOL_EVENTS_ABI)
+const TOPICS = ['RunStarted', 'ScoreSubmitted', 'LeaderboardChanged', 'RunRefunded', 'DailyRunStarted', 'TokenRunStarted'].map((name) => pool.getEvent(name)!.topicHash)
+
+export type RawLog = {
+  blockNumber: number
+  blockHash: string
+  index: number
+  topics: readonly string[]
+  data: string
+}
+
+// The slice of an ethers Provider the indexer needs; a JsonRpcProvider or the
+// Hardhat provider both fit.
+export interface ChainSource {
+  getBlockNumber(): Promise<number>
+  getBlock(number: number): Promise<{ number: number, hash: string | null, timestamp: number } | null>
+  getLogs(filter: { address: string, fromBlock: number, toBlock: number, topics: string[][] }): Promise<readonly RawLog[]>
+}
+
+export type SyncOptions = {
+  poolAddress: string
+  startBlock: number
+  confirmations: number
+  batchBlocks: number
+  reorgDepth: number
+}
+
+export type SyncResult = { from: number, to: number, events: number, rolledBackTo: number | null }
+
+function decode(log: RawLog): PoolEvent | null {
+  const parsed = pool.parseLog({ topics: [...log.topics], data: log.data })
+  if (!parsed) return null
+  const a = parsed.args
+  switch (parsed.name) {
+    case 'RunStarted':
+      return { kind: 'RunStarted', sessionId: a.sessionId, player: a.player, fee: a.fee.toString() }
+    case 'ScoreSubmitted':
+      return { kind: 'ScoreSubmitted', sessionId: a.sessionId, player: a.player, mode: Number(a.mode), score: Number(a.score), rank: Number(a.rank) }
+    case 'LeaderboardChanged':
+      return { kind: 'LeaderboardChanged', player: a.player, mode: Number(a.mode), score: Number(a.runScore), rank: Number(a.newRank), logIndex: log.index }
+    case 'RunRefunded':
+      return { kind: 'RunRefunded', sessionId: a.sessionId, amount: a.amount.toString() }
+    case 'DailyRunStarted':
+      return { kind: 'DailyRunStarted', sessionId: a.sessionId, day: Number(a.day) }
+    case 'TokenRunStarted':
+      return { kind: 'TokenRunStarted', sessionId: a.sessionId, token: a.token }
+    default:
+      return null
+  }
+}
+
+// Follows pool events into the database. Each sync first checks that the last
+// indexed block is still canonical and rolls back to the fork point if not.
+export class Indexer {
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(private readonly chain: ChainSource, private readonly db: IndexerDb, private readonly opts: SyncOptions) {}
+
+  private async hashOf(number: number): Promise<string | null> {
+    return (await this.chain.getBlock(number))?.hash ?? null
+  }
+
+  private async resolveReorg(): Promise<number | null> {
+    const cursor = this.db.cursor()
+    if (!cursor || (await this.hashOf(cursor.number)) === cursor.hash) return null
+    let forkPoint = this.opts.startBlock - 1
+    for (const known of this.db.knownBlocks()) {
+      if ((await this.hashOf(known.number)) === known.hash) {
+        forkPoint = known.number
+        break
+      }
+    }
+    console.warn('[indexer] reorg detected', { cursor: cursor.number, forkPoint })
+    this.db.rollback(forkPoint)
+    return forkPoint
+  }
+
+  async syncOnce(): Promise<SyncResult> {
+    const rolledBackTo = await this.resolveReorg()
+    const head = await this.chain.getBlockNumber()
+    const target = head - this.opts.confirmations
+    const start = (this.db.cursor()?.number ?? this.opts.startBlock - 1) + 1
+    let events = 0
+    let from = start
+    while (from <= target) {
+      const to = Math.min(from + this.opts.batchBlocks - 1, target)
+      const logs = await this.chain.getLogs({ address: this.opts.poolAddress, fromBlock: from, toBlock: to, topics: [TOPICS] })
+      let applied = 0
+      const byBlock = new Map<number, RawLog[]>()
+      for (const log of logs) {
+        const list = byBlock.get(log.blockNumber) ?? []
+        list.push(log)
+        byBlock.set(log.blockNumber, list)
+      }
+      for (const [number, blockLogs] of [...byBlock].sort((a, b) => a[0] - b[0])) {
+        const block = await this.chain.getBlock(number)
+        // The chain moved under us mid-batch: drop what this batch applied
+        // and let the next sync retry from the cursor. Earlier batches stay.
+        if (!block?.hash || block.hash !== blockLogs[0].blockHash) {
+          this.db.rollback(from - 1)
+          this.db.save()
+          return { from: start, to: this.db.cursor()?.number ?? this.opts.startBlock - 1, events, rolledBackTo }
+        }
+        const decoded = blockLogs.sort((a, b) => a.index - b.index).map(decode).filter((e): e is PoolEvent => !!e)
+        this.db.applyBlock({ number, hash: block.hash, timestamp: block.timestamp }, decoded)
+        applied += decoded.length
+      }
+      const end = await this.hashOf(to)
+      if (!end) break
+      this.db.setCursor({ number: to, hash: end }, this.opts.reorgDepth)
+      this.db.save()
+      events += applied
+      from = to + 1
+    }
+    return { from: start, to: from - 1, events, rolledBackTo }
+  }
+
+  start(pollMs: number): void {
+    const tick = async () => {
+      try {
+        const r = await this.syncOnce()
+        if (r.events || r.rolledBackTo != null) console.log('[indexer] synced', r)
+      } catch (e) {
+        console.error('[indexer] sync failed', e)
+      }
+      if (this.timer) this.timer = setTimeout(tick, pollMs)
+    }
+    this.timer = setTimeout(tick, 0)
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+}
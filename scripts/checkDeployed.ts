@@ -1,35 +1,54 @@
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
 import * as dotenv from "dotenv";
+import { ROOT, checkDeployment, readManifest } from "./deployments";
 
 dotenv.config();
 
 async function main() {
-  const addr = process.env.POOL_ADDRESS;
-  if (!addr) throw new Error("Missing POOL_ADDRESS in .env");
+  const manifest = readManifest(hre.network.name);
+  const addr = process.env.POOL_ADDRESS || manifest?.address;
+  if (!addr) throw new Error(`Missing POOL_ADDRESS in .env and no deployments/${hre.network.name}.json`);
 
   const code = await ethers.provider.getCode(addr);
   const isContract = code && code !== "0x";
   console.log("Pool:", addr);
   console.log("Code present:", isContract ? `yes (length ${code.length})` : "no");
 
-  if (!isContract) return;
+  if (!isContract) {
+    process.exitCode = 1;
+    return;
+  }
 
   const contract = await ethers.getContractAt("SnakeLeaderboard", addr);
-  const [owner, entryFee, serverSigner, feeSink, board] = await Promise.all([
+  const [owner, entryFee, signers, threshold, feeSink, board] = await Promise.all([
     (contract as any).owner?.() ?? Promise.resolve("(no owner function)"),
     contract.entryFeeWei(),
-    contract.serverSigner(),
+    contract.getSigners(),
+    contract.signerThreshold(),
     contract.feeSink(),
-    contract.getLeaderboard(),
+    contract.getLeaderboard(0),
   ]);
   console.log("Owner:", owner);
-  console.log("Server signer:", serverSigner);
+  console.log(`Server signers (${threshold} of ${signers.length}):`, signers.join(", "));
   console.log("Fee sink:", feeSink);
   console.log("Entry fee (ETH):", ethers.formatEther(entryFee));
   console.log("Leaderboard entries:", board.length);
   board.slice(0, 5).forEach((row: any, idx: number) => {
     console.log(`  ${idx + 1}. ${row.player} — ${row.score.toString()} (session ${row.sessionId})`);
   });
+
+  const serverEnvFile = path.join(ROOT, "server", ".env");
+  const serverEnv = fs.existsSync(serverEnvFile) ? dotenv.parse(fs.readFileSync(serverEnvFile)) : {};
+  const checks = await checkDeployment(hre, {
+    address: addr,
+    manifest,
+    serverPk: serverEnv.SERVER_PK,
+    serverSigner: process.env.SERVER_SIGNER || undefined,
+  });
+  for (const c of checks) console.log(`${c.ok ? "ok  " : "FAIL"} ${c.name}: ${c.detail}`);
+  if (checks.some((c) => !c.ok)) process.exitCode = 1;
 }
 
 main().catch((e) => {
@@ -1,5 +1,7 @@
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import * as path from "path";
 import * as dotenv from "dotenv";
+import { ROOT, deployBadges, deployPool, writeManifest } from "./deployments";
 
 dotenv.config();
 
@@ -10,13 +12,35 @@ async function main() {
   const feeSink = process.env.FEE_SINK && process.env.FEE_SINK !== "" ? process.env.FEE_SINK : deployer.address;
   const serverSigner = process.env.SERVER_SIGNER && process.env.SERVER_SIGNER !== "" ? process.env.SERVER_SIGNER : deployer.address;
   const entryFee = process.env.ENTRY_FEE_ETH ? ethers.parseEther(process.env.ENTRY_FEE_ETH) : ethers.parseEther("0.0005");
+  // Rows per leaderboard (1-255); fixed for the lifetime of the deployment
+  const boardSize = Number(process.env.LEADERBOARD_SIZE || 25);
 
-  const SnakeLeaderboard = await ethers.getContractFactory("SnakeLeaderboard");
-  const contract = await SnakeLeaderboard.deploy(feeSink, serverSigner, entryFee);
-  await contract.waitForDeployment();
-  const address = await contract.getAddress();
-  console.log("SnakeLeaderboard deployed to:", address);
-  console.log("entryFeeWei:", entryFee.toString());
+  // The manifest is written as soon as the pool exists and again after each
+  // step that changes it, so a later failure never loses a deployed address.
+  let manifest = await deployPool(hre, { feeSink, serverSigner, entryFeeWei: entryFee.toString(), leaderboardSize: boardSize });
+  const file = writeManifest(manifest);
+  console.log("SnakeLeaderboard deployed to:", manifest.address, "at block", manifest.deployBlock);
+  console.log("entryFeeWei:", manifest.args.entryFeeWei);
+  console.log("leaderboardSize:", boardSize);
+  console.log("Manifest:", path.relative(ROOT, file));
+  if (process.env.BADGES !== "false") {
+    manifest = await deployBadges(hre, manifest);
+    writeManifest(manifest);
+    console.log("SnakeBadges deployed to:", manifest.badges!.address);
+  }
+
+  // Set up while changes still apply at once; the delay goes last.
+  const pool = await ethers.getContractAt("SnakeLeaderboard", manifest.address);
+  if (process.env.GUARDIAN) {
+    await (await pool.setGuardian(process.env.GUARDIAN)).wait();
+    console.log("guardian:", process.env.GUARDIAN);
+  }
+  const adminDelay = Number(process.env.ADMIN_DELAY_SEC || 0);
+  if (adminDelay > 0) {
+    await (await pool.setAdminDelay(adminDelay)).wait();
+    console.log("adminDelay:", adminDelay);
+  }
+  console.log(`Run \`npx hardhat run scripts/sync.ts --network ${manifest.network}\` to point the client, server and indexer at it.`);
 }
 
 main().catch((e) => {
@@ -0,0 +1,252 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Deployment manifests: `deployments/<network>.json` records what
+// `scripts/deploy.ts` put on a network, and everything else (env files, the
+// client ABI, `scripts/checkDeployed.ts`) is derived from it.
+
+export const CONTRACT = "SnakeLeaderboard";
+export const BADGES = "SnakeBadges";
+// External libraries the pool is linked against; each is deployed before it.
+export const LIBRARIES = ["Payments", "Timelock", "Referrals", "Boards"];
+export const ROOT = path.join(__dirname, "..");
+
+export type DeployArgs = {
+  feeSink: string;
+  serverSigner: string;
+  entryFeeWei: string;
+  leaderboardSize: number;
+};
+
+export type Manifest = {
+  network: string;
+  chainId: number;
+  contract: string;
+  address: string;
+  deployBlock: number;
+  txHash: string;
+  deployer: string;
+  args: DeployArgs;
+  // keccak256 of the artifact's creation bytecode at deploy time, before linking
+  bytecodeHash: string;
+  // Library name => address the pool was linked against
+  libraries: Record<string, string>;
+  deployedAt: string;
+  // The pool's achievement badge contract, when one was deployed with it
+  badges?: { address: string, deployBlock: number, txHash: string };
+};
+
+export const manifestPath = (network: string, root = ROOT) => path.join(root, "deployments", `${network}.json`);
+
+export function readManifest(network: string, root = ROOT): Manifest | null {
+  const file = manifestPath(network, root);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function writeManifest(manifest: Manifest, root = ROOT): string {
+  const file = manifestPath(manifest.network, root);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+// Unlinked bytecode with its library placeholders zeroed, so it is valid hex.
+const unlinked = (bytecode: string) => bytecode.replace(/__\$[0-9a-f]{34}\$__/g, "0".repeat(40));
+
+export async function artifactBytecodeHash(hre: HardhatRuntimeEnvironment): Promise<string> {
+  const artifact = await hre.artifacts.readArtifact(CONTRACT);
+  return hre.ethers.keccak256(unlinked(artifact.bytecode));
+}
+
+// Deploy the pool's libraries from the first signer. Returns name => address.
+export async function deployLibraries(hre: HardhatRuntimeEnvironment): Promise<Record<string, string>> {
+  const libraries: Record<string, string> = {};
+  for (const name of LIBRARIES) {
+    const library = await hre.ethers.deployContract(name);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+  }
+  return libraries;
+}
+
+// A pool factory linked against `libraries`, freshly deployed ones by default.
+export async function poolFactory(hre: HardhatRuntimeEnvironment, libraries?: Record<string, string>) {
+  return hre.ethers.getContractFactory(CONTRACT, { libraries: libraries ?? await deployLibraries(hre) });
+}
+
+// Deploy the pool and its libraries from the first signer and describe the deployment.
+export async function deployPool(hre: HardhatRuntimeEnvironment, args: DeployArgs): Promise<Manifest> {
+  const { ethers } = hre;
+  const [deployer] = await ethers.getSigners();
+  const libraries = await deployLibraries(hre);
+  const factory = await poolFactory(hre, libraries);
+  const contract = await factory.deploy(args.feeSink, args.serverSigner, args.entryFeeWei, args.leaderboardSize);
+  const receipt = await contract.deploymentTransaction()!.wait();
+  return {
+    network: hre.network.name,
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    contract: CONTRACT,
+    address: await contract.getAddress(),
+    deployBlock: receipt!.blockNumber,
+    txHash: receipt!.hash,
+    deployer: deployer.address,
+    args,
+    bytecodeHash: await artifactBytecodeHash(hre),
+    libraries,
+    deployedAt: new Date().toISOString(),
+  };
+}
+
+// Deploy a badge contract minted by the pool at `manifest.address` and point
+// the pool at it. Returns the manifest with the badges recorded.
+export async function deployBadges(hre: HardhatRuntimeEnvironment, manifest: Manifest): Promise<Manifest> {
+  const { ethers } = hre;
+  const badges = await ethers.deployContract(BADGES, [manifest.address]);
+  const receipt = await badges.deploymentTransaction()!.wait();
+  const pool = await ethers.getContractAt(CONTRACT, manifest.address);
+  await (await pool.setBadges(await badges.getAddress())).wait();
+  return { ...manifest, badges: { address: await badges.getAddress(), deployBlock: receipt!.blockNumber, txHash: receipt!.hash } };
+}
+
+// Whether `code` is the compiled pool's runtime bytecode. Immutables and
+// library addresses are written into the code at deploy time, so their slots
+// are left out.
+export async function runtimeCodeMatches(hre: HardhatRuntimeEnvironment, code: string): Promise<boolean> {
+  const artifact = await hre.artifacts.readArtifact(CONTRACT);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${CONTRACT}`);
+  const refs = buildInfo?.output.contracts[artifact.sourceName][CONTRACT].evm.deployedBytecode.immutableReferences ?? {};
+  const links = Object.values(artifact.deployedLinkReferences).flatMap((file) => Object.values(file));
+  const expected = hre.ethers.getBytes(unlinked(artifact.deployedBytecode));
+  const actual = hre.ethers.getBytes(code);
+  if (expected.length !== actual.length) return false;
+  for (const slots of [...Object.values(refs), ...links]) {
+    for (const { start, length } of slots) {
+      expected.fill(0, start, start + length);
+      actual.fill(0, start, start + length);
+    }
+  }
+  return hre.ethers.hexlify(expected) === hre.ethers.hexlify(actual);
+}
+
+// Set keys in an env file, keeping every other line as it is. Keys the file
+// lacks are appended; a missing file is created. Returns the keys changed.
+export function updateEnvFile(file: string, values: Record<string, string>): string[] {
+  const lines = fs.existsSync(file) ? fs.readFileSync(file, "utf8").split("\n") : [];
+  if (lines[lines.length - 1] === "") lines.pop();
+  const current = dotenv.parse(lines.join("\n"));
+  const changed: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    if (current[key] === value) continue;
+    changed.push(key);
+    const at = lines.findIndex((l) => new RegExp(`^\\s*(export\\s+)?${key}\\s*=`).test(l));
+    if (at >= 0) lines[at] = `${key}=${value}`;
+    else lines.push(`${key}=${value}`);
+  }
+  if (changed.length) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, lines.join("\n") + "\n");
+  }
+  return changed;
+}
+
+// The env values each package needs from a manifest. Local networks feed the
+// client's dev server, others its production build.
+export function envTargets(m: Manifest): Record<string, Record<string, string>> {
+  const local = m.network === "hardhat" || m.network === "localhost";
+  return {
+    ".env": { POOL_ADDRESS: m.address },
+    [local ? "client/.env.local" : "client/.env.production"]: {
+      VITE_POOL_ADDRESS: m.address,
+      VITE_DEPLOY_BLOCK: String(m.deployBlock),
+    },
+    "server/.env": { POOL_ADDRESS: m.address, CHAIN_ID: String(m.chainId) },
+    "indexer/.env": { POOL_ADDRESS: m.address, START_BLOCK: String(m.deployBlock) },
+  };
+}
+
+export const CLIENT_ABI = "client/src/abi/SnakeLeaderboard.json";
+
+// Point the client, server and indexer at a manifest's deployment and
+// refresh the client ABI. Refuses when the compiled contract is not the one
+// that was deployed, since its ABI may not match.
+export async function syncFromManifest(hre: HardhatRuntimeEnvironment, m: Manifest, root = ROOT): Promise<Record<string, string[]>> {
+  if ((await artifactBytecodeHash(hre)) !== m.bytecodeHash) {
+    throw new Error(`Compiled ${CONTRACT} differs from the one deployed to ${m.network} at ${m.address}; check out the deployed source or redeploy`);
+  }
+  const changes: Record<string, string[]> = {};
+  for (const [file, values] of Object.entries(envTargets(m))) {
+    changes[file] = updateEnvFile(path.join(root, file), values);
+  }
+  const artifact = await hre.artifacts.readArtifact(CONTRACT);
+  const abiFile = path.join(root, CLIENT_ABI);
+  const abi = JSON.stringify(artifact, null, 2) + "\n";
+  const before = fs.existsSync(abiFile) ? fs.readFileSync(abiFile, "utf8") : "";
+  if (before !== abi) {
+    fs.mkdirSync(path.dirname(abiFile), { recursive: true });
+    fs.writeFileSync(abiFile, abi);
+  }
+  changes[CLIENT_ABI] = before === abi ? [] : ["abi"];
+  return changes;
+}
+
+export type Check = { name: string, ok: boolean, detail: string };
+
+// Compare a deployed pool with the compiled artifact, its manifest and the
+// server's signing key.
+export async function checkDeployment(
+  hre: HardhatRuntimeEnvironment,
+  opts: { address: string, manifest: Manifest | null, serverPk?: string, serverSigner?: string },
+): Promise<Check[]> {
+  const { ethers } = hre;
+  const checks: Check[] = [];
+  const code = await ethers.provider.getCode(opts.address);
+  if (code === "0x") return [{ name: "code", ok: false, detail: `no contract at ${opts.address}` }];
+  const matches = await runtimeCodeMatches(hre, code);
+  checks.push({ name: "bytecode", ok: matches, detail: matches ? `matches the compiled ${CONTRACT}` : `differs from the compiled ${CONTRACT}` });
+
+  if (opts.manifest) {
+    const same = opts.manifest.address.toLowerCase() === opts.address.toLowerCase();
+    checks.push({
+      name: "manifest",
+      ok: same,
+      detail: same
+        ? `deployed at block ${opts.manifest.deployBlock} by ${opts.manifest.deployer}`
+        : `manifest for ${opts.manifest.network} points at ${opts.manifest.address}`,
+    });
+  }
+  if (!matches) return checks;
+
+  const pool = await ethers.getContractAt(CONTRACT, opts.address);
+  const signers = (await pool.getSigners()).map((s: string) => s.toLowerCase());
+  if (opts.serverPk) {
+    const key = new ethers.Wallet(opts.serverPk).address;
+    const active = signers.includes(key.toLowerCase());
+    checks.push({ name: "server key", ok: active, detail: active ? `${key} is an active signer` : `${key} is not among the pool's signers` });
+    if (opts.serverSigner) {
+      const same = opts.serverSigner.toLowerCase() === key.toLowerCase();
+      checks.push({ name: "SERVER_SIGNER", ok: same, detail: same ? "matches the server key" : `${opts.serverSigner} is not the server key ${key}` });
+    }
+  } else {
+    checks.push({ name: "server key", ok: true, detail: "skipped: no SERVER_PK in server/.env" });
+  }
+
+  if (opts.manifest?.badges) {
+    const expected = opts.manifest.badges.address;
+    const current = await pool.badges();
+    const minter = (await ethers.provider.getCode(expected)) === "0x" ? null : await (await ethers.getContractAt(BADGES, expected)).minter();
+    const ok = current.toLowerCase() === expected.toLowerCase() && minter?.toLowerCase() === opts.address.toLowerCase();
+    checks.push({
+      name: "badges",
+      ok,
+      detail: ok
+        ? `${expected} is minted by the pool`
+        : current.toLowerCase() !== expected.toLowerCase()
+          ? `pool mints badges at ${current}, manifest has ${expected}`
+          : `${expected} does not take mints from the pool`,
+    });
+  }
+  return checks;
+}
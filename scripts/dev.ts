@@ -0,0 +1,35 @@
+import hre, { ethers } from "hardhat";
+import type { HardhatNetworkHDAccountsConfig } from "hardhat/types";
+import { startLocalStack } from "./localStack";
+
+// Boots the local stack and keeps it up until Ctrl-C. Start the client with
+// `cd client && npm run dev` afterwards; it picks up client/.env.local.
+async function main() {
+  if (hre.network.name !== "hardhat") throw new Error("Run the local stack on the in-process hardhat network (drop --network)");
+  const stack = await startLocalStack(hre, {
+    rpcPort: Number(process.env.DEV_RPC_PORT || 8545),
+    serverPort: Number(process.env.DEV_SERVER_PORT || 8787),
+  });
+  console.log("Chain (31337):", stack.rpcUrl);
+  console.log("SnakeLeaderboard:", stack.manifest.address, "(deployments/localhost.json)");
+  console.log("Server:", stack.serverUrl, "signing as", stack.serverSigner);
+  console.log("Relayer:", stack.relayer);
+  console.log("Client env written to client/.env.local:");
+  for (const [key, value] of Object.entries(stack.clientEnv)) console.log(`  ${key}=${value}`);
+
+  // Funded accounts to import into a wallet; they only hold test ETH.
+  const accounts = hre.network.config.accounts as HardhatNetworkHDAccountsConfig;
+  console.log("Player accounts:");
+  for (let i = 1; i <= 3; i++) {
+    const wallet = ethers.HDNodeWallet.fromPhrase(accounts.mnemonic, accounts.passphrase, `${accounts.path}/${i}`);
+    console.log(`  ${wallet.address}  ${wallet.privateKey}`);
+  }
+
+  await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+  await stack.stop();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,115 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { TASK_NODE_CREATE_SERVER } from "hardhat/builtin-tasks/task-names";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { createApp } from "../server/src/app";
+import { loadConfig } from "../server/src/config";
+import { ContractChainReader } from "../server/src/chain";
+import { Relayer } from "../server/src/relayer";
+import { MemorySessionStore, MemoryTranscriptStore } from "../server/src/store";
+import { Manifest, ROOT, deployBadges, deployPool, updateEnvFile, writeManifest } from "./deployments";
+
+// The whole system on one machine: the in-process Hardhat chain served over
+// JSON-RPC, a fresh pool (with its badges) whose signer is the server's key,
+// and the attestation server (in-memory sessions, no Redis) reading the chain
+// like it reads Base.
+// The client only needs the env written to `clientEnvFile`.
+
+export type LocalStackOptions = {
+  rpcPort?: number;
+  serverPort?: number;
+  // Written with the client's VITE_* settings; skipped when null
+  clientEnvFile?: string | null;
+  // Where deployments/localhost.json goes; skipped when null
+  manifestRoot?: string | null;
+  serverPk?: string;
+  // Extra server env, e.g. heartbeat or verification settings
+  serverEnv?: NodeJS.ProcessEnv;
+};
+
+export type LocalStack = {
+  rpcUrl: string;
+  serverUrl: string;
+  manifest: Manifest;
+  serverSigner: string;
+  relayer: string;
+  clientEnv: Record<string, string>;
+  stop(): Promise<void>;
+};
+
+export async function startLocalStack(hre: HardhatRuntimeEnvironment, opts: LocalStackOptions = {}): Promise<LocalStack> {
+  const { ethers } = hre;
+  const chain = await hre.run(TASK_NODE_CREATE_SERVER, { hostname: "127.0.0.1", port: opts.rpcPort ?? 8545, provider: hre.network.provider });
+  const { port: rpcPort } = await chain.listen();
+  const rpcUrl = `http://127.0.0.1:${rpcPort}`;
+  let server: Server | undefined;
+  try {
+    const signer = opts.serverPk ? new Wallet(opts.serverPk) : Wallet.createRandom();
+    const accounts = await ethers.getSigners();
+    const pool = await deployPool(hre, {
+      feeSink: accounts[0].address,
+      serverSigner: signer.address,
+      entryFeeWei: ethers.parseEther("0.0005").toString(),
+      leaderboardSize: 25,
+    });
+    const manifest = { ...(await deployBadges(hre, pool)), network: "localhost" };
+    if (opts.manifestRoot !== null) writeManifest(manifest, opts.manifestRoot ?? ROOT);
+
+    // The server talks to the chain over HTTP like it would in production.
+    const provider = new JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+    const relayWallet = accounts[accounts.length - 1].address;
+    const config = loadConfig({
+      PORT: String(opts.serverPort ?? 8787),
+      BASE_RPC: rpcUrl,
+      POOL_ADDRESS: manifest.address,
+      CHAIN_ID: String(manifest.chainId),
+      DAILY_SEED_SECRET: crypto.randomBytes(32).toString("hex"),
+      ...opts.serverEnv,
+    });
+    const app = await createApp({
+      config,
+      store: new MemorySessionStore(),
+      transcripts: new MemoryTranscriptStore(),
+      signer,
+      chain: new ContractChainReader(provider, manifest.address),
+      relayer: new Relayer(await provider.getSigner(relayWallet), manifest.address, {
+        quota: config.relay.quota,
+        windowMs: config.relay.windowSec * 1000,
+      }),
+    });
+    server = await new Promise<Server>((resolve, reject) => {
+      const s = app.listen(config.port, "127.0.0.1", () => resolve(s)).on("error", reject);
+    });
+    const serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const clientEnv = {
+      VITE_POOL_ADDRESS: manifest.address,
+      VITE_PUBLIC_RPC: rpcUrl,
+      VITE_SERVER_URL: serverUrl,
+      VITE_DEPLOY_BLOCK: String(manifest.deployBlock),
+    };
+    if (opts.clientEnvFile !== null) updateEnvFile(opts.clientEnvFile ?? path.join(ROOT, "client", ".env.local"), clientEnv);
+
+    const running = server;
+    return {
+      rpcUrl,
+      serverUrl,
+      manifest,
+      serverSigner: signer.address,
+      relayer: relayWallet,
+      clientEnv,
+      async stop() {
+        provider.destroy();
+        await new Promise((resolve) => running.close(resolve));
+        await chain.close();
+      },
+    };
+  } catch (e) {
+    server?.close();
+    await chain.close();
+    throw e;
+  }
+}
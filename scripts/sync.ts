@@ -0,0 +1,18 @@
+import hre from "hardhat";
+import { manifestPath, readManifest, syncFromManifest } from "./deployments";
+
+// Rewrites the env files and client ABI from deployments/<network>.json.
+async function main() {
+  const manifest = readManifest(hre.network.name);
+  if (!manifest) throw new Error(`No ${manifestPath(hre.network.name)}; deploy to ${hre.network.name} first`);
+  console.log(`Syncing ${manifest.contract} ${manifest.address} (${manifest.network}, block ${manifest.deployBlock})`);
+  const changes = await syncFromManifest(hre, manifest);
+  for (const [file, keys] of Object.entries(changes)) {
+    console.log(`  ${file}: ${keys.length ? keys.join(", ") : "up to date"}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,281 @@
+import express, { Request, Response } from 'express'
+import crypto from 'crypto'
+import cors from 'cors'
+import rateLimit from 'express-rate-limit'
+import { Signer, ZeroAddress, isAddress, keccak256, toUtf8Bytes } from 'ethers'
+import type { ChainCheck, ErrorResponse, HeartbeatResponse, RelayQuotaResponse, RelayResponse, RunTranscriptResponse, SessionResponse, VerifyRunResponse, VoidRunResponse } from '../../shared/api'
+import { ServerConfig } from './config'
+import { Session, SessionStore, TranscriptStore } from './store'
+import { CachedChainReader, ChainReader } from './chain'
+import { Relayer } from './relayer'
+import { parseHeartbeatRequest, parseRelayRequest, parseSessionRequest, parseVerifyRunRequest, parseVoidRunRequest } from './schemas'
+import { dailySeed, signBeat } from './attest'
+import { verifyTranscript } from './verify'
+import { DAILY_MODE, dayIndex } from '../../shared/daily'
+import { CLASSIC_MODE, modeById } from '../../shared/modes'
+import { attestationDomain, cosignScorePayload, signVoidRun } from '../../shared/attestation'
+
+export type AppDeps = {
+  config: ServerConfig
+  store: SessionStore
+  signer: Signer
+  // Extra attestation keys for a k-of-n signer set; the primary signer always signs too.
+  cosigners?: Signer[]
+  transcripts: TranscriptStore
+  // Sessions are gated on their on-chain run when set; replays and voids are checked against it.
+  chain?: ChainReader | null
+  // Sends gasless submissions; /relay answers 503 without one.
+  relayer?: Relayer | null
+  // Tests drive many requests from one address; production keeps these on.
+  rateLimits?: boolean
+}
+
+type Reply<T> = Response<T | ErrorResponse>
+
+// Express 4 does not forward rejected promises; hand them to the error handler.
+function route<T>(fn: (req: Request, res: Reply<T>) => Promise<unknown>): express.RequestHandler {
+  return (req, res, next) => { fn(req, res).catch(next) }
+}
+
+export async function createApp({ config, store, signer, cosigners = [], transcripts, chain = null, relayer = null, rateLimits = true }: AppDeps) {
+  if (!config.poolAddress) throw new Error('POOL_ADDRESS is required to sign attestations')
+  const signerAddress = (await signer.getAddress()).toLowerCase()
+  const domain = attestationDomain(config.chainId, config.poolAddress)
+  const runs = chain ? new CachedChainReader(chain, config.chainCache) : null
+
+  // A session only counts once its entry fee is paid: runs(sessionId) must
+  // name the session's player, be for the same daily challenge day and still
+  // be open. Returns why the session cannot be played, if it cannot, else the
+  // asset the fee was paid in (null without an RPC).
+  async function payment(sessionId: string, s: Session): Promise<{ refused: string } | { token: string | null }> {
+    if (!runs) return { token: null }
+    const run = await runs.getRun(sessionId)
+    if (run.player === ZeroAddress) return { refused: 'run not started' }
+    if (run.player.toLowerCase() !== s.address) return { refused: 'run player mismatch' }
+    if (run.day !== (s.day ?? 0)) return { refused: 'run day mismatch' }
+    if (run.finalized) return { refused: 'run finalized' }
+    return { token: run.token.toLowerCase() }
+  }
+
+  const app = express()
+  app.set('trust proxy', 1)
+  // CORS first so preflight gets handled even if body parsing fails
+  const corsMw = cors({ origin: config.clientOrigin })
+  app.use(corsMw)
+  app.options('*', corsMw)
+  app.use(express.json({ limit: '1mb' }))
+
+  // Basic rate limits (tune as needed)
+  const passthrough: express.RequestHandler = (_req, _res, next) => next()
+  const sessionLimiter = rateLimits ? rateLimit({ windowMs: 60_000, limit: 20 }) : passthrough
+  const heartbeatLimiter = rateLimits ? rateLimit({ windowMs: 1_000, limit: 10 }) : passthrough // ~10 req/sec/IP; client uses ~3/sec
+  const verifyLimiter = rateLimits ? rateLimit({ windowMs: 60_000, limit: 60 }) : passthrough
+  const replayLimiter = rateLimits ? rateLimit({ windowMs: 60_000, limit: 120 }) : passthrough
+  const voidLimiter = rateLimits ? rateLimit({ windowMs: 60_000, limit: 10 }) : passthrough
+  const relayLimiter = rateLimits ? rateLimit({ windowMs: 60_000, limit: 20 }) : passthrough
+
+  // 1) Start session
+  app.post('/session', sessionLimiter, route<SessionResponse>(async (req, res) => {
+    const parsed = parseSessionRequest(req.body)
+    if (!parsed.ok) return res.status(400).json({ error: parsed.error })
+    const { address, daily } = parsed.value
+    if (daily && !config.dailySeedSecret) return res.status(503).json({ error: 'daily challenge disabled' })
+    const sessionId = keccak256(toUtf8Bytes(crypto.randomUUID()))
+    const day = daily ? dayIndex() : 0
+    const seed = daily ? dailySeed(config.dailySeedSecret!, day) : keccak256(toUtf8Bytes(crypto.randomUUID()))
+    const mode = daily ? DAILY_MODE : parsed.value.mode ?? CLASSIC_MODE
+    await store.set(sessionId, { seed, address: address.toLowerCase(), mode, ...(daily ? { day } : {}), beats: [] }, 3600)
+    res.json({ sessionId, seed, mode, day })
+  }))
+
+  // 2) Heartbeat
+  app.post('/heartbeat', heartbeatLimiter, route<HeartbeatResponse>(async (req, res) => {
+    const parsed = parseHeartbeatRequest(req.body)
+    if (!parsed.ok) return res.status(400).json({ error: parsed.error })
+    const { sessionId, i } = parsed.value
+    const s = await store.get(sessionId)
+    if (!s) return res.status(400).json({ error: 'bad session' })
+    const paid = await payment(sessionId, s)
+    if ('refused' in paid) return res.status(403).json({ error: paid.refused })
+    const now = Date.now()
+    if (!(await store.appendBeat(sessionId, { i, t: now }))) return res.status(400).json({ error: 'bad session' })
+    const sig = await signBeat(signer, sessionId, i, now)
+    res.json({ i, t: now, sig })
+  }))
+
+  // 3) Verify run
+  app.post('/verify-run', verifyLimiter, route<VerifyRunResponse>(async (req, res) => {
+    const parsed = parseVerifyRunRequest(req.body)
+    if (!parsed.ok) {
+      console.warn('[verify-run reject]', { reason: parsed.error })
+      return res.status(400).json({ error: parsed.error })
+    }
+    const { sessionId, address, score, runHash, inputs, beats } = parsed.value
+    console.log('[verify-run request]', { sessionId, address, beats: beats.length })
+    const s = await store.get(sessionId)
+    if (!s) {
+      console.warn('[verify-run reject]', { reason: 'bad session', sessionId })
+      return res.status(400).json({ error: 'bad session' })
+    }
+    if (s.address !== address.toLowerCase()) {
+      console.warn('[verify-run reject]', { reason: 'address mismatch', expected: s.address, got: address, sessionId })
+      return res.status(400).json({ error: 'address mismatch' })
+    }
+    // Claim the session before anything else is awaited, so of concurrent
+    // requests for it only one gets past this point.
+    if (!(await store.claim(sessionId))) {
+      console.warn('[verify-run reject]', { reason: 'session consumed', sessionId })
+      return res.status(409).json({ error: 'session consumed' })
+    }
+    let attested = false
+    try {
+      const paid = await payment(sessionId, s)
+      if ('refused' in paid) {
+        console.warn('[verify-run reject]', { reason: paid.refused, sessionId })
+        return res.status(403).json({ error: paid.refused })
+      }
+
+      // Re-sim under the rules of the mode the session was opened in
+      const mode = modeById(s.mode ?? CLASSIC_MODE)
+      if (!mode) {
+        console.warn('[verify-run reject]', { reason: 'unknown mode', mode: s.mode, sessionId })
+        return res.status(400).json({ error: 'bad mode' })
+      }
+      const verdict = verifyTranscript(
+        { sessionId, seed: s.seed, config: mode.config, score, runHash, inputs, beats },
+        { heartbeat: config.heartbeat, verify: config.verify, signerAddress },
+      )
+      if (!verdict.ok) {
+        console.warn('[verify-run reject]', { reasons: verdict.reasons, sessionId })
+        return res.status(403).json({ error: verdict.reasons[0].code, reasons: verdict.reasons })
+      }
+      const { timeDigest } = verdict
+
+      try {
+        // Attest using canonical simulated score
+        const deadline = Math.floor(Date.now() / 1000) + config.attestTtlSec
+        const day = s.day ?? 0
+        const attestSigs = await cosignScorePayload([signer, ...cosigners], domain, {
+          player: address,
+          sessionId,
+          mode: mode.id,
+          day,
+          score: BigInt(verdict.score),
+          runHash,
+          timeDigest,
+          deadline: BigInt(deadline),
+        })
+        await transcripts.put({
+          sessionId,
+          player: address.toLowerCase(),
+          seed: s.seed,
+          mode: mode.id,
+          ...(day ? { day } : {}),
+          ...(paid.token ? { token: paid.token } : {}),
+          score: verdict.score,
+          runHash,
+          timeDigest,
+          inputs,
+          beats,
+          verifiedAt: Date.now(),
+        })
+        attested = true
+        res.json({ timeDigest, attestSigs, mode: mode.id, day, score: verdict.score, deadline })
+      } catch (e) {
+        // A valid run we failed to attest is ours to refund; remember that for
+        // /void-run. Writing back the unclaimed session lets the player retry.
+        await store.set(sessionId, { ...s, outage: true }).catch(() => {})
+        throw e
+      }
+    } finally {
+      // Rejected or failed runs give the session back for another attempt.
+      if (!attested) await store.release(sessionId).catch(() => {})
+    }
+  }))
+
+  // 4) Void a run that will never be attested. Players may void runs the
+  // server failed on; anything else needs the operator token.
+  app.post('/void-run', voidLimiter, route<VoidRunResponse>(async (req, res) => {
+    const parsed = parseVoidRunRequest(req.body)
+    if (!parsed.ok) return res.status(400).json({ error: parsed.error })
+    const { sessionId } = parsed.value
+    const admin = !!config.voidAdminToken && req.get('authorization') === `Bearer ${config.voidAdminToken}`
+    const s = await store.get(sessionId)
+    if (!admin && !s?.outage) {
+      console.warn('[void-run reject]', { reason: 'not voidable', sessionId })
+      return res.status(403).json({ error: 'not voidable' })
+    }
+    if (await transcripts.get(sessionId)) return res.status(409).json({ error: 'run attested' })
+    let player = s?.address
+    if (chain) {
+      const run = await chain.getRun(sessionId)
+      if (run.player === ZeroAddress) return res.status(404).json({ error: 'unknown run' })
+      if (run.finalized) return res.status(409).json({ error: 'run finalized' })
+      player = run.player
+    }
+    if (!player) return res.status(404).json({ error: 'unknown run' })
+    const voidSig = await signVoidRun(signer, domain, player, sessionId)
+    console.log('[void-run]', { sessionId, player, admin })
+    res.json({ sessionId, player, voidSig })
+  }))
+
+  // 5) Replay a verified run. The stored transcript is only served if it is
+  // the one the contract recorded for this session.
+  app.get('/runs/:sessionId', replayLimiter, route<RunTranscriptResponse>(async (req, res) => {
+    const t = await transcripts.get(req.params.sessionId)
+    if (!t) return res.status(404).json({ error: 'unknown run' })
+    let check: ChainCheck = 'unchecked'
+    if (chain) {
+      const run = await chain.getRun(t.sessionId)
+      if (!run.finalized) {
+        check = 'pending'
+      } else if (run.runHash.toLowerCase() === t.runHash.toLowerCase() && run.player.toLowerCase() === t.player) {
+        check = 'match'
+      } else {
+        console.warn('[runs reject]', { reason: 'run hash mismatch', sessionId: t.sessionId, onChain: run.runHash, stored: t.runHash })
+        return res.status(409).json({ error: 'run hash mismatch' })
+      }
+    }
+    res.json({ ...t, chain: check })
+  }))
+
+  // 6) Relay a verified run so the player does not pay gas for submitScore.
+  // The player authorized it by signing a RelayAuthorization for the session.
+  app.post('/relay', relayLimiter, route<RelayResponse>(async (req, res) => {
+    if (!relayer) return res.status(503).json({ error: 'relayer disabled' })
+    const parsed = parseRelayRequest(req.body)
+    if (!parsed.ok) return res.status(400).json({ error: parsed.error })
+    const { payload, attestSigs, playerSig } = parsed.value
+    const out = await relayer.submit(payload, attestSigs, playerSig)
+    if (!out.ok) {
+      console.warn('[relay reject]', { reason: out.error, sessionId: payload.sessionId, player: payload.player })
+      return res.status(out.status).json({ error: out.error })
+    }
+    console.log('[relay]', { sessionId: payload.sessionId, player: payload.player, txHash: out.txHash })
+    res.json({ txHash: out.txHash, remaining: out.remaining })
+  }))
+
+  app.get('/relay/quota/:address', replayLimiter, route<RelayQuotaResponse>(async (req, res) => {
+    if (!relayer) return res.status(503).json({ error: 'relayer disabled' })
+    if (!isAddress(req.params.address)) return res.status(400).json({ error: 'bad address' })
+    res.json({ relayer: await relayer.getAddress(), limit: relayer.limit, remaining: relayer.remaining(req.params.address) })
+  }))
+
+  app.get('/health', (_req, res) => res.json({ ok: true }))
+  app.get('/ready', async (_req, res) => {
+    try {
+      await store.ping()
+      res.json({ ok: true, redis: store.kind === 'redis' ? 'ok' : 'disabled' })
+    } catch (e) {
+      res.status(500).json({ ok: false, redis: 'error' })
+    }
+  })
+
+  // Store or signer failures surface as a plain 500 instead of a hung request.
+  app.use((err: unknown, _req: Request, res: Response, _next: express.NextFunction) => {
+    console.error(err)
+    res.status(500).json({ error: 'server error' })
+  })
+
+  return app
+}
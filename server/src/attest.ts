@@ -0,0 +1,37 @@
+import { Signer, getBytes, keccak256, toUtf8Bytes, verifyMessage } from 'ethers'
+import { DEFAULT_CONFIG, EngineConfig, replayRun } from '../../shared/engine'
+
+export function beatDigest(sessionId: string, i: number, t: number): string {
+  return keccak256(toUtf8Bytes(`${sessionId}|${i}|${t}`))
+}
+
+export async function signBeat(signer: Signer, sessionId: string, i: number, t: number): Promise<string> {
+  return signer.signMessage(getBytes(beatDigest(sessionId, i, t)))
+}
+
+export function recoverBeatSigner(sessionId: string, i: number, t: number, sig: string): string | null {
+  try {
+    return verifyMessage(getBytes(beatDigest(sessionId, i, t)), sig)
+  } catch {
+    return null
+  }
+}
+
+export function runHashOf(inputs: unknown): string {
+  return keccak256(toUtf8Bytes(JSON.stringify(inputs || [])))
+}
+
+// Every player gets the same seed for a day; the secret keeps later days unpredictable.
+export function dailySeed(secret: string, day: number): string {
+  return keccak256(toUtf8Bytes(`daily|${day}|${secret}`))
+}
+
+export function timeDigestOf(intervals: number[]): string {
+  return keccak256(toUtf8Bytes(JSON.stringify(intervals)))
+}
+
+// Canonical replay through the shared engine under the session's mode rules
+export function simulate(inputs: unknown, seedHex: string, config: EngineConfig = DEFAULT_CONFIG): { score: number, runHash: string } {
+  const { score } = replayRun(inputs, seedHex, config)
+  return { score, runHash: runHashOf(inputs) }
+}
@@ -0,0 +1,77 @@
+import { Contract, ContractRunner, JsonRpcProvider, ZeroAddress } from 'ethers'
+
+export const POOL_ABI = [
+  'function runs(bytes32 sessionId) view returns (address player, bool finalized, uint32 season, bytes32 runHash, uint64 startedAt, uint128 fee, bool refunded, uint32 day, address token)',
+]
+
+// player is the zero address until startRun(sessionId) is paid; token is the
+// asset the entry fee was paid in, the zero address for ETH.
+export type OnChainRun = { player: string, finalized: boolean, runHash: string, day: number, token: string }
+
+// Read-only view of SnakeLeaderboard used to cross-check server state.
+export interface ChainReader {
+  getRun(sessionId: string): Promise<OnChainRun>
+}
+
+export class ContractChainReader implements ChainReader {
+  private readonly pool: Contract
+
+  constructor(runner: ContractRunner, poolAddress: string) {
+    this.pool = new Contract(poolAddress, POOL_ABI, runner)
+  }
+
+  async getRun(sessionId: string): Promise<OnChainRun> {
+    const r = await this.pool.runs(sessionId)
+    return { player: r.player, finalized: r.finalized, runHash: r.runHash, day: Number(r.day), token: r.token }
+  }
+}
+
+export type ChainCacheOptions = {
+  // How long a started run is remembered
+  hitMs: number
+  // How long a run that is not started yet is remembered; short, as the
+  // player is usually about to pay
+  missMs: number
+}
+
+const MAX_CACHED_RUNS = 10_000
+
+// Remembers runs so every heartbeat of a session does not cost an RPC call.
+// Concurrent lookups of one session share a single request; failed lookups
+// are not remembered.
+export class CachedChainReader implements ChainReader {
+  private readonly cache = new Map<string, { run: Promise<OnChainRun>, expiresAt: number }>()
+
+  constructor(
+    private readonly inner: ChainReader,
+    private readonly options: ChainCacheOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  getRun(sessionId: string): Promise<OnChainRun> {
+    const key = sessionId.toLowerCase()
+    const hit = this.cache.get(key)
+    if (hit && hit.expiresAt > this.now()) return hit.run
+    if (this.cache.size >= MAX_CACHED_RUNS) this.prune()
+
+    const entry = { run: this.inner.getRun(sessionId), expiresAt: Infinity }
+    this.cache.set(key, entry)
+    entry.run.then(
+      (run) => { entry.expiresAt = this.now() + (run.player === ZeroAddress ? this.options.missMs : this.options.hitMs) },
+      () => { if (this.cache.get(key) === entry) this.cache.delete(key) },
+    )
+    return entry.run
+  }
+
+  private prune(): void {
+    const now = this.now()
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= now) this.cache.delete(key)
+    }
+  }
+}
+
+export function createChainReader(rpcUrl?: string, poolAddress?: string): ChainReader | null {
+  if (!rpcUrl || !poolAddress) return null
+  return new ContractChainReader(new JsonRpcProvider(rpcUrl), poolAddress)
+}
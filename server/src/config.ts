@@ -0,0 +1,80 @@
+export type ServerConfig = {
+  port: number
+  clientOrigin: string
+  serverPk?: string
+  cosignerPks: string[]
+  redisUrl?: string
+  runsDir: string
+  rpcUrl?: string
+  poolAddress?: string
+  // Caching of the runs(sessionId) lookups that gate heartbeats and /verify-run
+  chainCache: {
+    hitMs: number
+    missMs: number
+  }
+  chainId: number
+  // How long a signed score stays submittable
+  attestTtlSec: number
+  voidAdminToken?: string
+  // Daily challenge seeds are derived from this; daily sessions are refused without it
+  dailySeedSecret?: string
+  // Hot wallet that pays gas for relayed submissions; POST /relay is off without it
+  relayerPk?: string
+  relay: {
+    quota: number
+    windowSec: number
+  }
+  heartbeat: {
+    minBeats: number
+    minMs: number
+    maxMs: number
+    allowUnsigned: boolean
+  }
+  // Timing checks on transcripts (see verify.ts)
+  verify: {
+    timing: boolean
+    // How much longer than the beats span a run's tick schedule may be
+    slackMs: number
+    maxTurnsPerSec: number
+    // Turn gaps varying less than this (std/mean) look scripted
+    minGapCv: number
+  }
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    port: Number(env.PORT || 8787),
+    clientOrigin: env.CLIENT_ORIGIN || 'http://localhost:5173',
+    serverPk: env.SERVER_PK || undefined,
+    cosignerPks: (env.COSIGNER_PKS || '').split(',').map((k) => k.trim()).filter(Boolean),
+    redisUrl: env.REDIS_URL || undefined,
+    runsDir: env.RUNS_DIR || '.runs',
+    rpcUrl: env.BASE_RPC || undefined,
+    poolAddress: env.POOL_ADDRESS || undefined,
+    chainCache: {
+      hitMs: Number(env.CHAIN_CACHE_MS ?? 30_000),
+      missMs: Number(env.CHAIN_MISS_CACHE_MS ?? 2_000),
+    },
+    chainId: Number(env.CHAIN_ID || 84532),
+    attestTtlSec: Number(env.ATTEST_TTL_SEC || 3600),
+    voidAdminToken: env.VOID_ADMIN_TOKEN || undefined,
+    dailySeedSecret: env.DAILY_SEED_SECRET || undefined,
+    relayerPk: env.RELAYER_PK || undefined,
+    relay: {
+      quota: Number(env.RELAY_QUOTA ?? 20),
+      windowSec: Number(env.RELAY_WINDOW_SEC ?? 86400),
+    },
+    heartbeat: {
+      minBeats: Number(env.HB_MIN_BEATS ?? 3),
+      minMs: Number(env.HB_MIN_MS ?? 150),
+      maxMs: Number(env.HB_MAX_MS ?? 1200),
+      allowUnsigned: env.HB_ALLOW_UNSIG === '1',
+    },
+    verify: {
+      timing: env.VERIFY_TIMING !== '0',
+      slackMs: Number(env.VERIFY_SLACK_MS ?? 1000),
+      maxTurnsPerSec: Number(env.VERIFY_MAX_TURNS_PER_SEC ?? 10),
+      minGapCv: Number(env.VERIFY_MIN_GAP_CV ?? 0.1),
+    },
+  }
+}
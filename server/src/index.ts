@@ -0,0 +1,38 @@
+// Minimal anti-cheat server: session, heartbeats, verify-run
+import 'dotenv/config'
+import { JsonRpcProvider, Wallet } from 'ethers'
+import { loadConfig } from './config'
+import { createStores } from './store'
+import { createChainReader } from './chain'
+import { createApp } from './app'
+import { Relayer } from './relayer'
+
+async function main() {
+  const config = loadConfig()
+  if (!config.serverPk) {
+    console.warn('[server] Missing SERVER_PK env; generate one and set it for signatures')
+  }
+  const signer = config.serverPk ? new Wallet(config.serverPk) : Wallet.createRandom()
+  console.log('[server] Signer:', signer.address)
+  const cosigners = config.cosignerPks.map((pk) => new Wallet(pk))
+  if (cosigners.length) console.log('[server] Co-signers:', cosigners.map((w) => w.address).join(', '))
+
+  const { sessions, transcripts } = createStores(config)
+  const chain = createChainReader(config.rpcUrl, config.poolAddress)
+  if (!chain) console.warn('[server] BASE_RPC/POOL_ADDRESS unset; sessions and replays are not checked on-chain, so unpaid runs get attested')
+  let relayer: Relayer | null = null
+  if (config.relayerPk && config.rpcUrl && config.poolAddress) {
+    const wallet = new Wallet(config.relayerPk, new JsonRpcProvider(config.rpcUrl))
+    relayer = new Relayer(wallet, config.poolAddress, { quota: config.relay.quota, windowMs: config.relay.windowSec * 1000 })
+    console.log('[server] Relayer:', wallet.address, `(${config.relay.quota} per ${config.relay.windowSec}s per player)`)
+  } else if (config.relayerPk) {
+    console.warn('[server] RELAYER_PK set but BASE_RPC/POOL_ADDRESS unset; relaying is off')
+  }
+  const app = await createApp({ config, store: sessions, transcripts, signer, cosigners, chain, relayer })
+  app.listen(config.port, () => console.log(`[server] listening on http://localhost:${config.port}`))
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,98 @@
+import { Contract, NonceManager, Signer, isCallException } from 'ethers'
+import type { RelayPayload } from '../../shared/api'
+
+export const RELAY_ABI = [
+  'function submitScoreFor((address player, bytes32 sessionId, uint8 mode, uint32 day, uint64 score, bytes32 runHash, bytes32 timeDigest, uint64 deadline) payload, bytes[] serverSigs, bytes playerSig)',
+  'error InvalidSession()',
+  'error RunFinalized()',
+  'error BadAttestation()',
+  'error AttestationExpired()',
+  'error BadPlayerSignature()',
+  'error EnforcedPause()',
+]
+
+export type RelayerOptions = {
+  // Relayed submissions allowed per player within windowMs
+  quota: number
+  windowMs: number
+}
+
+export type RelayOutcome =
+  | { ok: true, txHash: string, remaining: number }
+  | { ok: false, status: number, error: string }
+
+// Submits player-authorized scores from a funded hot wallet. Sends go through
+// one queue and one NonceManager, so concurrent relays never race for a nonce;
+// a failed send resyncs the nonce from the chain. Quotas live in memory and
+// apply per process.
+export class Relayer {
+  private readonly wallet: NonceManager
+  private readonly pool: Contract
+  private readonly options: RelayerOptions
+  private readonly sent = new Map<string, number[]>() // player => send times
+  private readonly relayed = new Map<string, number>() // sessionId => send time
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(signer: Signer, poolAddress: string, options: RelayerOptions) {
+    this.wallet = new NonceManager(signer)
+    this.pool = new Contract(poolAddress, RELAY_ABI, this.wallet)
+    this.options = options
+  }
+
+  get limit(): number {
+    return this.options.quota
+  }
+
+  getAddress(): Promise<string> {
+    return this.wallet.getAddress()
+  }
+
+  remaining(player: string, now = Date.now()): number {
+    return Math.max(0, this.options.quota - this.recent(player.toLowerCase(), now).length)
+  }
+
+  submit(payload: RelayPayload, attestSigs: string[], playerSig: string): Promise<RelayOutcome> {
+    const run = this.queue.then(() => this.send(payload, attestSigs, playerSig))
+    this.queue = run.catch(() => {})
+    return run
+  }
+
+  private recent(key: string, now: number): number[] {
+    const kept = (this.sent.get(key) ?? []).filter((t) => now - t < this.options.windowMs)
+    if (kept.length) this.sent.set(key, kept)
+    else this.sent.delete(key)
+    return kept
+  }
+
+  private async send(payload: RelayPayload, attestSigs: string[], playerSig: string): Promise<RelayOutcome> {
+    const now = Date.now()
+    const key = payload.player.toLowerCase()
+    const sessionKey = payload.sessionId.toLowerCase()
+    for (const [id, t] of this.relayed) {
+      if (now - t >= this.options.windowMs) this.relayed.delete(id)
+    }
+    // The first send may still be pending, in which case a simulation would pass.
+    if (this.relayed.has(sessionKey)) return { ok: false, status: 409, error: 'already relayed' }
+    if (this.remaining(key, now) === 0) return { ok: false, status: 429, error: 'relay quota exceeded' }
+
+    const args = [payload, attestSigs, playerSig]
+    try {
+      // A submission the contract would reject costs neither gas nor quota.
+      await this.pool.submitScoreFor.staticCall(...args)
+    } catch (e) {
+      if (isCallException(e)) return { ok: false, status: 400, error: e.revert?.name ?? 'submission reverted' }
+      throw e
+    }
+
+    let txHash: string
+    try {
+      txHash = (await this.pool.submitScoreFor(...args)).hash
+    } catch (e) {
+      this.wallet.reset()
+      throw e
+    }
+    this.sent.set(key, [...this.recent(key, now), now])
+    this.relayed.set(sessionKey, now)
+    return { ok: true, txHash, remaining: this.remaining(key, now) }
+  }
+}
@@ -0,0 +1,109 @@
+import { isAddress, isHexString } from 'ethers'
+import { modeById } from '../../shared/modes'
+import type { HeartbeatRequest, RelayRequest, SessionRequest, VerifyRunRequest, VoidRunRequest } from '../../shared/api'
+
+export type Parsed<T> = { ok: true, value: T } | { ok: false, error: string }
+
+const MAX_INPUTS = 20_000
+const MAX_BEATS = 10_000
+const MAX_ATTEST_SIGS = 16
+
+function fail<T>(error: string): Parsed<T> {
+  return { ok: false, error }
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+function isBytes32(v: unknown): v is string {
+  return typeof v === 'string' && isHexString(v, 32)
+}
+
+function isIndex(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0
+}
+
+export function parseSessionRequest(body: unknown): Parsed<SessionRequest> {
+  if (!isObject(body)) return fail('bad body')
+  if (typeof body.address !== 'string' || !isAddress(body.address)) return fail('bad address')
+  if (body.mode != null && !(isIndex(body.mode) && modeById(body.mode))) return fail('bad mode')
+  if (body.daily != null && typeof body.daily !== 'boolean') return fail('bad daily')
+  // the daily challenge has a fixed mode
+  if (body.daily && body.mode != null) return fail('bad mode')
+  return {
+    ok: true,
+    value: { address: body.address, mode: body.mode == null ? undefined : body.mode, daily: body.daily === true || undefined },
+  }
+}
+
+export function parseHeartbeatRequest(body: unknown): Parsed<HeartbeatRequest> {
+  if (!isObject(body)) return fail('bad body')
+  if (!isBytes32(body.sessionId)) return fail('bad session')
+  if (!isIndex(body.i)) return fail('bad beat index')
+  return { ok: true, value: { sessionId: body.sessionId, i: body.i } }
+}
+
+// Inputs and beats are only checked structurally here; their contents are
+// judged by the replay and the beat verification that follow.
+export function parseVerifyRunRequest(body: unknown): Parsed<VerifyRunRequest> {
+  if (!isObject(body)) return fail('bad body')
+  const { sessionId, address, score, runHash, inputs, beats } = body
+  if (!isBytes32(sessionId)) return fail('bad session')
+  if (typeof address !== 'string' || !isAddress(address)) return fail('address mismatch')
+  if (score != null && !isIndex(score)) return fail('bad score')
+  if (!isBytes32(runHash)) return fail('bad run hash')
+  if (!Array.isArray(inputs) || inputs.length > MAX_INPUTS) return fail('bad inputs')
+  if (!Array.isArray(beats) || beats.length > MAX_BEATS) return fail('bad beats')
+  return {
+    ok: true,
+    value: {
+      sessionId,
+      address,
+      score: score == null ? undefined : score,
+      runHash,
+      inputs: inputs as VerifyRunRequest['inputs'],
+      beats: beats as VerifyRunRequest['beats'],
+    },
+  }
+}
+
+export function parseVoidRunRequest(body: unknown): Parsed<VoidRunRequest> {
+  if (!isObject(body)) return fail('bad body')
+  if (!isBytes32(body.sessionId)) return fail('bad session')
+  return { ok: true, value: { sessionId: body.sessionId } }
+}
+
+function isSignature(v: unknown): v is string {
+  return typeof v === 'string' && isHexString(v, 65)
+}
+
+// Only the shape is checked; the relayer simulates the submission before sending.
+export function parseRelayRequest(body: unknown): Parsed<RelayRequest> {
+  if (!isObject(body)) return fail('bad body')
+  const { payload: p, attestSigs, playerSig } = body
+  if (!isObject(p)) return fail('bad payload')
+  if (typeof p.player !== 'string' || !isAddress(p.player)) return fail('bad address')
+  if (!isBytes32(p.sessionId)) return fail('bad session')
+  if (!isIndex(p.mode) || !isIndex(p.day) || !isIndex(p.score) || !isIndex(p.deadline)) return fail('bad payload')
+  if (!isBytes32(p.runHash) || !isBytes32(p.timeDigest)) return fail('bad payload')
+  if (!Array.isArray(attestSigs) || attestSigs.length > MAX_ATTEST_SIGS || !attestSigs.every(isSignature)) return fail('bad attestation')
+  if (!isSignature(playerSig)) return fail('bad player signature')
+  return {
+    ok: true,
+    value: {
+      payload: {
+        player: p.player,
+        sessionId: p.sessionId,
+        mode: p.mode,
+        day: p.day,
+        score: p.score,
+        runHash: p.runHash,
+        timeDigest: p.timeDigest,
+        deadline: p.deadline,
+      },
+      attestSigs,
+      playerSig,
+    },
+  }
+}
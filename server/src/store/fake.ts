@@ -0,0 +1,61 @@
+import { MemorySessionStore } from './memory'
+
+// In-process store for tests: a memory store with a hand-driven clock and a
+// switch that makes the next calls fail like an unreachable backend.
+export class FakeSessionStore extends MemorySessionStore {
+  private clock: number
+  private failures = 0
+
+  constructor(start = 1_700_000_000_000) {
+    super()
+    this.clock = start
+  }
+
+  protected override now(): number {
+    return this.clock
+  }
+
+  advance(ms: number): void {
+    this.clock += ms
+  }
+
+  failNext(times = 1): void {
+    this.failures += times
+  }
+
+  private trip(): void {
+    if (this.failures > 0) {
+      this.failures--
+      throw new Error('fake store unavailable')
+    }
+  }
+
+  override async get(...args: Parameters<MemorySessionStore['get']>) {
+    this.trip()
+    return super.get(...args)
+  }
+
+  override async set(...args: Parameters<MemorySessionStore['set']>) {
+    this.trip()
+    return super.set(...args)
+  }
+
+  override async appendBeat(...args: Parameters<MemorySessionStore['appendBeat']>) {
+    this.trip()
+    return super.appendBeat(...args)
+  }
+
+  override async claim(...args: Parameters<MemorySessionStore['claim']>) {
+    this.trip()
+    return super.claim(...args)
+  }
+
+  override async release(...args: Parameters<MemorySessionStore['release']>) {
+    this.trip()
+    return super.release(...args)
+  }
+
+  override async ping() {
+    this.trip()
+  }
+}
@@ -0,0 +1,35 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { RunTranscript } from '../../../shared/api'
+import { TranscriptStore } from './types'
+
+// One JSON file per run under `dir` (defaults to `.runs/`, git-ignored).
+export class FileTranscriptStore implements TranscriptStore {
+  constructor(private readonly dir: string) {}
+
+  private fileFor(sessionId: string): string | null {
+    const id = sessionId.toLowerCase()
+    if (!/^0x[0-9a-f]{64}$/.test(id)) return null
+    return path.join(this.dir, `${id}.json`)
+  }
+
+  async get(sessionId: string): Promise<RunTranscript | null> {
+    const file = this.fileFor(sessionId)
+    if (!file) return null
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as RunTranscript
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null
+      throw e
+    }
+  }
+
+  async put(transcript: RunTranscript): Promise<void> {
+    const file = this.fileFor(transcript.sessionId)
+    if (!file) throw new Error(`bad session id ${transcript.sessionId}`)
+    await fs.mkdir(this.dir, { recursive: true })
+    const tmp = `${file}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(transcript))
+    await fs.rename(tmp, file)
+  }
+}
@@ -0,0 +1,27 @@
+import Redis from 'ioredis'
+import { MemorySessionStore } from './memory'
+import { RedisSessionStore, RedisTranscriptStore } from './redis'
+import { FileTranscriptStore } from './file'
+import { SessionStore, TranscriptStore } from './types'
+
+export * from './types'
+export { MemorySessionStore, MemoryTranscriptStore } from './memory'
+export { RedisSessionStore, RedisTranscriptStore } from './redis'
+export { FileTranscriptStore } from './file'
+export { FakeSessionStore } from './fake'
+
+export type Stores = { sessions: SessionStore, transcripts: TranscriptStore }
+
+// Redis backs both stores when configured; otherwise sessions stay in memory
+// and transcripts go to disk so they survive a restart.
+export function createStores(opts: { redisUrl?: string, runsDir: string }): Stores {
+  if (opts.redisUrl) {
+    try {
+      const redis = new Redis(opts.redisUrl)
+      return { sessions: new RedisSessionStore(redis), transcripts: new RedisTranscriptStore(redis) }
+    } catch (e: any) {
+      console.warn('[server] Redis init failed:', e?.message || e)
+    }
+  }
+  return { sessions: new MemorySessionStore(), transcripts: new FileTranscriptStore(opts.runsDir) }
+}
@@ -0,0 +1,66 @@
+import type { RunTranscript } from '../../../shared/api'
+import { Beat, DEFAULT_SESSION_TTL_SEC, Session, SessionStore, TranscriptStore } from './types'
+
+type Entry = { session: Session, expiresAt: number }
+
+export class MemorySessionStore implements SessionStore {
+  readonly kind = 'memory' as const
+  private readonly sessions = new Map<string, Entry>()
+
+  async get(id: string): Promise<Session | null> {
+    const entry = this.sessions.get(id)
+    if (!entry) return null
+    if (entry.expiresAt <= this.now()) {
+      this.sessions.delete(id)
+      return null
+    }
+    return structuredClone(entry.session)
+  }
+
+  async set(id: string, session: Session, ttlSec = DEFAULT_SESSION_TTL_SEC): Promise<void> {
+    this.sessions.set(id, { session: structuredClone(session), expiresAt: this.now() + ttlSec * 1000 })
+  }
+
+  async appendBeat(id: string, beat: Beat): Promise<Session | null> {
+    if (!(await this.get(id))) return null
+    const entry = this.sessions.get(id)!
+    entry.session.beats.push({ ...beat })
+    return structuredClone(entry.session)
+  }
+
+  // No await between the check and the write, so the claim is atomic.
+  async claim(id: string): Promise<boolean> {
+    const entry = this.sessions.get(id)
+    if (!entry || entry.expiresAt <= this.now() || entry.session.consumed) return false
+    entry.session.consumed = true
+    return true
+  }
+
+  async release(id: string): Promise<void> {
+    const entry = this.sessions.get(id)
+    if (entry) delete entry.session.consumed
+  }
+
+  async ping(): Promise<void> {}
+
+  protected now(): number {
+    return Date.now()
+  }
+
+  get size(): number {
+    return this.sessions.size
+  }
+}
+
+export class MemoryTranscriptStore implements TranscriptStore {
+  private readonly runs = new Map<string, RunTranscript>()
+
+  async get(sessionId: string): Promise<RunTranscript | null> {
+    const t = this.runs.get(sessionId.toLowerCase())
+    return t ? structuredClone(t) : null
+  }
+
+  async put(transcript: RunTranscript): Promise<void> {
+    this.runs.set(transcript.sessionId.toLowerCase(), structuredClone(transcript))
+  }
+}
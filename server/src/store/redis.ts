@@ -0,0 +1,75 @@
+import Redis from 'ioredis'
+import type { RunTranscript } from '../../../shared/api'
+import { Beat, DEFAULT_SESSION_TTL_SEC, Session, SessionStore, TranscriptStore } from './types'
+
+// Session metadata lives in `sess:<id>` and beats in the `sess:<id>:beats`
+// list, so concurrent heartbeats append atomically instead of racing a
+// read-modify-write of the whole session. `consumed` is the `sess:<id>:claim`
+// key, taken with SET NX so only one verification can claim a session.
+export class RedisSessionStore implements SessionStore {
+  readonly kind = 'redis' as const
+
+  constructor(private readonly redis: Redis) {}
+
+  async get(id: string): Promise<Session | null> {
+    const [[, raw], [, beats], [, claimed]] = (await this.redis
+      .multi()
+      .get(`sess:${id}`)
+      .lrange(`sess:${id}:beats`, 0, -1)
+      .exists(`sess:${id}:claim`)
+      .exec()) as [[Error | null, string | null], [Error | null, string[]], [Error | null, number]]
+    if (!raw) return null
+    const meta = JSON.parse(raw) as Omit<Session, 'beats' | 'consumed'>
+    return { ...meta, ...(claimed ? { consumed: true } : {}), beats: beats.map(b => JSON.parse(b) as Beat) }
+  }
+
+  async set(id: string, session: Session, ttlSec = DEFAULT_SESSION_TTL_SEC): Promise<void> {
+    const { beats, consumed, ...meta } = session
+    const tx = this.redis.multi()
+      .set(`sess:${id}`, JSON.stringify(meta), 'EX', ttlSec)
+      .del(`sess:${id}:beats`)
+    if (beats.length) {
+      tx.rpush(`sess:${id}:beats`, ...beats.map(b => JSON.stringify(b))).expire(`sess:${id}:beats`, ttlSec)
+    }
+    if (consumed) tx.set(`sess:${id}:claim`, '1', 'EX', ttlSec)
+    else tx.del(`sess:${id}:claim`)
+    await tx.exec()
+  }
+
+  async appendBeat(id: string, beat: Beat): Promise<Session | null> {
+    const ttl = await this.redis.ttl(`sess:${id}`)
+    if (ttl <= 0) return null
+    await this.redis.multi()
+      .rpush(`sess:${id}:beats`, JSON.stringify(beat))
+      .expire(`sess:${id}:beats`, ttl)
+      .exec()
+    return this.get(id)
+  }
+
+  async claim(id: string): Promise<boolean> {
+    const ttl = await this.redis.ttl(`sess:${id}`)
+    if (ttl <= 0) return false
+    return (await this.redis.set(`sess:${id}:claim`, '1', 'EX', ttl, 'NX')) === 'OK'
+  }
+
+  async release(id: string): Promise<void> {
+    await this.redis.del(`sess:${id}:claim`)
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping()
+  }
+}
+
+export class RedisTranscriptStore implements TranscriptStore {
+  constructor(private readonly redis: Redis) {}
+
+  async get(sessionId: string): Promise<RunTranscript | null> {
+    const raw = await this.redis.get(`run:${sessionId.toLowerCase()}`)
+    return raw ? JSON.parse(raw) as RunTranscript : null
+  }
+
+  async put(transcript: RunTranscript): Promise<void> {
+    await this.redis.set(`run:${transcript.sessionId.toLowerCase()}`, JSON.stringify(transcript))
+  }
+}
@@ -0,0 +1,39 @@
+import type { RunTranscript } from '../../../shared/api'
+
+export type Beat = { i: number, t: number }
+
+export type Session = {
+  seed: string
+  address: string
+  mode: number
+  // Daily challenge day the seed belongs to; absent for regular sessions.
+  day?: number
+  beats: Beat[]
+  // Set when verification failed on our side, so the run may be voided.
+  outage?: boolean
+  // Set once a run was attested; the session cannot be verified again.
+  consumed?: boolean
+}
+
+// Backing storage for live sessions. Implementations must treat `ttlSec` as
+// the lifetime from the last `set`; appended beats do not extend it.
+export interface SessionStore {
+  readonly kind: 'memory' | 'redis'
+  get(id: string): Promise<Session | null>
+  set(id: string, session: Session, ttlSec?: number): Promise<void>
+  appendBeat(id: string, beat: Beat): Promise<Session | null>
+  // Atomically mark the session consumed; false if it is missing or already
+  // claimed, so of concurrent callers exactly one wins.
+  claim(id: string): Promise<boolean>
+  // Undo a claim that did not end in an attestation.
+  release(id: string): Promise<void>
+  ping(): Promise<void>
+}
+
+export const DEFAULT_SESSION_TTL_SEC = 3600
+
+// Verified transcripts, kept indefinitely so leaderboard runs can be replayed.
+export interface TranscriptStore {
+  get(sessionId: string): Promise<RunTranscript | null>
+  put(transcript: RunTranscript): Promise<void>
+}
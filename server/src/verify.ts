@@ -0,0 +1,155 @@
+import { EngineConfig, InputEvent, Vec, replaySteps, tickMsForScore } from '../../shared/engine'
+import type { HeartbeatResponse, Rejection } from '../../shared/api'
+import type { ServerConfig } from './config'
+import { recoverBeatSigner, runHashOf, timeDigestOf } from './attest'
+
+// Turns are counted per window of expected play time for the superhuman check.
+export const TURN_WINDOW_MS = 1000
+// Fewer turns than this say too little about timing to call it regular.
+export const REGULAR_MIN_GAPS = 20
+
+export type TranscriptCheck = {
+  sessionId: string
+  seed: string
+  config: EngineConfig
+  // What the client says it scored; must match the replay when given
+  score?: number
+  runHash: string
+  inputs: InputEvent[]
+  beats: HeartbeatResponse[]
+}
+
+export type VerifyRules = {
+  heartbeat: ServerConfig['heartbeat']
+  verify: ServerConfig['verify']
+  // Beats must carry this key's signature unless heartbeat.allowUnsigned
+  signerAddress: string
+}
+
+export type Verdict =
+  | { ok: true, score: number, frames: number, playMs: number, timeDigest: string }
+  | { ok: false, reasons: Rejection[] }
+
+export type Replay = { score: number, frames: number, tickAt: number[] }
+
+// Replay a transcript and note when each frame was reached. The client steps
+// the engine once `tickMs` has passed since the previous step, and tickMs
+// follows the food eaten so far, so tickAt[f] is the least play time (ms
+// after the run started) in which frame f can have been reached.
+export function replayTimed(inputs: unknown, seedHex: string, config: EngineConfig): Replay {
+  const tickAt = [0]
+  let eaten = 0
+  let score = 0
+  for (const engine of replaySteps(inputs, seedHex, config)) {
+    tickAt.push(tickAt[tickAt.length - 1] + tickMsForScore(eaten))
+    eaten = engine.eaten
+    score = engine.score
+  }
+  return { score, frames: tickAt.length - 1, tickAt }
+}
+
+// Frames at which the heading actually changed. Repeated presses of the
+// current direction (held keys, older clients) are not turns.
+export function turnFrames(inputs: InputEvent[], startDir: Vec): number[] {
+  const ordered = inputs
+    .filter(e => e && Number.isFinite(Number(e.f)) && e.d)
+    .map((e, i) => ({ e, i }))
+    .sort((a, b) => (Number(a.e.f) - Number(b.e.f)) || a.i - b.i)
+  let dir = startDir
+  const frames: number[] = []
+  for (const { e } of ordered) {
+    if (e.d.x === dir.x && e.d.y === dir.y) continue
+    dir = e.d
+    frames.push(Number(e.f))
+  }
+  return frames
+}
+
+// Most turns inside any TURN_WINDOW_MS of expected play time.
+export function peakTurnRate(turns: number[], tickAt: number[]): number {
+  const at = turns.map(f => tickAt[Math.min(f, tickAt.length - 1)])
+  let peak = 0
+  for (let lo = 0, hi = 0; hi < at.length; hi++) {
+    while (at[hi] - at[lo] >= TURN_WINDOW_MS) lo++
+    peak = Math.max(peak, hi - lo + 1)
+  }
+  return peak
+}
+
+// Coefficient of variation of the frame gaps between turns; null when there
+// are too few turns to judge.
+export function turnGapVariation(turns: number[]): number | null {
+  if (turns.length - 1 < REGULAR_MIN_GAPS) return null
+  const gaps = turns.slice(1).map((f, i) => f - turns[i])
+  const mean = gaps.reduce((a, b) => a + b, 0) / gaps.length
+  if (mean === 0) return 0
+  const variance = gaps.reduce((a, g) => a + (g - mean) ** 2, 0) / gaps.length
+  return Math.sqrt(variance) / mean
+}
+
+// Beats must be signed, strictly increasing and within the cadence bounds.
+// Returns the intervals between them, or the first problem found.
+function checkBeats(c: TranscriptCheck, rules: VerifyRules): { intervals: number[] } | { reason: Rejection } {
+  const hb = rules.heartbeat
+  if (c.beats.length < hb.minBeats) {
+    return { reason: { code: 'too few beats', min: hb.minBeats, saw: c.beats.length } }
+  }
+  let lastI = -1
+  let lastT = 0
+  const intervals: number[] = []
+  for (const b of c.beats) {
+    const bi = Number(b?.i ?? 0)
+    const bt = Number(b?.t ?? 0)
+    if (!Number.isFinite(bi) || !Number.isFinite(bt)) return { reason: { code: 'bad beats', bi, bt } }
+    if (!hb.allowUnsigned) {
+      const who = typeof b.sig === 'string' ? recoverBeatSigner(c.sessionId, bi, bt, b.sig) : null
+      if (!who || who.toLowerCase() !== rules.signerAddress) return { reason: { code: 'bad beat sig', beat: b } }
+    }
+    if (bi <= lastI || bt <= lastT) return { reason: { code: 'non-monotonic beats', lastI, lastT, bi, bt } }
+    const dt = lastT === 0 ? 0 : bt - lastT
+    if (lastT !== 0 && (dt < hb.minMs || dt > hb.maxMs)) {
+      return { reason: { code: 'bad cadence', dt, minMs: hb.minMs, maxMs: hb.maxMs } }
+    }
+    if (lastT !== 0) intervals.push(dt)
+    lastI = bi
+    lastT = bt
+  }
+  return { intervals }
+}
+
+// Judge a transcript: it must hash to runHash and replay to the reported
+// score, its beats must be valid, the play it describes must fit inside the
+// beats, and its inputs must not be faster or more regular than a person.
+// Every failed check after the hash is reported.
+export function verifyTranscript(c: TranscriptCheck, rules: VerifyRules): Verdict {
+  if (runHashOf(c.inputs) !== c.runHash) {
+    return { ok: false, reasons: [{ code: 'mismatch', runHash: c.runHash }] }
+  }
+  const reasons: Rejection[] = []
+  const run = replayTimed(c.inputs, c.seed, c.config)
+  if (c.score != null && c.score !== run.score) {
+    reasons.push({ code: 'score mismatch', score: c.score, simScore: run.score })
+  }
+
+  const beats = checkBeats(c, rules)
+  if ('reason' in beats) reasons.push(beats.reason)
+
+  const playMs = run.tickAt[run.frames]
+  const v = rules.verify
+  if (v.timing) {
+    if ('intervals' in beats) {
+      const beatMs = Number(c.beats[c.beats.length - 1].t) - Number(c.beats[0].t)
+      if (playMs > beatMs + v.slackMs) reasons.push({ code: 'too fast', playMs, beatMs, slackMs: v.slackMs })
+    }
+    const turns = turnFrames(c.inputs, c.config.startDir)
+    const peak = peakTurnRate(turns, run.tickAt)
+    if (peak > v.maxTurnsPerSec) {
+      reasons.push({ code: 'superhuman input', turns: peak, windowMs: TURN_WINDOW_MS, max: v.maxTurnsPerSec })
+    }
+    const cv = turnGapVariation(turns)
+    if (cv != null && cv < v.minGapCv) reasons.push({ code: 'regular input', gaps: turns.length - 1, cv, min: v.minGapCv })
+  }
+
+  if (reasons.length || 'reason' in beats) return { ok: false, reasons }
+  return { ok: true, score: run.score, frames: run.frames, playMs, timeDigest: timeDigestOf(beats.intervals) }
+}
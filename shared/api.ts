@@ -0,0 +1,99 @@
+// Wire types for the attestation server. The server validates requests
+// against these shapes and the client reads responses through them, so a
+// renamed field breaks the build instead of a run submission.
+
+import type { InputEvent } from './engine'
+
+export type Hex32 = string
+
+// mode is a GameMode id (see modes.ts); omitted means classic. The session
+// is bound to it, so the response echoes the mode the run must be played in.
+// `daily` asks for today's shared challenge seed instead (see daily.ts); its
+// response carries the day to pass to startDailyRun, regular sessions get 0.
+export type SessionRequest = { address: string, mode?: number, daily?: boolean }
+export type SessionResponse = { sessionId: Hex32, seed: Hex32, mode: number, day: number }
+
+export type HeartbeatRequest = { sessionId: Hex32, i: number }
+export type HeartbeatResponse = { i: number, t: number, sig: string }
+
+export type VerifyRunRequest = {
+  sessionId: Hex32
+  address: string
+  score?: number
+  runHash: Hex32
+  inputs: InputEvent[]
+  beats: HeartbeatResponse[]
+}
+// attestSigs are EIP-712 signatures (see attestation.ts), one per server key in
+// ascending signer order, valid until `deadline` (unix seconds), over the
+// session's `mode` and daily challenge `day`.
+export type VerifyRunResponse = { timeDigest: Hex32, attestSigs: string[], mode: number, day: number, score: number, deadline: number }
+
+// Why /verify-run refused a run (403). `error` repeats the first code; every
+// failed check is listed in `reasons` with its measurements. A session that
+// was already attested answers 409 'session consumed' instead.
+export type RejectionCode =
+  | 'mismatch' // inputs do not hash to runHash
+  | 'score mismatch' // reported score differs from the replay
+  | 'too few beats'
+  | 'bad beats'
+  | 'bad beat sig'
+  | 'non-monotonic beats'
+  | 'bad cadence'
+  | 'too fast' // the run takes longer to play than the beats span
+  | 'superhuman input' // more turns in a second than a person can make
+  | 'regular input' // turns spaced too evenly
+export type Rejection = { code: RejectionCode, [detail: string]: unknown }
+export type VerifyRunRejection = { error: RejectionCode, reasons: Rejection[] }
+
+// Ask the server to give up on a run so the contract refunds its entry fee.
+export type VoidRunRequest = { sessionId: Hex32 }
+export type VoidRunResponse = { sessionId: Hex32, player: string, voidSig: string }
+
+export type ErrorResponse = { error: string, [detail: string]: unknown }
+
+// A verified run handed to the relayer, which submits it with submitScoreFor
+// and pays the gas. The payload is the one /verify-run attested; playerSig is
+// the player's RelayAuthorization for the session (see attestation.ts).
+export type RelayPayload = {
+  player: string
+  sessionId: Hex32
+  mode: number
+  day: number
+  score: number
+  runHash: Hex32
+  timeDigest: Hex32
+  deadline: number
+}
+export type RelayRequest = { payload: RelayPayload, attestSigs: string[], playerSig: string }
+// `remaining` is what is left of the player's relay quota after this submission.
+export type RelayResponse = { txHash: Hex32, remaining: number }
+// Relayed submissions a player has left in the current quota window.
+export type RelayQuotaResponse = { relayer: string, limit: number, remaining: number }
+
+// A verified run as kept by the server after /verify-run, served back for replays.
+export type RunTranscript = {
+  sessionId: Hex32
+  player: string
+  seed: Hex32
+  // Missing on transcripts recorded before game modes, which were all classic.
+  mode?: number
+  // Daily challenge day; missing or 0 for regular runs.
+  day?: number
+  // Asset the entry fee was paid in, the zero address for ETH; missing when
+  // the server runs without an RPC.
+  token?: string
+  score: number
+  runHash: Hex32
+  timeDigest: Hex32
+  inputs: InputEvent[]
+  beats: HeartbeatResponse[]
+  verifiedAt: number
+}
+
+// How the stored transcript relates to the on-chain run: `match` when
+// runs(sessionId).runHash equals the transcript hash, `pending` while the
+// score has not been submitted, `unchecked` when the server has no RPC.
+export type ChainCheck = 'match' | 'pending' | 'unchecked'
+
+export type RunTranscriptResponse = RunTranscript & { chain: ChainCheck }
@@ -0,0 +1,94 @@
+// EIP-712 typed data signed by the attestation server and checked by
+// SnakeLeaderboard. The server, the client and the tests all go through these
+// definitions, so a field added here has to be added to the contract too.
+// RelayAuthorization is the one type signed by players rather than the server.
+
+import type { Hex32 } from './api'
+
+export const DOMAIN_NAME = 'SnakeLeaderboard'
+export const DOMAIN_VERSION = '1'
+
+export type AttestationDomain = {
+  name: string
+  version: string
+  chainId: bigint | number
+  verifyingContract: string
+}
+
+// Signatures are only valid on the deployment they were made for.
+export function attestationDomain(chainId: bigint | number, verifyingContract: string): AttestationDomain {
+  return { name: DOMAIN_NAME, version: DOMAIN_VERSION, chainId, verifyingContract }
+}
+
+export const SCORE_PAYLOAD_TYPES = {
+  ScorePayload: [
+    { name: 'player', type: 'address' },
+    { name: 'sessionId', type: 'bytes32' },
+    { name: 'mode', type: 'uint8' },
+    { name: 'day', type: 'uint32' },
+    { name: 'score', type: 'uint64' },
+    { name: 'runHash', type: 'bytes32' },
+    { name: 'timeDigest', type: 'bytes32' },
+    { name: 'deadline', type: 'uint64' },
+  ],
+}
+
+export const VOID_RUN_TYPES = {
+  VoidRun: [
+    { name: 'player', type: 'address' },
+    { name: 'sessionId', type: 'bytes32' },
+  ],
+}
+
+// Lets anyone submit the attested score of one session on the player's behalf.
+export const RELAY_AUTHORIZATION_TYPES = {
+  RelayAuthorization: [
+    { name: 'player', type: 'address' },
+    { name: 'sessionId', type: 'bytes32' },
+  ],
+}
+
+// Mirrors SnakeLeaderboard.ScorePayload; mode is a GameMode id, day the daily
+// challenge day (0 for regular runs) and deadline a unix timestamp in seconds.
+export type ScorePayload = {
+  player: string
+  sessionId: Hex32
+  mode: number
+  day: number
+  score: bigint
+  runHash: Hex32
+  timeDigest: Hex32
+  deadline: bigint
+}
+
+type TypedField = { name: string, type: string }
+
+// Structural stand-in for an ethers Signer so this module stays dependency-free.
+export interface TypedDataSigner {
+  signTypedData(domain: AttestationDomain, types: Record<string, TypedField[]>, value: Record<string, unknown>): Promise<string>
+}
+
+export function signScorePayload(signer: TypedDataSigner, domain: AttestationDomain, payload: ScorePayload): Promise<string> {
+  return signer.signTypedData(domain, SCORE_PAYLOAD_TYPES, payload)
+}
+
+// submitScore takes signatures ordered by ascending signer address.
+export async function cosignScorePayload(
+  signers: (TypedDataSigner & { getAddress(): Promise<string> })[],
+  domain: AttestationDomain,
+  payload: ScorePayload
+): Promise<string[]> {
+  const signed = await Promise.all(signers.map(async (signer) => ({
+    address: (await signer.getAddress()).toLowerCase(),
+    sig: await signScorePayload(signer, domain, payload),
+  })))
+  return signed.sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0)).map((s) => s.sig)
+}
+
+export function signVoidRun(signer: TypedDataSigner, domain: AttestationDomain, player: string, sessionId: Hex32): Promise<string> {
+  return signer.signTypedData(domain, VOID_RUN_TYPES, { player, sessionId })
+}
+
+export function signRelayAuthorization(signer: TypedDataSigner, domain: AttestationDomain, player: string, sessionId: Hex32): Promise<string> {
+  return signer.signTypedData(domain, RELAY_AUTHORIZATION_TYPES, { player, sessionId })
+}
@@ -0,0 +1,18 @@
+// Daily challenge: one seed per UTC day, shared by every player. Day indexes
+// match SnakeLeaderboard.currentDay() (unix seconds / 86400).
+
+import { CLASSIC_MODE } from './modes'
+
+export const DAY_SECONDS = 86_400
+
+// Daily runs are played under classic rules so scores compare across days.
+export const DAILY_MODE = CLASSIC_MODE
+
+export function dayIndex(unixMs: number = Date.now()): number {
+  return Math.floor(unixMs / 1000 / DAY_SECONDS)
+}
+
+// Unix seconds at which `day` ends and the next challenge opens.
+export function dayEndsAt(day: number): number {
+  return (day + 1) * DAY_SECONDS
+}
@@ -0,0 +1,221 @@
+// Deterministic Snake engine shared by the client (live play) and the
+// attestation server (replay). Anything that changes the outcome of a run
+// belongs here so both sides always agree on the canonical score.
+
+export type Vec = { x: number, y: number }
+
+// A single direction change, recorded at the frame it was applied before.
+export type InputEvent = { f: number, key?: string, d: Vec }
+
+export type EndReason = 'wall' | 'obstacle' | 'self' | 'board-full' | 'frame-cap'
+
+export type StepResult = { ate: boolean, over: boolean }
+
+export type EngineConfig = {
+  grid: number
+  start: Vec
+  startDir: Vec
+  firstFood: Vec
+  maxFrames: number
+  // Leaving the board re-enters on the opposite edge instead of ending the run.
+  wrap: boolean
+  // Fixed wall cells; food never spawns on them.
+  obstacles: Vec[]
+  // 'food' scores a point per food; 'speed' pays more for food reached quickly.
+  scoring: 'food' | 'speed'
+}
+
+export const DEFAULT_CONFIG: EngineConfig = {
+  grid: 20,
+  start: { x: 5, y: 10 },
+  startDir: { x: 1, y: 0 },
+  firstFood: { x: 10, y: 10 },
+  maxFrames: 10000,
+  wrap: false,
+  obstacles: [],
+  scoring: 'food',
+}
+
+// Tick schedule: every point speeds the snake up until it hits the floor.
+export const BASE_TICK_MS = 140
+export const MIN_TICK_MS = 60
+export const TICK_STEP_MS = 10
+
+export function tickMsForScore(score: number): number {
+  return Math.max(MIN_TICK_MS, BASE_TICK_MS - score * TICK_STEP_MS)
+}
+
+// Speed scoring: food eaten within SPEED_WINDOW frames of the previous one is
+// worth SPEED_MAX_POINTS, dropping a point per window down to 1.
+export const SPEED_MAX_POINTS = 5
+export const SPEED_WINDOW = 10
+
+export function speedPoints(framesSinceFood: number): number {
+  return Math.max(1, SPEED_MAX_POINTS - Math.floor(framesSinceFood / SPEED_WINDOW))
+}
+
+// Deterministic RNG (mulberry32) seeded by folding a hex seed into 32 bits.
+export function makeRng(seedHex: string): () => number {
+  const hex = seedHex.replace(/^0x/, '')
+  let h = 0
+  for (let i = 0; i < hex.length; i += 8) {
+    h ^= parseInt(hex.slice(i, i + 8), 16) >>> 0
+  }
+  let t = h >>> 0
+  return function() {
+    t += 0x6D2B79F5
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r)
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function isUnitDir(d: unknown): d is Vec {
+  if (!d || typeof d !== 'object') return false
+  const { x, y } = d as Vec
+  if (!Number.isInteger(x) || !Number.isInteger(y)) return false
+  return Math.abs(x) + Math.abs(y) === 1
+}
+
+export class SnakeEngine {
+  readonly config: EngineConfig
+  readonly inputs: InputEvent[] = []
+  snake: Vec[]
+  food: Vec
+  score = 0
+  // Food eaten so far; drives the tick schedule so speed-scored modes don't
+  // accelerate faster than classic play.
+  eaten = 0
+  frame = 0
+  over = false
+  endReason: EndReason | null = null
+
+  private dir: Vec
+  // Heading of the last executed move; reversals are judged against this so
+  // two quick turns inside one tick can't fold the snake back onto its neck.
+  private heading: Vec
+  private readonly rng: () => number
+  private readonly blocked: Set<number>
+  private lastFoodFrame = 0
+
+  constructor(seedHex: string, config: EngineConfig = DEFAULT_CONFIG) {
+    this.config = config
+    this.rng = makeRng(seedHex)
+    this.snake = [{ ...config.start }]
+    this.dir = { ...config.startDir }
+    this.heading = { ...config.startDir }
+    this.food = { ...config.firstFood }
+    this.blocked = new Set(config.obstacles.map(o => o.y * config.grid + o.x))
+  }
+
+  get direction(): Vec {
+    return { ...this.dir }
+  }
+
+  get tickMs(): number {
+    return tickMsForScore(this.eaten)
+  }
+
+  // Queue a direction change for the next tick. Returns false (and records
+  // nothing) when the turn is not allowed.
+  turn(d: Vec, key?: string): boolean {
+    if (this.over || !isUnitDir(d)) return false
+    if (d.x === -this.heading.x && d.y === -this.heading.y) return false
+    this.dir = { x: d.x, y: d.y }
+    const ev: InputEvent = { f: this.frame, d: { x: d.x, y: d.y } }
+    if (key !== undefined) ev.key = key
+    this.inputs.push(ev)
+    return true
+  }
+
+  step(): StepResult {
+    if (this.over) return { ate: false, over: true }
+    const { grid, wrap } = this.config
+    this.frame += 1
+    this.heading = this.dir
+    const head = { x: this.snake[0].x + this.dir.x, y: this.snake[0].y + this.dir.y }
+    if (wrap) {
+      head.x = (head.x + grid) % grid
+      head.y = (head.y + grid) % grid
+    } else if (head.x < 0 || head.y < 0 || head.x >= grid || head.y >= grid) {
+      return this.finish('wall')
+    }
+    if (this.blocked.has(head.y * grid + head.x)) {
+      return this.finish('obstacle')
+    }
+    if (this.snake.some((s, i) => i > 0 && s.x === head.x && s.y === head.y)) {
+      return this.finish('self')
+    }
+    this.snake.unshift(head)
+    let ate = false
+    if (head.x === this.food.x && head.y === this.food.y) {
+      ate = true
+      this.eaten += 1
+      this.score += this.config.scoring === 'speed' ? speedPoints(this.frame - this.lastFoodFrame) : 1
+      this.lastFoodFrame = this.frame
+      if (!this.placeFood()) return { ...this.finish('board-full'), ate }
+    } else {
+      this.snake.pop()
+    }
+    if (this.frame >= this.config.maxFrames) return { ...this.finish('frame-cap'), ate }
+    return { ate, over: false }
+  }
+
+  // Food only ever spawns on a free cell; the RNG picks among them in
+  // row-major order so the choice stays deterministic.
+  private placeFood(): boolean {
+    const { grid } = this.config
+    const taken = new Set(this.blocked)
+    for (const s of this.snake) taken.add(s.y * grid + s.x)
+    const free: number[] = []
+    for (let i = 0; i < grid * grid; i++) {
+      if (!taken.has(i)) free.push(i)
+    }
+    if (free.length === 0) return false
+    const cell = free[Math.floor(this.rng() * free.length)]
+    this.food = { x: cell % grid, y: Math.floor(cell / grid) }
+    return true
+  }
+
+  private finish(reason: EndReason): StepResult {
+    this.over = true
+    this.endReason = reason
+    return { ate: false, over: true }
+  }
+}
+
+export type ReplayResult = { score: number, frames: number, endReason: EndReason | null }
+
+function orderInputs(inputs: unknown): Partial<InputEvent>[] {
+  const list = Array.isArray(inputs) ? inputs : []
+  return list
+    .map((e, i) => ({ e: e as Partial<InputEvent> | null, i }))
+    .filter(({ e }) => e && Number.isFinite(Number(e.f)))
+    .sort((a, b) => (Number(a.e!.f) - Number(b.e!.f)) || a.i - b.i)
+    .map(({ e }) => e!)
+}
+
+// Step a recorded transcript forward, yielding the engine after every tick.
+// Inputs are applied in frame order before the tick that follows them,
+// exactly as they were during play.
+export function* replaySteps(inputs: unknown, seedHex: string, config: EngineConfig = DEFAULT_CONFIG): Generator<SnakeEngine> {
+  const engine = new SnakeEngine(seedHex, config)
+  const ordered = orderInputs(inputs)
+  let idx = 0
+  while (!engine.over) {
+    while (idx < ordered.length && Number(ordered[idx].f) <= engine.frame) {
+      const e = ordered[idx]
+      if (isUnitDir(e.d)) engine.turn(e.d)
+      idx++
+    }
+    engine.step()
+    yield engine
+  }
+}
+
+// Replay a recorded transcript to completion.
+export function replayRun(inputs: unknown, seedHex: string, config: EngineConfig = DEFAULT_CONFIG): ReplayResult {
+  let last: SnakeEngine | null = null
+  for (const engine of replaySteps(inputs, seedHex, config)) last = engine
+  return { score: last!.score, frames: last!.frame, endReason: last!.endReason }
+}
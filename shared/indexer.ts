@@ -0,0 +1,56 @@
+// Wire types for the event indexer's HTTP API.
+
+import type { Hex32 } from './api'
+
+// One paid run as reconstructed from RunStarted / ScoreSubmitted / RunRefunded.
+// Score fields (and the game mode, which is only emitted on submission) stay
+// null until the run is submitted; `rank` is the rank it got on its mode's
+// board then. Wei amounts are decimal strings; for runs paid in a token
+// (`token` set) the fee and refund are in that token's units.
+export type IndexedRun = {
+  sessionId: Hex32
+  player: string
+  startedBlock: number
+  startedAt: number
+  feeWei: string
+  // Entry fee token, null for ETH.
+  token: string | null
+  refundWei: string | null
+  // Daily challenge day, null for regular runs.
+  day: number | null
+  mode: number | null
+  score: number | null
+  rank: number | null
+  submittedBlock: number | null
+  submittedAt: number | null
+}
+
+// Position in the requested ordering, 1-based across pages.
+export type RankedRun = IndexedRun & { position: number }
+
+export type Page<T> = { page: number, pageSize: number, total: number, items: T[] }
+
+// The player's best board rank right after one of their runs entered the board.
+export type RankPoint = { block: number, at: number, score: number, rank: number }
+
+// Inclusive score range and how many scored runs fell in it.
+export type ScoreBucket = { from: number, to: number, count: number }
+
+// Run counts and fees cover every mode; score statistics and rank history
+// cover `mode` only, since scores of different modes are not comparable.
+export type PlayerProfile = {
+  player: string
+  mode: number
+  runs: number
+  scoredRuns: number
+  refundedRuns: number
+  // ETH entry fees paid minus refunds received; token runs are left out.
+  feesWei: string
+  bestScore: number | null
+  averageScore: number | null
+  medianScore: number | null
+  distribution: ScoreBucket[]
+  rankHistory: RankPoint[]
+}
+
+export type IndexerHealth = { ok: boolean, block: number | null }
@@ -0,0 +1,73 @@
+// Game modes. The id is fixed when the server opens a session, replayed
+// under the same rules, signed into the ScorePayload and used on-chain as the
+// leaderboard key, so ids must never be reused or renumbered.
+
+import { DEFAULT_CONFIG, EngineConfig, Vec } from './engine'
+
+export type GameMode = {
+  id: number
+  key: string
+  label: string
+  description: string
+  config: EngineConfig
+}
+
+function bar(from: Vec, to: Vec): Vec[] {
+  const cells: Vec[] = []
+  for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+    for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) cells.push({ x, y })
+  }
+  return cells
+}
+
+// Kept clear of row 10 so the opening run to the first food is always safe.
+const MAZE: Vec[] = [
+  ...bar({ x: 4, y: 2 }, { x: 4, y: 6 }),
+  ...bar({ x: 9, y: 5 }, { x: 14, y: 5 }),
+  ...bar({ x: 5, y: 15 }, { x: 10, y: 15 }),
+  ...bar({ x: 15, y: 13 }, { x: 15, y: 17 }),
+]
+
+export const CLASSIC_MODE = 0
+
+export const GAME_MODES: GameMode[] = [
+  {
+    id: CLASSIC_MODE,
+    key: 'classic',
+    label: 'Classic',
+    description: '20×20 board, solid walls.',
+    config: DEFAULT_CONFIG,
+  },
+  {
+    id: 1,
+    key: 'wrap',
+    label: 'Wrap',
+    description: 'Walls wrap around to the opposite edge.',
+    config: { ...DEFAULT_CONFIG, wrap: true },
+  },
+  {
+    id: 2,
+    key: 'maze',
+    label: 'Obstacles',
+    description: 'Fixed wall segments scattered across the board.',
+    config: { ...DEFAULT_CONFIG, obstacles: MAZE },
+  },
+  {
+    id: 3,
+    key: 'big',
+    label: 'Big Board',
+    description: '30×30 board, solid walls.',
+    config: { ...DEFAULT_CONFIG, grid: 30, start: { x: 7, y: 15 }, firstFood: { x: 15, y: 15 }, maxFrames: 20000 },
+  },
+  {
+    id: 4,
+    key: 'blitz',
+    label: 'Blitz',
+    description: 'Food is worth up to 5 points the faster you reach it; runs end after 600 ticks.',
+    config: { ...DEFAULT_CONFIG, scoring: 'speed', maxFrames: 600 },
+  },
+]
+
+export function modeById(id: number): GameMode | undefined {
+  return GAME_MODES.find(m => m.id === id)
+}
@@ -0,0 +1,34 @@
+// EIP-2612 permits for paying entry fees in a token with one transaction:
+// the player signs a permit for the pool and startRunWithToken spends it. The
+// domain is the token's own, not the pool's.
+
+import type { AttestationDomain, TypedDataSigner } from './attestation'
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+export type PermitMessage = {
+  owner: string
+  spender: string
+  value: bigint
+  // The token's nonces(owner)
+  nonce: bigint
+  deadline: bigint
+}
+
+// Most tokens use their name and version "1"; read eip712Domain() where the
+// token has it.
+export function permitDomain(name: string, chainId: bigint | number, token: string, version = '1'): AttestationDomain {
+  return { name, version, chainId, verifyingContract: token }
+}
+
+export function signPermit(signer: TypedDataSigner, domain: AttestationDomain, message: PermitMessage): Promise<string> {
+  return signer.signTypedData(domain, PERMIT_TYPES, message)
+}
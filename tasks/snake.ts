@@ -0,0 +1,540 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import * as readline from "readline";
+import * as dotenv from "dotenv";
+import { Contract } from "ethers";
+
+dotenv.config();
+
+// Admin tasks for a deployed SnakeLeaderboard, one per owner function plus
+// read-only `snake:status`, `snake:leaderboard` and `snake:pending`. Every task
+// takes `--pool` (default POOL_ADDRESS) and `--json`. Write tasks simulate the
+// call first and print the state they change; `--dry-run` stops there. Tasks
+// that move funds or hand over the contract also need `--yes` or a typed
+// confirmation. Once the pool has an admin delay, fee, prize, refund, referral,
+// signer and badge tasks queue their change; `snake:execute` applies it when
+// the delay is over. Entry fee tokens show up in the snapshot as `token=value`
+// lists, one per ledger field.
+
+export type Snapshot = Record<string, string>;
+export type Change = { field: string, from: string, to: string };
+export type AdminResult = {
+  action: string;
+  network: string;
+  pool: string;
+  dryRun: boolean;
+  changes: Change[];
+  txHash?: string;
+  // Set when the call was queued behind the admin delay
+  queued?: { id: string, data: string };
+};
+
+type Common = { pool?: string, json: boolean };
+type WriteArgs = Common & { dryRun: boolean, yes: boolean };
+
+const list = (value: string) => (value ? value.split(",") : []);
+
+const BPS = 10_000n;
+
+async function openPool(hre: HardhatRuntimeEnvironment, address?: string) {
+  if (!address) throw new HardhatPluginError("snake", "Pass --pool or set POOL_ADDRESS");
+  if (!hre.ethers.isAddress(address)) throw new HardhatPluginError("snake", `Bad pool address ${address}`);
+  const [signer] = await hre.ethers.getSigners();
+  return hre.ethers.getContractAt("SnakeLeaderboard", address, signer);
+}
+
+type Pool = Awaited<ReturnType<typeof openPool>>;
+
+const ERC20_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+];
+
+const erc20 = (pool: Pool, token: string) => new Contract(token, ERC20_ABI, pool.runner);
+
+// One `token=value` entry per accepted token, in getTokens() order.
+const entries = (value: string) => list(value).map((e) => e.split("=") as [string, string]);
+const joinEntries = (items: [string, string][]) => items.map(([t, v]) => `${t}=${v}`).join(",");
+
+function setEntry(value: string, token: string, v: string): string {
+  const items = entries(value);
+  const at = items.findIndex(([t]) => t === token);
+  if (at >= 0) items[at] = [token, v];
+  else items.push([token, v]);
+  return joinEntries(items);
+}
+
+const entryOf = (value: string, token: string) => BigInt(entries(value).find(([t]) => t === token)?.[1] ?? "0");
+
+// Everything the owner can change, plus the balances that fund movements touch.
+export async function readSnapshot(hre: HardhatRuntimeEnvironment, pool: Pool): Promise<Snapshot> {
+  const address = await pool.getAddress();
+  const [balance, prizePool, escrowedFees, totalClaimable] = await Promise.all([
+    hre.ethers.provider.getBalance(address), pool.prizePool(), pool.escrowedFees(), pool.totalClaimable(),
+  ]);
+  const tokens = await Promise.all((await pool.getTokens()).map(async (token: string) => {
+    const [ledger, held] = await Promise.all([pool.ledgers(token), erc20(pool, token).balanceOf(address)]);
+    return { token, ledger, held: held as bigint };
+  }));
+  const byToken = (value: (t: (typeof tokens)[number]) => bigint) => joinEntries(tokens.map((t) => [t.token, value(t).toString()]));
+  return {
+    owner: await pool.owner(),
+    feeSink: await pool.feeSink(),
+    entryFeeWei: (await pool.entryFeeWei()).toString(),
+    signers: (await pool.getSigners()).join(","),
+    signerThreshold: (await pool.signerThreshold()).toString(),
+    signerGracePeriod: (await pool.signerGracePeriod()).toString(),
+    prizePoolBps: (await pool.prizePoolBps()).toString(),
+    payoutBps: (await pool.getPayoutSchedule()).join(","),
+    runExpiry: (await pool.runExpiry()).toString(),
+    refundBps: (await pool.refundBps()).toString(),
+    referralBps: (await pool.referralBps()).toString(),
+    dailyAttemptLimit: (await pool.dailyAttemptLimit()).toString(),
+    leaderboardSize: (await pool.LEADERBOARD_SIZE()).toString(),
+    paused: String(await pool.paused()),
+    guardian: await pool.guardian(),
+    badges: await pool.badges(),
+    adminDelay: (await pool.adminDelay()).toString(),
+    // ids in contract order; see dropId
+    pendingChanges: (await pool.getPendingChanges()).map((c: any) => hre.ethers.keccak256(c.data)).join(","),
+    currentSeason: (await pool.currentSeason()).toString(),
+    currentDay: (await pool.currentDay()).toString(),
+    balance: balance.toString(),
+    prizePool: prizePool.toString(),
+    escrowedFees: escrowedFees.toString(),
+    totalClaimable: totalClaimable.toString(),
+    // what withdraw() may take
+    freeBalance: (balance - prizePool - totalClaimable - escrowedFees).toString(),
+    tokenFees: byToken((t) => t.ledger.entryFee),
+    tokenBalances: byToken((t) => t.held),
+    tokenPrizePools: byToken((t) => t.ledger.prizePool),
+    tokenEscrowedFees: byToken((t) => t.ledger.escrowed),
+    tokenTotalClaimable: byToken((t) => t.ledger.totalClaimable),
+    // what withdrawToken() may take
+    tokenFreeBalances: byToken((t) => t.held - t.ledger.prizePool - t.ledger.totalClaimable - t.ledger.escrowed),
+  };
+}
+
+export function diff(before: Snapshot, after: Snapshot): Change[] {
+  return Object.keys(after)
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({ field, from: before[field], to: after[field] }));
+}
+
+// JSON-RPC nodes put the decoded error on `revert`; the in-process Hardhat
+// network only hands back the raw revert data.
+function revertReason(e: any, pool: Pool): string {
+  let revert = e?.revert;
+  const data = e?.data ?? e?.error?.data;
+  if (!revert && typeof data === "string") {
+    try {
+      revert = pool.interface.parseError(data);
+    } catch {}
+  }
+  if (revert) return `${revert.name}(${revert.args.map(String).join(", ")})`;
+  return e?.shortMessage ?? e?.message ?? String(e);
+}
+
+async function confirm(action: string, changes: Change[]): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>((resolve) => rl.question(`${action} changes ${changes.map((c) => c.field).join(", ")}. Type "yes" to send: `, resolve));
+  rl.close();
+  return answer.trim() === "yes";
+}
+
+function print(result: AdminResult, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(result));
+    return;
+  }
+  console.log(`${result.action} on ${result.network} (pool ${result.pool})`);
+  if (!result.changes.length) console.log("  no state changes");
+  for (const c of result.changes) console.log(`  ${c.field}: ${c.from} -> ${c.to}`);
+  if (result.queued) console.log(`  queued as ${result.queued.id}; apply it with \`snake:execute --id ${result.queued.id}\` once the admin delay has passed`);
+  console.log(result.dryRun ? "dry run: simulated, nothing sent" : `tx ${result.txHash}`);
+}
+
+type WriteSpec = {
+  // Funds leave the pool or control changes hands
+  guarded?: boolean;
+  // Goes through queueChange while the pool has an admin delay
+  timelocked?: boolean;
+  // The snapshot the call should leave behind
+  expect: (before: Snapshot, pool: Pool) => Promise<Snapshot> | Snapshot;
+  send: (pool: Pool) => { method: string, args: unknown[] };
+};
+
+// Mirrors the contract's swap-and-pop removal from its signer and pending lists.
+function dropId(value: string, id: string): string {
+  const items = list(value);
+  const i = items.indexOf(id);
+  if (i < 0) return value;
+  items[i] = items[items.length - 1];
+  return items.slice(0, -1).join(",");
+}
+
+// What each timelocked setter does to the snapshot.
+const SETTERS: Record<string, (b: Snapshot, args: any[], pool: Pool) => Snapshot | Promise<Snapshot>> = {
+  setEntryFee: (b, [wei]) => ({ ...b, entryFeeWei: String(wei) }),
+  setTokenEntryFee: async (b, [token, fee], pool) => {
+    const after: Snapshot = { ...b, tokenFees: setEntry(b.tokenFees, token, String(fee)) };
+    if (entries(b.tokenFees).some(([t]) => t === token)) return after;
+    // A new token's ledger starts empty; whatever the pool already holds is free.
+    const held = String(await erc20(pool, token).balanceOf(await pool.getAddress()));
+    for (const field of ["tokenPrizePools", "tokenEscrowedFees", "tokenTotalClaimable"]) after[field] = setEntry(b[field], token, "0");
+    return { ...after, tokenBalances: setEntry(b.tokenBalances, token, held), tokenFreeBalances: setEntry(b.tokenFreeBalances, token, held) };
+  },
+  setFeeSink: (b, [sink]) => ({ ...b, feeSink: sink }),
+  addSigner: (b, [who]) => ({ ...b, signers: [...list(b.signers), who].join(",") }),
+  removeSigner: (b, [who]) => ({ ...b, signers: dropId(b.signers, who) }),
+  setSignerThreshold: (b, [n]) => ({ ...b, signerThreshold: String(n) }),
+  setSignerGracePeriod: (b, [sec]) => ({ ...b, signerGracePeriod: String(sec) }),
+  setPrizeConfig: (b, [poolBps, schedule]) => ({ ...b, prizePoolBps: String(poolBps), payoutBps: schedule.join(",") }),
+  setRefundPolicy: (b, [expiry, bps]) => ({ ...b, runExpiry: String(expiry), refundBps: String(bps) }),
+  setReferralBps: (b, [bps]) => ({ ...b, referralBps: String(bps) }),
+  setBadges: (b, [badges]) => ({ ...b, badges }),
+  setAdminDelay: (b, [sec]) => ({ ...b, adminDelay: String(sec) }),
+};
+
+function setter(method: string, args: unknown[]): WriteSpec {
+  return { timelocked: true, expect: (b, pool) => SETTERS[method](b, args, pool), send: () => ({ method, args }) };
+}
+
+// Simulate, then (unless dry-running) confirm, send and report what changed.
+async function runWrite(hre: HardhatRuntimeEnvironment, action: string, args: WriteArgs, spec: WriteSpec): Promise<AdminResult> {
+  const pool = await openPool(hre, args.pool);
+  const poolAddress = await pool.getAddress();
+  const before = await readSnapshot(hre, pool);
+  let { method, args: callArgs } = spec.send(pool);
+  let expect = spec.expect;
+  const result: AdminResult = { action, network: hre.network.name, pool: poolAddress, dryRun: args.dryRun, changes: [] };
+  if (spec.timelocked && before.adminDelay !== "0") {
+    // Check the change itself by calling it as the pool would on execution.
+    const { data } = await pool.getFunction(method).populateTransaction(...callArgs);
+    try {
+      await hre.ethers.provider.call({ from: poolAddress, to: poolAddress, data });
+    } catch (e) {
+      throw new HardhatPluginError("snake", `${action} would revert: ${revertReason(e, pool)}`);
+    }
+    const id = hre.ethers.keccak256(data);
+    result.queued = { id, data };
+    [method, callArgs] = ["queueChange", [data]];
+    expect = (b) => ({ ...b, pendingChanges: [...list(b.pendingChanges), id].join(",") });
+  }
+  const fn = pool.getFunction(method);
+  try {
+    await fn.staticCall(...callArgs);
+  } catch (e) {
+    throw new HardhatPluginError("snake", `${action} would revert: ${revertReason(e, pool)}`);
+  }
+  const expected = diff(before, await expect(before, pool));
+  if (args.dryRun) {
+    print({ ...result, changes: expected }, args.json);
+    return { ...result, changes: expected };
+  }
+  if (spec.guarded && !args.yes && !(await confirm(action, expected))) {
+    throw new HardhatPluginError("snake", `${action} not confirmed; pass --yes to send it without a prompt`);
+  }
+  const tx = await fn.send(...callArgs);
+  await tx.wait();
+  const done = { ...result, changes: diff(before, await readSnapshot(hre, pool)), txHash: tx.hash };
+  print(done, args.json);
+  return done;
+}
+
+function writeTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("pool", "SnakeLeaderboard address", process.env.POOL_ADDRESS)
+    .addFlag("dryRun", "Simulate the call and print the changes without sending it")
+    .addFlag("json", "Print the result as one line of JSON")
+    .addFlag("yes", "Skip the confirmation for fund-moving and ownership calls");
+}
+
+function need<T>(value: T | undefined, what: string): T {
+  if (value === undefined || value === null || value === "") throw new HardhatPluginError("snake", `Missing ${what}`);
+  return value;
+}
+
+function address(hre: HardhatRuntimeEnvironment, value: string | undefined, what: string): string {
+  const v = need(value, what);
+  if (!hre.ethers.isAddress(v)) throw new HardhatPluginError("snake", `Bad ${what} ${v}`);
+  return hre.ethers.getAddress(v);
+}
+
+task("snake:status", "Print the pool's settings, balances and live season")
+  .addOptionalParam("pool", "SnakeLeaderboard address", process.env.POOL_ADDRESS)
+  .addFlag("json", "Print the snapshot as one line of JSON")
+  .setAction(async (args: Common, hre) => {
+    const pool = await openPool(hre, args.pool);
+    const snapshot = await readSnapshot(hre, pool);
+    if (args.json) console.log(JSON.stringify(snapshot));
+    else for (const [field, value] of Object.entries(snapshot)) console.log(`${field}: ${value}`);
+    return snapshot;
+  });
+
+task("snake:leaderboard", "Print a board: a mode's per-run or player board, or a daily challenge board")
+  .addOptionalParam("pool", "SnakeLeaderboard address", process.env.POOL_ADDRESS)
+  .addOptionalParam("mode", "Game mode id", 0, types.int)
+  .addOptionalParam("season", "Archived season (default: live season)", undefined, types.int)
+  .addOptionalParam("day", "Daily challenge day instead of a mode board", undefined, types.int)
+  .addFlag("players", "Each player's best run instead of every run")
+  .addFlag("json", "Print the rows as one line of JSON")
+  .setAction(async (args: Common & { mode: number, season?: number, day?: number, players: boolean }, hre) => {
+    const pool = await openPool(hre, args.pool);
+    let rows;
+    if (args.day !== undefined) rows = await pool.getDailyLeaderboard(args.day);
+    else if (args.season !== undefined) {
+      rows = args.players ? await pool.getSeasonPlayerLeaderboard(args.season, args.mode) : await pool.getSeasonLeaderboard(args.season, args.mode);
+    } else rows = args.players ? await pool.getPlayerLeaderboard(args.mode) : await pool.getLeaderboard(args.mode);
+    const out = rows.map((r: any, i: number) => ({
+      rank: i + 1,
+      player: r.player,
+      score: r.score.toString(),
+      sessionId: r.sessionId,
+      updatedAt: Number(r.updatedAt),
+    }));
+    if (args.json) console.log(JSON.stringify(out));
+    else for (const r of out) console.log(`${r.rank}. ${r.player} — ${r.score} pts — session ${r.sessionId} @ ${new Date(r.updatedAt * 1000).toISOString()}`);
+    return out;
+  });
+
+writeTask("snake:set-fee", "Set the entry fee")
+  .addParam("fee", "Entry fee in ETH")
+  .setAction(async (args: WriteArgs & { fee: string }, hre) => {
+    return runWrite(hre, "snake:set-fee", args, setter("setEntryFee", [hre.ethers.parseEther(args.fee)]));
+  });
+
+writeTask("snake:set-token-fee", "Accept an ERC-20 token for entry fees at its own fee (0 stops accepting it)")
+  .addParam("token", "Token address")
+  .addParam("fee", "Entry fee in token units, e.g. 2 for 2 USDC")
+  .setAction(async (args: WriteArgs & { token: string, fee: string }, hre) => {
+    const token = address(hre, args.token, "--token");
+    const decimals = await erc20(await openPool(hre, args.pool), token).decimals();
+    return runWrite(hre, "snake:set-token-fee", args, setter("setTokenEntryFee", [token, hre.ethers.parseUnits(args.fee, decimals)]));
+  });
+
+writeTask("snake:set-signer", "Change the attestation signer set: pass exactly one of --add, --remove, --threshold, --grace")
+  .addOptionalParam("add", "Signer to add")
+  .addOptionalParam("remove", "Signer to remove; it stays valid for the grace period")
+  .addOptionalParam("threshold", "Signatures required per score", undefined, types.int)
+  .addOptionalParam("grace", "Seconds a removed signer stays valid", undefined, types.int)
+  .setAction(async (args: WriteArgs & { add?: string, remove?: string, threshold?: number, grace?: number }, hre) => {
+    const given = [args.add, args.remove, args.threshold, args.grace].filter((v) => v !== undefined);
+    if (given.length !== 1) throw new HardhatPluginError("snake", "Pass exactly one of --add, --remove, --threshold, --grace");
+    let spec: WriteSpec;
+    if (args.add !== undefined) spec = setter("addSigner", [address(hre, args.add, "--add")]);
+    else if (args.remove !== undefined) spec = setter("removeSigner", [address(hre, args.remove, "--remove")]);
+    else if (args.threshold !== undefined) spec = setter("setSignerThreshold", [args.threshold]);
+    else spec = setter("setSignerGracePeriod", [args.grace]);
+    return runWrite(hre, "snake:set-signer", args, spec);
+  });
+
+writeTask("snake:set-sink", "Set the address that receives unawarded prize pool remainders")
+  .addParam("sink", "Fee sink address (0x0 sends remainders to the owner-withdrawable balance)")
+  .setAction(async (args: WriteArgs & { sink: string }, hre) => {
+    return runWrite(hre, "snake:set-sink", args, setter("setFeeSink", [address(hre, args.sink, "--sink")]));
+  });
+
+writeTask("snake:set-prize", "Set the prize pool share of entry fees and the payout per rank")
+  .addParam("poolBps", "Share of each entry fee added to the prize pool, in bps")
+  .addParam("payoutBps", "Comma-separated bps of the pool per rank, rank 1 first")
+  .setAction(async (args: WriteArgs & { poolBps: string, payoutBps: string }, hre) => {
+    const schedule = args.payoutBps.split(",").map((v) => Number(v.trim()));
+    return runWrite(hre, "snake:set-prize", args, setter("setPrizeConfig", [Number(args.poolBps), schedule]));
+  });
+
+writeTask("snake:set-refund", "Set when unscored runs become refundable and how much they get back")
+  .addParam("expiry", "Seconds after startRun before a refund (0 disables)", undefined, types.int)
+  .addParam("bps", "Share of the entry fee refunded, in bps", undefined, types.int)
+  .setAction(async (args: WriteArgs & { expiry: number, bps: number }, hre) => {
+    return runWrite(hre, "snake:set-refund", args, setter("setRefundPolicy", [args.expiry, args.bps]));
+  });
+
+writeTask("snake:set-referral", "Set the share of each scored entry fee credited to the player's referrer")
+  .addParam("bps", "Referral share in bps; with the prize pool share at most 10000", undefined, types.int)
+  .setAction(async (args: WriteArgs & { bps: number }, hre) => {
+    return runWrite(hre, "snake:set-referral", args, setter("setReferralBps", [args.bps]));
+  });
+
+writeTask("snake:set-daily-limit", "Set the paid daily challenge attempts per player and day")
+  .addParam("limit", "Attempts per day (0 turns the daily challenge off)", undefined, types.int)
+  .setAction(async (args: WriteArgs & { limit: number }, hre) => {
+    return runWrite(hre, "snake:set-daily-limit", args, {
+      expect: (b) => ({ ...b, dailyAttemptLimit: String(args.limit) }),
+      send: () => ({ method: "setDailyAttemptLimit", args: [args.limit] }),
+    });
+  });
+
+writeTask("snake:withdraw", "Withdraw fees that are neither escrowed, in the prize pool nor claimable")
+  .addParam("to", "Recipient")
+  .addParam("amount", "Amount in ETH (or token units with --token), or \"all\" for the whole free balance")
+  .addOptionalParam("token", "Withdraw this entry fee token instead of ETH")
+  .setAction(async (args: WriteArgs & { to: string, amount: string, token?: string }, hre) => {
+    const to = address(hre, args.to, "--to");
+    const pool = await openPool(hre, args.pool);
+    const snapshot = await readSnapshot(hre, pool);
+    if (args.token !== undefined) {
+      const token = address(hre, args.token, "--token");
+      const decimals = await erc20(pool, token).decimals();
+      const amount = args.amount === "all" ? entryOf(snapshot.tokenFreeBalances, token) : hre.ethers.parseUnits(args.amount, decimals);
+      return runWrite(hre, "snake:withdraw", args, {
+        guarded: true,
+        expect: (b) => ({
+          ...b,
+          tokenBalances: setEntry(b.tokenBalances, token, (entryOf(b.tokenBalances, token) - amount).toString()),
+          tokenFreeBalances: setEntry(b.tokenFreeBalances, token, (entryOf(b.tokenFreeBalances, token) - amount).toString()),
+        }),
+        send: () => ({ method: "withdrawToken", args: [token, to, amount] }),
+      });
+    }
+    const wei = args.amount === "all" ? BigInt(snapshot.freeBalance) : hre.ethers.parseEther(args.amount);
+    return runWrite(hre, "snake:withdraw", args, {
+      guarded: true,
+      expect: (b) => ({ ...b, balance: (BigInt(b.balance) - wei).toString(), freeBalance: (BigInt(b.freeBalance) - wei).toString() }),
+      send: () => ({ method: "withdraw", args: [to, wei] }),
+    });
+  });
+
+writeTask("snake:close-season", "Close the live season, settle its prize pool and open the next one")
+  .setAction(async (args: WriteArgs, hre) => {
+    return runWrite(hre, "snake:close-season", args, {
+      guarded: true,
+      // Mirrors Payments.settleAll/_settle, for ETH and each token: winners' shares
+      // always become claimable, the rest goes to the fee sink if there is
+      // one, else stays withdrawable.
+      expect: async (b, pool) => {
+        const schedule = list(b.payoutBps).map(BigInt);
+        const winners = Math.min(schedule.length, (await pool.getLeaderboard(0)).length);
+        const hasSink = b.feeSink !== hre.ethers.ZeroAddress;
+        const settle = (prize: bigint) => {
+          let paid = 0n;
+          for (let i = 0; i < winners; i++) paid += (prize * schedule[i]) / BPS;
+          return { claimable: hasSink ? prize : paid, free: hasSink ? 0n : prize - paid };
+        };
+        const eth = settle(BigInt(b.prizePool));
+        const after: Snapshot = {
+          ...b,
+          currentSeason: String(Number(b.currentSeason) + 1),
+          prizePool: "0",
+          totalClaimable: (BigInt(b.totalClaimable) + eth.claimable).toString(),
+          freeBalance: (BigInt(b.freeBalance) + eth.free).toString(),
+        };
+        for (const [token, prize] of entries(b.tokenPrizePools)) {
+          const settled = settle(BigInt(prize));
+          after.tokenPrizePools = setEntry(after.tokenPrizePools, token, "0");
+          after.tokenTotalClaimable = setEntry(after.tokenTotalClaimable, token, (entryOf(b.tokenTotalClaimable, token) + settled.claimable).toString());
+          after.tokenFreeBalances = setEntry(after.tokenFreeBalances, token, (entryOf(b.tokenFreeBalances, token) + settled.free).toString());
+        }
+        return after;
+      },
+      send: () => ({ method: "closeSeason", args: [] }),
+    });
+  });
+
+writeTask("snake:transfer-owner", "Hand the contract to a new owner; only they can undo it")
+  .addParam("to", "New owner")
+  .setAction(async (args: WriteArgs & { to: string }, hre) => {
+    const to = address(hre, args.to, "--to");
+    return runWrite(hre, "snake:transfer-owner", args, {
+      guarded: true,
+      expect: (b) => ({ ...b, owner: to }),
+      send: () => ({ method: "transferOwnership", args: [to] }),
+    });
+  });
+
+writeTask("snake:set-admin-delay", "Set the timelock on fee, prize, refund, referral, signer and badge changes (0 applies them at once)")
+  .addParam("delay", "Seconds between queueing and executing a change", undefined, types.int)
+  .setAction(async (args: WriteArgs & { delay: number }, hre) => {
+    return runWrite(hre, "snake:set-admin-delay", args, setter("setAdminDelay", [args.delay]));
+  });
+
+type Pending = { id: string, call: string, eta: number, ready: boolean };
+
+async function readPending(hre: HardhatRuntimeEnvironment, pool: Pool): Promise<(Pending & { method: string, args: unknown[] })[]> {
+  const now = (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+  return (await pool.getPendingChanges()).map((c: any) => {
+    const call = pool.interface.parseTransaction({ data: c.data })!;
+    const args = call.args.toArray();
+    return {
+      id: hre.ethers.keccak256(c.data),
+      method: call.name,
+      args,
+      call: `${call.name}(${args.map(String).join(", ")})`,
+      eta: Number(c.eta),
+      ready: now >= Number(c.eta),
+    };
+  });
+}
+
+task("snake:pending", "List setting changes queued behind the admin delay")
+  .addOptionalParam("pool", "SnakeLeaderboard address", process.env.POOL_ADDRESS)
+  .addFlag("json", "Print the changes as one line of JSON")
+  .setAction(async (args: Common, hre) => {
+    const pool = await openPool(hre, args.pool);
+    const out: Pending[] = (await readPending(hre, pool)).map(({ id, call, eta, ready }) => ({ id, call, eta, ready }));
+    if (args.json) console.log(JSON.stringify(out));
+    else if (!out.length) console.log("no pending changes");
+    else for (const c of out) console.log(`${c.id} ${c.call} ${c.ready ? "ready" : "from"} ${new Date(c.eta * 1000).toISOString()}`);
+    return out;
+  });
+
+async function pendingChange(hre: HardhatRuntimeEnvironment, poolAddress: string | undefined, id: string) {
+  const found = (await readPending(hre, await openPool(hre, poolAddress))).find((c) => c.id === id.toLowerCase());
+  if (!found) throw new HardhatPluginError("snake", `No pending change ${id}`);
+  return found;
+}
+
+writeTask("snake:execute", "Apply a queued change once the admin delay has passed")
+  .addParam("id", "Change id (see snake:pending)")
+  .setAction(async (args: WriteArgs & { id: string }, hre) => {
+    const change = await pendingChange(hre, args.pool, args.id);
+    return runWrite(hre, "snake:execute", args, {
+      expect: (b, pool) => SETTERS[change.method]({ ...b, pendingChanges: dropId(b.pendingChanges, change.id) }, change.args, pool),
+      send: () => ({ method: "executeChange", args: [change.id] }),
+    });
+  });
+
+writeTask("snake:cancel", "Drop a queued change")
+  .addParam("id", "Change id (see snake:pending)")
+  .setAction(async (args: WriteArgs & { id: string }, hre) => {
+    const change = await pendingChange(hre, args.pool, args.id);
+    return runWrite(hre, "snake:cancel", args, {
+      expect: (b) => ({ ...b, pendingChanges: dropId(b.pendingChanges, change.id) }),
+      send: () => ({ method: "cancelChange", args: [change.id] }),
+    });
+  });
+
+writeTask("snake:pause", "Stop new runs and score submissions; the owner or the guardian may pause")
+  .setAction(async (args: WriteArgs, hre) => {
+    return runWrite(hre, "snake:pause", args, {
+      expect: (b) => ({ ...b, paused: "true" }),
+      send: () => ({ method: "pause", args: [] }),
+    });
+  });
+
+writeTask("snake:unpause", "Let runs and score submissions resume")
+  .setAction(async (args: WriteArgs, hre) => {
+    return runWrite(hre, "snake:unpause", args, {
+      expect: (b) => ({ ...b, paused: "false" }),
+      send: () => ({ method: "unpause", args: [] }),
+    });
+  });
+
+writeTask("snake:set-guardian", "Set the address that may pause the pool (0x0 for none)")
+  .addParam("guardian", "Guardian address")
+  .setAction(async (args: WriteArgs & { guardian: string }, hre) => {
+    const guardian = address(hre, args.guardian, "--guardian");
+    return runWrite(hre, "snake:set-guardian", args, {
+      expect: (b) => ({ ...b, guardian }),
+      send: () => ({ method: "setGuardian", args: [guardian] }),
+    });
+  });
+
+writeTask("snake:set-badges", "Set the badge contract the pool reports classic runs to (0x0 for none)")
+  .addParam("badges", "SnakeBadges address; its minter must be the pool")
+  .setAction(async (args: WriteArgs & { badges: string }, hre) => {
+    const badges = address(hre, args.badges, "--badges");
+    return runWrite(hre, "snake:set-badges", args, setter("setBadges", [badges]));
+  });
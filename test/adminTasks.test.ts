@@ -0,0 +1,257 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { ScorePayload, attestationDomain, signScorePayload } from "../shared/attestation";
+import type { AdminResult, Snapshot } from "../tasks/snake";
+import { poolFactory } from "../scripts/deployments";
+
+describe("admin tasks", () => {
+  const entryFee = ethers.parseEther("0.0005");
+  let contract: any;
+  let pool: string;
+  let signers: any[];
+
+  beforeEach(async () => {
+    signers = await ethers.getSigners();
+    contract = await (await poolFactory(hre)).deploy(signers[1].address, signers[2].address, entryFee, 25);
+    pool = await contract.getAddress();
+  });
+
+  // Run a task with --json and hand back its return value and what it printed.
+  async function run<T>(name: string, args: Record<string, unknown> = {}): Promise<{ result: T, out: string }> {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...parts: unknown[]) => { lines.push(parts.join(" ")); };
+    try {
+      const result = await hre.run(name, { pool, json: true, ...args });
+      return { result, out: lines.join("\n") };
+    } finally {
+      console.log = log;
+    }
+  }
+
+  // The message a task fails with.
+  async function failure(task: Promise<unknown>): Promise<string> {
+    try {
+      await task;
+    } catch (e: any) {
+      return e.message;
+    }
+    throw new Error("task succeeded");
+  }
+
+  const status = async () => (await run<Snapshot>("snake:status")).result;
+
+  async function scoredRun(player: any, score: bigint) {
+    const sessionId = ethers.keccak256(ethers.randomBytes(32));
+    await contract.connect(player).startRun(sessionId, { value: entryFee });
+    const payload: ScorePayload = {
+      player: player.address,
+      sessionId,
+      mode: 0,
+      day: 0,
+      score,
+      runHash: ethers.keccak256(ethers.randomBytes(32)),
+      timeDigest: ethers.keccak256(ethers.randomBytes(32)),
+      deadline: BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 3600n,
+    };
+    const sig = await signScorePayload(signers[2], attestationDomain(31337, pool), payload);
+    await contract.connect(player).submitScore(payload, [sig]);
+  }
+
+  it("prints the pool's status as JSON", async () => {
+    const { result, out } = await run<Snapshot>("snake:status");
+    expect(JSON.parse(out)).to.deep.equal(result);
+    expect(result).to.include({
+      owner: signers[0].address,
+      feeSink: signers[1].address,
+      signers: signers[2].address,
+      entryFeeWei: entryFee.toString(),
+      leaderboardSize: "25",
+      currentSeason: "1",
+    });
+  });
+
+  it("dry-runs a change without sending it, then applies it", async () => {
+    const dry = await run<AdminResult>("snake:set-fee", { fee: "0.001", dryRun: true });
+    expect(dry.result).to.deep.include({ dryRun: true, changes: [{ field: "entryFeeWei", from: entryFee.toString(), to: ethers.parseEther("0.001").toString() }] });
+    expect(dry.result.txHash).to.equal(undefined);
+    expect(await contract.entryFeeWei()).to.equal(entryFee);
+
+    const { result, out } = await run<AdminResult>("snake:set-fee", { fee: "0.001" });
+    expect(JSON.parse(out)).to.deep.equal(result);
+    expect(result.changes).to.deep.equal(dry.result.changes);
+    expect(result.txHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(await contract.entryFeeWei()).to.equal(ethers.parseEther("0.001"));
+  });
+
+  it("predicts exactly what each owner call changes", async () => {
+    await scoredRun(signers[3], 10n);
+    await scoredRun(signers[4], 20n);
+    const cases: [string, Record<string, unknown>][] = [
+      ["snake:set-signer", { add: signers[5].address }],
+      ["snake:set-signer", { threshold: 2 }],
+      ["snake:set-signer", { grace: 600 }],
+      ["snake:set-signer", { threshold: 1 }],
+      ["snake:set-signer", { remove: signers[2].address }],
+      ["snake:set-sink", { sink: signers[6].address }],
+      ["snake:set-prize", { poolBps: "5000", payoutBps: "6000, 3000" }],
+      ["snake:set-refund", { expiry: 3600, bps: 9000 }],
+      ["snake:set-daily-limit", { limit: 5 }],
+      ["snake:set-referral", { bps: 1000 }],
+      ["snake:set-badges", { badges: signers[7].address }],
+    ];
+    for (const [name, args] of cases) {
+      const dry = await run<AdminResult>(name, { ...args, dryRun: true });
+      const sent = await run<AdminResult>(name, args);
+      expect(sent.result.changes, name).to.deep.equal(dry.result.changes);
+      expect(sent.result.changes, name).to.not.be.empty;
+    }
+    const after = await status();
+    expect(after).to.include({ signers: signers[5].address, signerGracePeriod: "600", feeSink: signers[6].address, payoutBps: "6000,3000", dailyAttemptLimit: "5", referralBps: "1000" });
+
+    // Settlement with and without a fee sink.
+    for (const sink of [signers[6].address, ethers.ZeroAddress]) {
+      await run("snake:set-sink", { sink });
+      await scoredRun(signers[3], 30n);
+      await scoredRun(signers[4], 40n);
+      const dry = await run<AdminResult>("snake:close-season", { dryRun: true });
+      const sent = await run<AdminResult>("snake:close-season", { yes: true });
+      expect(sent.result.changes).to.deep.equal(dry.result.changes);
+      expect(sent.result.changes.map((c) => c.field)).to.include.members(["currentSeason", "prizePool", "totalClaimable"]);
+    }
+  });
+
+  it("accepts, settles and withdraws entry fee tokens", async () => {
+    const token = await ethers.deployContract("MockERC20Permit", ["USD Coin", "USDC"]);
+    const tokenAddress = await token.getAddress();
+    await token.mint(pool, 5n); // sent straight to the pool, so free from the start
+    const dry = await run<AdminResult>("snake:set-token-fee", { token: tokenAddress, fee: "2", dryRun: true });
+    const sent = await run<AdminResult>("snake:set-token-fee", { token: tokenAddress, fee: "2" });
+    expect(sent.result.changes).to.deep.equal(dry.result.changes);
+    expect(await status()).to.include({ tokenFees: `${tokenAddress}=2000000`, tokenBalances: `${tokenAddress}=5`, tokenFreeBalances: `${tokenAddress}=5` });
+
+    await contract.setPrizeConfig(5000, [10000]);
+    await token.mint(signers[3].address, 2_000_000n);
+    await token.connect(signers[3]).approve(pool, 2_000_000n);
+    const sessionId = ethers.keccak256(ethers.randomBytes(32));
+    await contract.connect(signers[3]).startRunWithToken(sessionId, 0, tokenAddress, { deadline: 0, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash });
+    expect((await status()).tokenEscrowedFees).to.equal(`${tokenAddress}=2000000`);
+    const payload: ScorePayload = {
+      player: signers[3].address,
+      sessionId,
+      mode: 0,
+      day: 0,
+      score: 10n,
+      runHash: ethers.ZeroHash,
+      timeDigest: ethers.ZeroHash,
+      deadline: BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 3600n,
+    };
+    await contract.connect(signers[3]).submitScore(payload, [await signScorePayload(signers[2], attestationDomain(31337, pool), payload)]);
+
+    const close = await run<AdminResult>("snake:close-season", { dryRun: true });
+    expect((await run<AdminResult>("snake:close-season", { yes: true })).result.changes).to.deep.equal(close.result.changes);
+    expect(await status()).to.include({ tokenPrizePools: `${tokenAddress}=0`, tokenTotalClaimable: `${tokenAddress}=1000000`, tokenFreeBalances: `${tokenAddress}=1000005` });
+
+    const withdraw = await run<AdminResult>("snake:withdraw", { to: signers[5].address, amount: "all", token: tokenAddress, dryRun: true });
+    expect(withdraw.result.changes.map((c) => c.to)).to.deep.equal([`${tokenAddress}=1000000`, `${tokenAddress}=0`]);
+    expect((await run<AdminResult>("snake:withdraw", { to: signers[5].address, amount: "all", token: tokenAddress, yes: true })).result.changes)
+      .to.deep.equal(withdraw.result.changes);
+    expect(await token.balanceOf(signers[5].address)).to.equal(1_000_005n);
+  });
+
+  it("refuses calls the contract would reject", async () => {
+    expect(await failure(run("snake:set-signer", { threshold: 2 }))).to.include("snake:set-signer would revert: InvalidThreshold()");
+    expect(await failure(run("snake:set-signer", { threshold: 1, grace: 5 }))).to.include("exactly one of");
+    expect(await failure(run("snake:withdraw", { to: signers[5].address, amount: "1", yes: true }))).to.include("Error(exceeds free balance)");
+    expect(await failure(run("snake:set-sink", { sink: "0x1234" }))).to.include("Bad --sink 0x1234");
+    expect(await failure(run("snake:status", { pool: undefined }))).to.include("Pass --pool or set POOL_ADDRESS");
+  });
+
+  it("asks before moving funds or ownership", async () => {
+    await contract.setPrizeConfig(0, []);
+    await scoredRun(signers[3], 10n);
+    const before = await status();
+    expect(before.freeBalance).to.equal(entryFee.toString());
+
+    expect(await failure(run("snake:withdraw", { to: signers[5].address, amount: "all" }))).to.include("snake:withdraw not confirmed; pass --yes");
+    expect(await failure(run("snake:close-season", {}))).to.include("not confirmed");
+    expect(await failure(run("snake:transfer-owner", { to: signers[5].address }))).to.include("not confirmed");
+    expect(await status()).to.deep.equal(before);
+
+    // A dry run needs no confirmation.
+    expect((await run<AdminResult>("snake:withdraw", { to: signers[5].address, amount: "all", dryRun: true })).result.changes)
+      .to.deep.equal([{ field: "balance", from: entryFee.toString(), to: "0" }, { field: "freeBalance", from: entryFee.toString(), to: "0" }]);
+
+    const balance = await ethers.provider.getBalance(signers[5].address);
+    await run("snake:withdraw", { to: signers[5].address, amount: "all", yes: true });
+    expect(await ethers.provider.getBalance(signers[5].address)).to.equal(balance + entryFee);
+
+    const { result } = await run<AdminResult>("snake:transfer-owner", { to: signers[5].address, yes: true });
+    expect(result.changes).to.deep.equal([{ field: "owner", from: signers[0].address, to: signers[5].address }]);
+    expect(await failure(run("snake:set-fee", { fee: "0.002" }))).to.include(`OwnableUnauthorizedAccount(${signers[0].address})`);
+  });
+
+  it("queues setting changes behind the admin delay", async () => {
+    await run("snake:set-admin-delay", { delay: 3600 });
+    const before = await status();
+    const queued = await run<AdminResult>("snake:set-fee", { fee: "0.001" });
+    expect(queued.result.queued!.id).to.equal(ethers.keccak256(queued.result.queued!.data));
+    expect(queued.result.changes).to.deep.equal([{ field: "pendingChanges", from: "", to: queued.result.queued!.id }]);
+    expect(await contract.entryFeeWei()).to.equal(entryFee);
+    // Changes that would fail are refused before they are queued.
+    expect(await failure(run("snake:set-signer", { threshold: 2 }))).to.include("would revert: InvalidThreshold()");
+    const signer = await run<AdminResult>("snake:set-signer", { add: signers[5].address });
+
+    const pending = (await run<any[]>("snake:pending")).result;
+    expect(pending.map((c) => [c.id, c.call, c.ready])).to.deep.equal([
+      [queued.result.queued!.id, `setEntryFee(${ethers.parseEther("0.001")})`, false],
+      [signer.result.queued!.id, `addSigner(${signers[5].address})`, false],
+    ]);
+    expect(await failure(run("snake:execute", { id: queued.result.queued!.id }))).to.include("would revert: ChangeNotReady()");
+
+    // Wait out the delay on a snapshot, so later files' attestation deadlines
+    // (wall clock) stay ahead of the chain.
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await ethers.provider.send("evm_increaseTime", [3600]);
+    await ethers.provider.send("evm_mine", []);
+    const dry = await run<AdminResult>("snake:execute", { id: queued.result.queued!.id, dryRun: true });
+    const done = await run<AdminResult>("snake:execute", { id: queued.result.queued!.id });
+    await ethers.provider.send("evm_revert", [snapshot]);
+    expect(done.result.changes).to.deep.equal(dry.result.changes);
+    expect(done.result.changes.map((c) => c.field)).to.have.members(["entryFeeWei", "pendingChanges"]);
+    expect(done.result.changes.find((c) => c.field === "entryFeeWei")!.to).to.equal(ethers.parseEther("0.001").toString());
+
+    const prize = await run<AdminResult>("snake:set-prize", { poolBps: "5000", payoutBps: "6000,4000" });
+    expect(prize.result.changes.map((c) => c.field)).to.deep.equal(["pendingChanges"]);
+    expect(await contract.prizePoolBps()).to.equal(0);
+
+    await run("snake:cancel", { id: queued.result.queued!.id });
+    await run("snake:cancel", { id: signer.result.queued!.id });
+    await run("snake:cancel", { id: prize.result.queued!.id });
+    expect(await status()).to.deep.include({ signers: before.signers, pendingChanges: "" });
+    expect(await failure(run("snake:cancel", { id: signer.result.queued!.id }))).to.include("No pending change");
+  });
+
+  it("pauses and unpauses the pool", async () => {
+    const { result } = await run<AdminResult>("snake:set-guardian", { guardian: signers[5].address });
+    expect(result.changes).to.deep.equal([{ field: "guardian", from: ethers.ZeroAddress, to: signers[5].address }]);
+    expect((await run<AdminResult>("snake:pause", {})).result.changes).to.deep.equal([{ field: "paused", from: "false", to: "true" }]);
+    expect(await failure(run("snake:pause", {}))).to.include("would revert: EnforcedPause()");
+    await run("snake:unpause", {});
+    expect(await contract.paused()).to.equal(false);
+  });
+
+  it("prints boards", async () => {
+    await scoredRun(signers[3], 10n);
+    await scoredRun(signers[3], 30n);
+    await scoredRun(signers[4], 20n);
+    const runs = (await run<any[]>("snake:leaderboard")).result;
+    expect(runs.map((r) => [r.rank, r.player, r.score])).to.deep.equal([[1, signers[3].address, "30"], [2, signers[4].address, "20"], [3, signers[3].address, "10"]]);
+    const players = await run<any[]>("snake:leaderboard", { players: true });
+    expect(JSON.parse(players.out)).to.have.length(2);
+
+    await contract.closeSeason();
+    expect((await run<any[]>("snake:leaderboard")).result).to.have.length(0);
+    expect((await run<any[]>("snake:leaderboard", { season: 1 })).result).to.deep.equal(runs);
+  });
+});
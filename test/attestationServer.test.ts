@@ -0,0 +1,415 @@
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { Wallet, ZeroAddress, ZeroHash, keccak256, toUtf8Bytes, verifyTypedData } from "ethers";
+import { createApp } from "../server/src/app";
+import { loadConfig } from "../server/src/config";
+import { FakeSessionStore, MemoryTranscriptStore } from "../server/src/store";
+import { CachedChainReader, ChainReader, OnChainRun } from "../server/src/chain";
+import { SnakeEngine, replayRun } from "../shared/engine";
+import { modeById } from "../shared/modes";
+import { SCORE_PAYLOAD_TYPES, VOID_RUN_TYPES, attestationDomain } from "../shared/attestation";
+import type { HeartbeatResponse, RunTranscriptResponse, SessionResponse, VerifyRunRejection, VerifyRunResponse, VoidRunResponse } from "../shared/api";
+
+describe("attestation server", () => {
+  const signer = Wallet.createRandom();
+  const cosigner = Wallet.createRandom();
+  const player = Wallet.createRandom();
+  const pool = Wallet.createRandom().address;
+  const domain = attestationDomain(31337, pool);
+  let store: FakeSessionStore;
+  let transcripts: MemoryTranscriptStore;
+  const onChain = new Map<string, OnChainRun>();
+  let chainDelayMs = 0;
+  const chain: ChainReader = {
+    getRun: async (id) => {
+      await sleep(chainDelayMs);
+      return onChain.get(id) ?? { player: ZeroAddress, finalized: false, runHash: ZeroHash, day: 0, token: ZeroAddress };
+    },
+  };
+  let server: Server;
+  let base: string;
+
+  // Runs are played in a few milliseconds here, so the timing checks are off
+  // unless a test asks for them.
+  async function start(env: Record<string, string> = {}) {
+    const config = loadConfig({
+      HB_MIN_BEATS: "3",
+      HB_MIN_MS: "1",
+      HB_MAX_MS: "10000",
+      VERIFY_TIMING: "0",
+      VOID_ADMIN_TOKEN: "op-token",
+      POOL_ADDRESS: pool,
+      CHAIN_ID: "31337",
+      DAILY_SEED_SECRET: "daily-secret",
+      ...env,
+    });
+    const app = await createApp({ config, store, signer, cosigners: [cosigner], transcripts, chain, rateLimits: false });
+    server = app.listen(0);
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeEach(async () => {
+    store = new FakeSessionStore();
+    transcripts = new MemoryTranscriptStore();
+    onChain.clear();
+    chainDelayMs = 0;
+    await start();
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  async function post<T>(path: string, body: unknown, headers: Record<string, string> = {}): Promise<{ status: number, json: T }> {
+    const resp = await fetch(`${base}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+    return { status: resp.status, json: (await resp.json()) as T };
+  }
+
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  // What startRun / startDailyRun leave in runs(sessionId).
+  function pay(sess: SessionResponse, who = player.address) {
+    onChain.set(sess.sessionId, { player: who, finalized: false, runHash: ZeroHash, day: sess.day, token: ZeroAddress });
+  }
+
+  async function playSession(mode?: number) {
+    const { json: sess } = await post<SessionResponse>("/session", { address: player.address, mode });
+    pay(sess);
+    const beats: HeartbeatResponse[] = [];
+    for (let i = 1; i <= 3; i++) {
+      await sleep(5);
+      beats.push((await post<HeartbeatResponse>("/heartbeat", { sessionId: sess.sessionId, i })).json);
+    }
+    const engine = new SnakeEngine(sess.seed, modeById(sess.mode)!.config);
+    engine.turn({ x: 0, y: 1 }, "ArrowDown");
+    while (!engine.over) engine.step();
+    const runHash = keccak256(toUtf8Bytes(JSON.stringify(engine.inputs)));
+    return { sess, beats, engine, runHash };
+  }
+
+  it("attests the canonical score for a replayed run with every server key", async () => {
+    const { sess, beats, engine, runHash } = await playSession();
+    const { status, json } = await post<VerifyRunResponse>("/verify-run", {
+      sessionId: sess.sessionId,
+      address: player.address,
+      score: engine.score,
+      runHash,
+      inputs: engine.inputs,
+      beats,
+    });
+    expect(status).to.equal(200);
+    expect(json.score).to.equal(engine.score);
+
+    expect(json.deadline).to.be.closeTo(Math.floor(Date.now() / 1000) + 3600, 5);
+
+    expect(json.mode).to.equal(0);
+    const payload = { player: player.address, sessionId: sess.sessionId, mode: 0, day: 0, score: json.score, runHash, timeDigest: json.timeDigest, deadline: json.deadline };
+    const recovered = json.attestSigs.map((sig) => verifyTypedData(domain, SCORE_PAYLOAD_TYPES, payload, sig));
+    const expected = [signer.address, cosigner.address].sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+    expect(recovered).to.deep.equal(expected);
+    const otherPool = attestationDomain(31337, Wallet.createRandom().address);
+    expect(verifyTypedData(otherPool, SCORE_PAYLOAD_TYPES, payload, json.attestSigs[0])).to.not.be.oneOf(expected);
+  });
+
+  it("replays and signs runs under the mode fixed at session start", async () => {
+    const { sess, beats, engine, runHash } = await playSession(1);
+    expect(sess.mode).to.equal(1);
+    expect(replayRun(engine.inputs, sess.seed).endReason).to.equal("wall");
+    expect(engine.endReason).to.equal("frame-cap");
+
+    const { json } = await post<VerifyRunResponse>("/verify-run", {
+      sessionId: sess.sessionId,
+      address: player.address,
+      runHash,
+      inputs: engine.inputs,
+      beats,
+    });
+    expect(json.mode).to.equal(1);
+    expect(json.score).to.equal(engine.score);
+    const payload = { player: player.address, sessionId: sess.sessionId, mode: 1, day: 0, score: json.score, runHash, timeDigest: json.timeDigest, deadline: json.deadline };
+    expect(json.attestSigs.map((sig) => verifyTypedData(domain, SCORE_PAYLOAD_TYPES, payload, sig))).to.include(signer.address);
+    expect((await transcripts.get(sess.sessionId))!.mode).to.equal(1);
+
+    expect((await post("/session", { address: player.address, mode: 99 })).status).to.equal(400);
+    expect((await post<SessionResponse>("/session", { address: player.address })).json.mode).to.equal(0);
+  });
+
+  it("hands every player the same seed for the daily challenge", async () => {
+    const day = Math.floor(Date.now() / 86_400_000);
+    const { json: a } = await post<SessionResponse>("/session", { address: player.address, daily: true });
+    const { json: b } = await post<SessionResponse>("/session", { address: Wallet.createRandom().address, daily: true });
+    expect(a.seed).to.equal(b.seed);
+    expect(a.sessionId).to.not.equal(b.sessionId);
+    expect([a.day, a.mode]).to.deep.equal([day, 0]);
+    const regular = (await post<SessionResponse>("/session", { address: player.address })).json;
+    expect(regular.day).to.equal(0);
+    expect(regular.seed).to.not.equal(a.seed);
+    expect((await post("/session", { address: player.address, daily: true, mode: 1 })).status).to.equal(400);
+    pay(a);
+
+    const beats: HeartbeatResponse[] = [];
+    for (let i = 1; i <= 3; i++) {
+      await sleep(5);
+      beats.push((await post<HeartbeatResponse>("/heartbeat", { sessionId: a.sessionId, i })).json);
+    }
+    const engine = new SnakeEngine(a.seed);
+    while (!engine.over) engine.step();
+    const runHash = keccak256(toUtf8Bytes(JSON.stringify(engine.inputs)));
+    const { json } = await post<VerifyRunResponse>("/verify-run", { sessionId: a.sessionId, address: player.address, runHash, inputs: engine.inputs, beats });
+    expect(json.day).to.equal(day);
+    const payload = { player: player.address, sessionId: a.sessionId, mode: 0, day, score: json.score, runHash, timeDigest: json.timeDigest, deadline: json.deadline };
+    expect(json.attestSigs.map((sig) => verifyTypedData(domain, SCORE_PAYLOAD_TYPES, payload, sig))).to.include(signer.address);
+  });
+
+  it("rejects malformed requests before touching the store", async () => {
+    expect((await post("/session", { address: "nope" })).status).to.equal(400);
+    expect((await post("/heartbeat", { sessionId: "0x1234", i: 1 })).status).to.equal(400);
+    const res = await post<{ error: string }>("/verify-run", { sessionId: keccak256("0x01"), address: player.address });
+    expect(res.status).to.equal(400);
+    expect(res.json.error).to.equal("bad run hash");
+    expect(store.size).to.equal(0);
+    expect(await post("/relay", {})).to.deep.equal({ status: 503, json: { error: "relayer disabled" } });
+  });
+
+  it("rejects transcripts that do not hash to runHash", async () => {
+    const { sess, beats, engine } = await playSession();
+    const res = await post<{ error: string }>("/verify-run", {
+      sessionId: sess.sessionId,
+      address: player.address,
+      runHash: keccak256(toUtf8Bytes("other")),
+      inputs: engine.inputs,
+      beats,
+    });
+    expect(res.status).to.equal(403);
+    expect(res.json.error).to.equal("mismatch");
+  });
+
+  it("rejects another address and forged beats", async () => {
+    const { sess, beats, engine, runHash } = await playSession();
+    const body = { sessionId: sess.sessionId, address: player.address, runHash, inputs: engine.inputs, beats };
+    expect((await post("/verify-run", { ...body, address: Wallet.createRandom().address })).status).to.equal(400);
+    const forged = beats.map((b) => ({ ...b, t: b.t + 1 }));
+    const res = await post<{ error: string }>("/verify-run", { ...body, beats: forged });
+    expect(res.status).to.equal(403);
+    expect(res.json.error).to.equal("bad beat sig");
+  });
+
+  it("attests each session once", async () => {
+    const { sess, beats, engine, runHash } = await playSession();
+    const body = { sessionId: sess.sessionId, address: player.address, runHash, inputs: engine.inputs, beats };
+    const put = transcripts.put.bind(transcripts);
+    transcripts.put = async () => { throw new Error("disk full"); };
+    expect((await post("/verify-run", body)).status).to.equal(500);
+
+    // A run the server failed to attest can be retried.
+    transcripts.put = put;
+    expect((await post("/verify-run", body)).status).to.equal(200);
+    expect(await post("/verify-run", body)).to.deep.equal({ status: 409, json: { error: "session consumed" } });
+  });
+
+  it("attests only one of concurrent requests for a session", async () => {
+    server.close();
+    await start({ CHAIN_CACHE_MS: "0", CHAIN_MISS_CACHE_MS: "0" });
+    const { sess, beats, engine, runHash } = await playSession();
+    // Both requests are in flight while the slow payment lookup runs.
+    chainDelayMs = 50;
+    const body = { sessionId: sess.sessionId, address: player.address, runHash, inputs: engine.inputs, beats };
+    const results = await Promise.all([post<VerifyRunResponse>("/verify-run", body), post<VerifyRunResponse>("/verify-run", body)]);
+    expect(results.map((r) => r.status).sort()).to.deep.equal([200, 409]);
+    expect((await store.get(sess.sessionId))!.consumed).to.equal(true);
+  });
+
+  it("rejects score mismatches with the reasons", async () => {
+    const { sess, beats, engine, runHash } = await playSession();
+    const res = await post<VerifyRunRejection>("/verify-run", {
+      sessionId: sess.sessionId,
+      address: player.address,
+      score: engine.score + 1,
+      runHash,
+      inputs: engine.inputs,
+      beats,
+    });
+    expect(res).to.deep.equal({
+      status: 403,
+      json: { error: "score mismatch", reasons: [{ code: "score mismatch", score: engine.score + 1, simScore: engine.score }] },
+    });
+  });
+
+  it("rejects runs longer than their heartbeats with timing checks on", async () => {
+    server.close();
+    await start({ VERIFY_TIMING: "1" });
+    const { sess, beats, engine, runHash } = await playSession();
+    const res = await post<VerifyRunRejection>("/verify-run", { sessionId: sess.sessionId, address: player.address, runHash, inputs: engine.inputs, beats });
+    expect(res.status).to.equal(403);
+    expect(res.json.error).to.equal("too fast");
+    expect(res.json.reasons[0].playMs).to.equal(engine.frame * 140);
+    expect((await store.get(sess.sessionId))!.consumed).to.equal(undefined);
+  });
+
+  it("serves sessions only once their run is paid on-chain by the session's player", async () => {
+    server.close();
+    await start({ CHAIN_CACHE_MS: "0", CHAIN_MISS_CACHE_MS: "0" });
+    const { json: sess } = await post<SessionResponse>("/session", { address: player.address });
+    expect(await post("/heartbeat", { sessionId: sess.sessionId, i: 1 })).to.deep.equal({ status: 403, json: { error: "run not started" } });
+    pay(sess, Wallet.createRandom().address);
+    expect((await post<{ error: string }>("/heartbeat", { sessionId: sess.sessionId, i: 1 })).json.error).to.equal("run player mismatch");
+    onChain.set(sess.sessionId, { player: player.address, finalized: false, runHash: ZeroHash, day: 7, token: ZeroAddress });
+    expect((await post<{ error: string }>("/heartbeat", { sessionId: sess.sessionId, i: 1 })).json.error).to.equal("run day mismatch");
+    expect((await store.get(sess.sessionId))!.beats).to.have.length(0);
+
+    pay(sess);
+    const beats: HeartbeatResponse[] = [];
+    for (let i = 1; i <= 3; i++) {
+      await sleep(5);
+      beats.push((await post<HeartbeatResponse>("/heartbeat", { sessionId: sess.sessionId, i })).json);
+    }
+    const engine = new SnakeEngine(sess.seed);
+    while (!engine.over) engine.step();
+    const body = { sessionId: sess.sessionId, address: player.address, runHash: keccak256(toUtf8Bytes(JSON.stringify(engine.inputs))), inputs: engine.inputs, beats };
+    onChain.set(sess.sessionId, { player: player.address, finalized: true, runHash: ZeroHash, day: 0, token: ZeroAddress });
+    expect(await post("/verify-run", body)).to.deep.equal({ status: 403, json: { error: "run finalized" } });
+    pay(sess);
+    expect((await post("/verify-run", body)).status).to.equal(200);
+  });
+
+  describe("on-chain run cache", () => {
+    function counted(runs: Map<string, OnChainRun>) {
+      const reader = { calls: 0, fail: false, getRun: async (id: string) => {
+        reader.calls++;
+        await sleep(1);
+        if (reader.fail) throw new Error("rpc down");
+        return runs.get(id) ?? { player: ZeroAddress, finalized: false, runHash: ZeroHash, day: 0, token: ZeroAddress };
+      } };
+      return reader;
+    }
+
+    it("remembers started runs longer than runs not started yet", async () => {
+      const runs = new Map<string, OnChainRun>();
+      const inner = counted(runs);
+      let now = 0;
+      const cache = new CachedChainReader(inner, { hitMs: 30_000, missMs: 2_000 }, () => now);
+      const id = keccak256("0x05");
+
+      expect((await cache.getRun(id)).player).to.equal(ZeroAddress);
+      runs.set(id, { player: player.address, finalized: false, runHash: ZeroHash, day: 0, token: ZeroAddress });
+      expect((await cache.getRun(id)).player).to.equal(ZeroAddress);
+      now += 2_000;
+      expect((await cache.getRun(id)).player).to.equal(player.address);
+      now += 29_999;
+      await cache.getRun(id.toUpperCase().replace("0X", "0x"));
+      expect(inner.calls).to.equal(2);
+      now += 1;
+      await cache.getRun(id);
+      expect(inner.calls).to.equal(3);
+    });
+
+    it("shares one lookup between concurrent requests and forgets failures", async () => {
+      const inner = counted(new Map());
+      const cache = new CachedChainReader(inner, { hitMs: 30_000, missMs: 2_000 });
+      const id = keccak256("0x06");
+      await Promise.all([cache.getRun(id), cache.getRun(id), cache.getRun(id)]);
+      expect(inner.calls).to.equal(1);
+
+      const other = keccak256("0x07");
+      inner.fail = true;
+      await cache.getRun(other).catch(() => {});
+      inner.fail = false;
+      await sleep(1);
+      expect((await cache.getRun(other)).player).to.equal(ZeroAddress);
+      expect(inner.calls).to.equal(3);
+    });
+  });
+
+  it("expires sessions after their TTL", async () => {
+    const { json: sess } = await post<SessionResponse>("/session", { address: player.address });
+    store.advance(3600 * 1000);
+    expect((await post("/heartbeat", { sessionId: sess.sessionId, i: 1 })).status).to.equal(400);
+  });
+
+  it("answers 500 when the store is unavailable", async () => {
+    store.failNext();
+    const res = await post<{ error: string }>("/session", { address: player.address });
+    expect(res.status).to.equal(500);
+    expect(res.json.error).to.equal("server error");
+    const ready = await fetch(`${base}/ready`);
+    expect(ready.status).to.equal(200);
+  });
+
+  describe("run transcripts", () => {
+    async function verified() {
+      const run = await playSession();
+      const { json } = await post<VerifyRunResponse>("/verify-run", {
+        sessionId: run.sess.sessionId,
+        address: player.address,
+        runHash: run.runHash,
+        inputs: run.engine.inputs,
+        beats: run.beats,
+      });
+      return { ...run, attest: json };
+    }
+
+    it("keeps the transcript of a verified run", async () => {
+      const { sess, engine, runHash, attest } = await verified();
+      const stored = await transcripts.get(sess.sessionId);
+      expect(stored!.seed).to.equal(sess.seed);
+      expect(stored!.inputs).to.deep.equal(engine.inputs);
+      expect(stored!.runHash).to.equal(runHash);
+      expect(stored!.timeDigest).to.equal(attest.timeDigest);
+      expect(stored!.token).to.equal(ZeroAddress);
+      expect((await fetch(`${base}/runs/${keccak256("0x02")}`)).status).to.equal(404);
+    });
+
+    it("serves replays only when they match the on-chain run hash", async () => {
+      const { sess, runHash } = await verified();
+      const url = `${base}/runs/${sess.sessionId}`;
+
+      let resp = await fetch(url);
+      expect(resp.status).to.equal(200);
+      expect(((await resp.json()) as RunTranscriptResponse).chain).to.equal("pending");
+
+      onChain.set(sess.sessionId, { player: player.address, finalized: true, runHash, day: 0, token: ZeroAddress });
+      resp = await fetch(url);
+      const body = (await resp.json()) as RunTranscriptResponse;
+      expect(body.chain).to.equal("match");
+      expect(body.score).to.equal(0);
+
+      onChain.set(sess.sessionId, { player: player.address, finalized: true, runHash: keccak256("0x03"), day: 0, token: ZeroAddress });
+      expect((await fetch(url)).status).to.equal(409);
+    });
+  });
+
+  describe("void runs", () => {
+    it("lets players void runs the server failed to attest", async () => {
+      const { sess, beats, engine, runHash } = await playSession();
+      expect((await post("/void-run", { sessionId: sess.sessionId })).status).to.equal(403);
+
+      transcripts.put = async () => { throw new Error("disk full"); };
+      const body = { sessionId: sess.sessionId, address: player.address, runHash, inputs: engine.inputs, beats };
+      expect((await post("/verify-run", body)).status).to.equal(500);
+
+      const { status, json } = await post<VoidRunResponse>("/void-run", { sessionId: sess.sessionId });
+      expect(status).to.equal(200);
+      expect(json.player).to.equal(player.address);
+      const value = { player: player.address, sessionId: sess.sessionId };
+      expect(verifyTypedData(domain, VOID_RUN_TYPES, value, json.voidSig)).to.equal(signer.address);
+    });
+
+    it("requires the operator token for healthy or attested runs", async () => {
+      const { sess, beats, engine, runHash } = await playSession();
+      const auth = { Authorization: "Bearer op-token" };
+      expect((await post("/void-run", { sessionId: sess.sessionId }, { Authorization: "Bearer nope" })).status).to.equal(403);
+      expect((await post("/void-run", { sessionId: sess.sessionId }, auth)).status).to.equal(200);
+      expect((await post("/void-run", { sessionId: keccak256("0x04") }, auth)).status).to.equal(404);
+
+      await post("/verify-run", { sessionId: sess.sessionId, address: player.address, runHash, inputs: engine.inputs, beats });
+      const res = await post<{ error: string }>("/void-run", { sessionId: sess.sessionId }, auth);
+      expect(res.status).to.equal(409);
+      expect(res.json.error).to.equal("run attested");
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import {
+  CLIENT_ABI,
+  Manifest,
+  checkDeployment,
+  deployBadges,
+  deployPool,
+  poolFactory,
+  readManifest,
+  runtimeCodeMatches,
+  syncFromManifest,
+  updateEnvFile,
+  writeManifest,
+} from "../scripts/deployments";
+
+describe("deployment manifests", () => {
+  let root: string;
+  let signers: any[];
+  let manifest: Manifest;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "snake-deploy-"));
+    signers = await ethers.getSigners();
+    manifest = await deployPool(hre, {
+      feeSink: signers[1].address,
+      serverSigner: signers[2].address,
+      entryFeeWei: ethers.parseEther("0.0005").toString(),
+      leaderboardSize: 10,
+    });
+  });
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  const read = (file: string) => fs.readFileSync(path.join(root, file), "utf8");
+
+  it("records the deployment", async () => {
+    const tx = await ethers.provider.getTransactionReceipt(manifest.txHash);
+    expect(manifest).to.deep.include({
+      network: "hardhat",
+      chainId: 31337,
+      contract: "SnakeLeaderboard",
+      deployer: signers[0].address,
+      deployBlock: tx!.blockNumber,
+      address: tx!.contractAddress,
+    });
+    const artifact = await hre.artifacts.readArtifact("SnakeLeaderboard");
+    expect(manifest.bytecodeHash).to.equal(ethers.keccak256(artifact.bytecode.replace(/__\$[0-9a-f]{34}\$__/g, "0".repeat(40))));
+    expect(Object.keys(manifest.libraries)).to.deep.equal(["Payments", "Timelock", "Referrals", "Boards"]);
+    const linked = await ethers.provider.getTransaction(manifest.txHash);
+    for (const library of Object.values(manifest.libraries)) {
+      expect(linked!.data).to.include(library.slice(2).toLowerCase());
+    }
+
+    expect(readManifest("hardhat", root)).to.equal(null);
+    expect(writeManifest(manifest, root)).to.equal(path.join(root, "deployments", "hardhat.json"));
+    expect(readManifest("hardhat", root)).to.deep.equal(manifest);
+  });
+
+  it("updates env files in place", () => {
+    const file = path.join(root, "server", ".env");
+    fs.mkdirSync(path.dirname(file));
+    fs.writeFileSync(file, "# pool\nPOOL_ADDRESS=0xold\nPORT=8787\n\nexport CHAIN_ID=84532\n");
+    expect(updateEnvFile(file, { POOL_ADDRESS: "0xnew", CHAIN_ID: "84532", START_BLOCK: "7" })).to.deep.equal(["POOL_ADDRESS", "START_BLOCK"]);
+    expect(fs.readFileSync(file, "utf8")).to.equal("# pool\nPOOL_ADDRESS=0xnew\nPORT=8787\n\nexport CHAIN_ID=84532\nSTART_BLOCK=7\n");
+    expect(updateEnvFile(file, { POOL_ADDRESS: "0xnew" })).to.deep.equal([]);
+  });
+
+  it("syncs the client ABI and every package's env", async () => {
+    fs.writeFileSync(path.join(root, ".env"), "PRIVATE_KEY=0xkey\n");
+    const changes = await syncFromManifest(hre, manifest, root);
+    expect(changes).to.deep.equal({
+      ".env": ["POOL_ADDRESS"],
+      "client/.env.local": ["VITE_POOL_ADDRESS", "VITE_DEPLOY_BLOCK"],
+      "server/.env": ["POOL_ADDRESS", "CHAIN_ID"],
+      "indexer/.env": ["POOL_ADDRESS", "START_BLOCK"],
+      [CLIENT_ABI]: ["abi"],
+    });
+    expect(read(".env")).to.equal(`PRIVATE_KEY=0xkey\nPOOL_ADDRESS=${manifest.address}\n`);
+    expect(read("indexer/.env")).to.equal(`POOL_ADDRESS=${manifest.address}\nSTART_BLOCK=${manifest.deployBlock}\n`);
+    // The checked-in ABI is what a sync writes.
+    expect(read(CLIENT_ABI)).to.equal(fs.readFileSync(path.join(__dirname, "..", CLIENT_ABI), "utf8"));
+
+    expect(Object.values(await syncFromManifest(hre, manifest, root)).flat()).to.deep.equal([]);
+    const production = await syncFromManifest(hre, { ...manifest, network: "baseSepolia" }, root);
+    expect(production["client/.env.production"]).to.deep.equal(["VITE_POOL_ADDRESS", "VITE_DEPLOY_BLOCK"]);
+
+    let error = "";
+    await syncFromManifest(hre, { ...manifest, bytecodeHash: ethers.ZeroHash }, root).catch((e) => { error = e.message; });
+    expect(error).to.include("Compiled SnakeLeaderboard differs from the one deployed");
+  });
+
+  it("matches on-chain code to the artifact apart from immutables", async () => {
+    const code = await ethers.provider.getCode(manifest.address);
+    expect(await runtimeCodeMatches(hre, code)).to.equal(true);
+    // Another board size and other library addresses only change the immutable and the links.
+    const other = await (await poolFactory(hre)).deploy(signers[1].address, signers[2].address, 1n, 200);
+    const otherCode = await ethers.provider.getCode(await other.getAddress());
+    expect(otherCode).to.not.equal(code);
+    expect(await runtimeCodeMatches(hre, otherCode)).to.equal(true);
+
+    const tampered = code.slice(0, 100) + (code[100] === "0" ? "1" : "0") + code.slice(101);
+    expect(await runtimeCodeMatches(hre, tampered)).to.equal(false);
+    const bench = await ethers.deployContract("LeaderboardBench", [10]);
+    expect(await runtimeCodeMatches(hre, await ethers.provider.getCode(await bench.getAddress()))).to.equal(false);
+  });
+
+  it("checks the deployment against the manifest and the server key", async () => {
+    const serverPk = ethers.Wallet.createRandom().privateKey;
+    const serverKey = new ethers.Wallet(serverPk).address;
+    const pool = await ethers.getContractAt("SnakeLeaderboard", manifest.address);
+    const failing = async (opts: Partial<Parameters<typeof checkDeployment>[1]>) =>
+      (await checkDeployment(hre, { address: manifest.address, manifest, serverPk, serverSigner: serverKey, ...opts }))
+        .filter((c) => !c.ok).map((c) => c.name);
+
+    expect(await failing({})).to.deep.equal(["server key"]);
+    await pool.addSigner(serverKey);
+    expect(await failing({})).to.deep.equal([]);
+    expect(await failing({ serverSigner: signers[2].address })).to.deep.equal(["SERVER_SIGNER"]);
+    expect(await failing({ manifest: { ...manifest, address: signers[3].address } })).to.deep.equal(["manifest"]);
+    expect(await failing({ address: signers[3].address })).to.deep.equal(["code"]);
+    const bench = await ethers.deployContract("LeaderboardBench", [10]);
+    expect(await failing({ address: await bench.getAddress(), manifest: null, serverPk: undefined })).to.deep.equal(["bytecode"]);
+  });
+
+  it("deploys the badges minted by the pool and checks they stay connected", async () => {
+    const withBadges = await deployBadges(hre, manifest);
+    expect(withBadges).to.deep.include({ address: manifest.address, deployBlock: manifest.deployBlock });
+    const pool = await ethers.getContractAt("SnakeLeaderboard", manifest.address);
+    const badges = await ethers.getContractAt("SnakeBadges", withBadges.badges!.address);
+    expect(await pool.badges()).to.equal(withBadges.badges!.address);
+    expect(await badges.minter()).to.equal(manifest.address);
+    expect((await ethers.provider.getTransactionReceipt(withBadges.badges!.txHash))!.contractAddress).to.equal(withBadges.badges!.address);
+
+    const check = async () => (await checkDeployment(hre, { address: manifest.address, manifest: withBadges })).find((c) => c.name === "badges")!;
+    expect((await check()).ok).to.equal(true);
+    await badges.setMinter(signers[3].address);
+    expect(await check()).to.deep.include({ ok: false, detail: `${withBadges.badges!.address} does not take mints from the pool` });
+    await pool.setBadges(ethers.ZeroAddress);
+    expect((await check()).detail).to.equal(`pool mints badges at ${ethers.ZeroAddress}, manifest has ${withBadges.badges!.address}`);
+  });
+});
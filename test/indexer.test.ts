@@ -0,0 +1,237 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { IndexerDb } from "../indexer/src/db";
+import { ChainSource, Indexer } from "../indexer/src/sync";
+import { createApi } from "../indexer/src/api";
+import { attestationDomain, signScorePayload, signVoidRun } from "../shared/attestation";
+import type { Page, PlayerProfile, RankedRun } from "../shared/indexer";
+import { poolFactory } from "../scripts/deployments";
+
+describe("event indexer", () => {
+  const entryFee = ethers.parseEther("0.0005");
+  let db: IndexerDb;
+  let server: Server;
+  let base: string;
+
+  async function setup(chain: ChainSource = ethers.provider) {
+    const [owner, serverSigner, alice, bob] = await ethers.getSigners();
+    const SnakeLeaderboard = await poolFactory(hre);
+    const contract = await SnakeLeaderboard.deploy(owner.address, serverSigner.address, entryFee, 25);
+    await contract.waitForDeployment();
+    const startBlock = (await contract.deploymentTransaction()!.wait())!.blockNumber;
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = attestationDomain(chainId, await contract.getAddress());
+
+    db = await IndexerDb.open();
+    const indexer = new Indexer(chain, db, {
+      poolAddress: await contract.getAddress(),
+      startBlock,
+      confirmations: 0,
+      batchBlocks: 5,
+      reorgDepth: 64,
+    });
+    server = createApi({ db, clientOrigin: "*" }).listen(0);
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    async function play(player: any, score: bigint | null, mode = 0, day = 0) {
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      if (day) await contract.connect(player).startDailyRun(sessionId, day, { value: entryFee });
+      else await contract.connect(player).startRun(sessionId, { value: entryFee });
+      if (score == null) return sessionId;
+      const payload = {
+        player: player.address,
+        sessionId,
+        mode,
+        day,
+        score,
+        runHash: ethers.keccak256(ethers.randomBytes(32)),
+        timeDigest: ethers.keccak256(ethers.randomBytes(32)),
+        deadline: BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 3600n,
+      };
+      await contract.connect(player).submitScore(payload, [await signScorePayload(serverSigner, domain, payload)]);
+      return sessionId;
+    }
+
+    return { indexer, play, contract, serverSigner, domain, alice, bob };
+  }
+
+  async function get<T>(path: string): Promise<{ status: number, json: T }> {
+    const resp = await fetch(`${base}${path}`);
+    return { status: resp.status, json: (await resp.json()) as T };
+  }
+
+  afterEach(() => {
+    server?.close();
+    db?.close();
+  });
+
+  it("indexes runs and serves ranked, per-player and windowed pages", async () => {
+    const { indexer, play, alice, bob } = await setup();
+    const a1 = await play(alice, 30n);
+    const b1 = await play(bob, 50n);
+    const a2 = await play(alice, 40n);
+    const open = await play(bob, null);
+
+    const result = await indexer.syncOnce();
+    expect(result.events).to.equal(4 + 3 + 3);
+
+    let page = (await get<Page<RankedRun>>("/runs?pageSize=2")).json;
+    expect(page.total).to.equal(3);
+    expect(page.items.map((r) => r.sessionId)).to.deep.equal([b1, a2]);
+    expect(page.items.map((r) => r.position)).to.deep.equal([1, 2]);
+    page = (await get<Page<RankedRun>>("/runs?pageSize=2&page=2")).json;
+    expect(page.items.map((r) => [r.sessionId, r.position, r.score])).to.deep.equal([[a1, 3, 30]]);
+
+    const bobRuns = (await get<Page<RankedRun>>(`/players/${bob.address}/runs`)).json;
+    expect(bobRuns.items.map((r) => r.sessionId)).to.deep.equal([open, b1]);
+    expect(bobRuns.items[0].score).to.equal(null);
+    expect(bobRuns.items[1].rank).to.equal(1);
+
+    const b1At = bobRuns.items[1].submittedAt!;
+    const window = (await get<Page<RankedRun>>(`/runs/window?from=${b1At}&to=${b1At + 1000}`)).json;
+    expect(window.items.map((r) => r.sessionId)).to.deep.equal([b1, a2]);
+
+    expect((await get("/runs?pageSize=1000")).status).to.equal(400);
+    expect((await get("/runs/window?from=10&to=5")).status).to.equal(400);
+    expect((await get("/players/nope/runs")).status).to.equal(400);
+    expect((await indexer.syncOnce()).events).to.equal(0);
+  });
+
+  it("ranks each game mode separately", async () => {
+    const { indexer, play, alice, bob } = await setup();
+    const classic = await play(alice, 10n);
+    const blitz = await play(bob, 90n, 4);
+    await indexer.syncOnce();
+
+    expect((await get<Page<RankedRun>>("/runs")).json.items.map((r) => r.sessionId)).to.deep.equal([classic]);
+    const blitzRuns = (await get<Page<RankedRun>>("/runs?mode=4")).json;
+    expect(blitzRuns.items.map((r) => [r.sessionId, r.mode, r.rank])).to.deep.equal([[blitz, 4, 1]]);
+    expect((await get("/runs?mode=blitz")).status).to.equal(400);
+
+    const profile = (await get<PlayerProfile>(`/players/${bob.address}/profile?mode=4`)).json;
+    expect(profile).to.deep.include({ mode: 4, runs: 1, bestScore: 90 });
+    expect(profile.rankHistory.map((p) => p.rank)).to.deep.equal([1]);
+    expect((await get<PlayerProfile>(`/players/${bob.address}/profile`)).json).to.deep.include({ mode: 0, bestScore: null });
+  });
+
+  it("ranks daily challenge runs per day, apart from the mode rankings", async () => {
+    const { indexer, play, contract, alice, bob } = await setup();
+    const day = Number(await contract.currentDay());
+    const regular = await play(alice, 5n);
+    const best = await play(bob, 70n, 0, day);
+    const second = await play(alice, 20n, 0, day);
+    await indexer.syncOnce();
+
+    const board = (await get<Page<RankedRun>>(`/daily/${day}/runs`)).json;
+    expect(board.items.map((r) => [r.sessionId, r.day, r.position])).to.deep.equal([[best, day, 1], [second, day, 2]]);
+    expect((await get<Page<RankedRun>>("/runs")).json.items.map((r) => r.sessionId)).to.deep.equal([regular]);
+    expect((await get<Page<RankedRun>>(`/daily/${day - 1}/runs`)).json.total).to.equal(0);
+    expect((await get("/daily/today/runs")).status).to.equal(400);
+  });
+
+  it("rolls back runs that a reorg removed", async () => {
+    const { indexer, play, alice, bob } = await setup();
+    const kept = await play(alice, 10n);
+    await indexer.syncOnce();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    const orphaned = await play(bob, 99n);
+    await indexer.syncOnce();
+    expect((await get<Page<RankedRun>>("/runs")).json.items.map((r) => r.sessionId)).to.deep.equal([orphaned, kept]);
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await ethers.provider.send("evm_mine", []);
+    const replacement = await play(bob, 5n);
+    await ethers.provider.send("evm_mine", []);
+
+    const result = await indexer.syncOnce();
+    expect(result.rolledBackTo).to.not.equal(null);
+    const runs = (await get<Page<RankedRun>>("/runs")).json;
+    expect(runs.items.map((r) => r.sessionId)).to.deep.equal([kept, replacement]);
+    expect((await get<Page<RankedRun>>(`/players/${bob.address}/runs`)).json.total).to.equal(1);
+  });
+
+  it("keeps the batches it applied when a block changes mid-sync", async () => {
+    // Reports a different hash for the blocks in `moved`, as if they had been reorged out.
+    const moved = new Set<number>();
+    const chain: ChainSource = {
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: async (number) => {
+        const block = await ethers.provider.getBlock(number);
+        return block && { number: block.number, hash: moved.has(number) ? ethers.ZeroHash : block.hash, timestamp: block.timestamp };
+      },
+      getLogs: (filter) => ethers.provider.getLogs(filter),
+    };
+    const { indexer, play, alice, bob } = await setup(chain);
+    const kept = await play(alice, 10n);
+    await ethers.provider.send("hardhat_mine", ["0x10"]);
+    const later = await play(bob, 20n);
+    const last = await ethers.provider.getBlockNumber();
+    moved.add(last - 1);
+
+    const result = await indexer.syncOnce();
+    expect(result.events).to.equal(3);
+    expect(result.to).to.equal(db.cursor()!.number);
+    expect(result.to).to.be.lessThan(last - 1);
+    expect((await get<Page<RankedRun>>("/runs")).json.items.map((r) => r.sessionId)).to.deep.equal([kept]);
+
+    moved.clear();
+    expect(await indexer.syncOnce()).to.deep.include({ from: result.to + 1, to: last, events: 3 });
+    expect((await get<Page<RankedRun>>("/runs")).json.items.map((r) => r.sessionId)).to.deep.equal([later, kept]);
+  });
+
+  it("builds player profiles from indexed runs, refunds and rank changes", async () => {
+    const { indexer, play, contract, serverSigner, domain, alice, bob } = await setup();
+    await contract.setRefundPolicy(0, 5000);
+    await play(alice, 10n);
+    await play(alice, 30n);
+    await play(alice, 20n);
+    const voided = await play(alice, null);
+    await contract.voidRun(voided, await signVoidRun(serverSigner, domain, alice.address, voided));
+    await indexer.syncOnce();
+
+    const profile = (await get<PlayerProfile>(`/players/${alice.address}/profile`)).json;
+    expect(profile).to.deep.include({
+      player: alice.address.toLowerCase(),
+      runs: 4,
+      scoredRuns: 3,
+      refundedRuns: 1,
+      feesWei: (entryFee * 4n - entryFee / 2n).toString(),
+      bestScore: 30,
+      averageScore: 20,
+      medianScore: 20,
+    });
+    expect(profile.distribution).to.have.length(8);
+    expect(profile.distribution[0]).to.deep.equal({ from: 0, to: 3, count: 0 });
+    expect(profile.distribution.reduce((n, b) => n + b.count, 0)).to.equal(3);
+    expect(profile.rankHistory.map((p) => [p.score, p.rank])).to.deep.equal([[10, 1], [30, 1], [20, 1]]);
+    expect(profile.rankHistory[0].at).to.be.greaterThan(0);
+
+    const empty = (await get<PlayerProfile>(`/players/${bob.address}/profile`)).json;
+    expect(empty).to.deep.include({ runs: 0, feesWei: "0", bestScore: null, medianScore: null });
+    expect(empty.distribution).to.deep.equal([]);
+    expect((await get(`/players/nope/profile`)).status).to.equal(400);
+  });
+
+  it("records the token of token-paid runs and keeps them out of ETH fees", async () => {
+    const { indexer, play, contract, bob } = await setup();
+    const token = await ethers.deployContract("MockERC20Permit", ["USD Coin", "USDC"]);
+    const tokenAddress = await token.getAddress();
+    await contract.setTokenEntryFee(tokenAddress, 2_000_000n);
+    await token.mint(bob.address, 2_000_000n);
+    await token.connect(bob).approve(await contract.getAddress(), 2_000_000n);
+    const paidInEth = await play(bob, null);
+    const paidInToken = ethers.keccak256(ethers.randomBytes(32));
+    await contract.connect(bob).startRunWithToken(paidInToken, 0, tokenAddress, { deadline: 0, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash });
+    await indexer.syncOnce();
+
+    const runs = (await get<Page<RankedRun>>(`/players/${bob.address}/runs`)).json;
+    expect(runs.items.map((r) => [r.sessionId, r.feeWei, r.token])).to.deep.equal([
+      [paidInToken, "2000000", tokenAddress.toLowerCase()],
+      [paidInEth, entryFee.toString(), null],
+    ]);
+    expect((await get<PlayerProfile>(`/players/${bob.address}/profile`)).json).to.deep.include({ runs: 2, feesWei: entryFee.toString() });
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { ethers } from "hardhat";
+import { LeaderboardBench, LegacyLeaderboardBench } from "../typechain-types";
+
+describe("Leaderboard", () => {
+  const players = Array.from({ length: 20 }, () => ethers.Wallet.createRandom().address);
+  const sessionId = () => ethers.keccak256(ethers.randomBytes(32));
+
+  async function benches(size: number) {
+    const library = await ethers.deployContract("LeaderboardBench", [size]);
+    const legacy = await ethers.deployContract("LegacyLeaderboardBench", [size]);
+    return { library, legacy };
+  }
+
+  it("orders runs exactly like the board it replaced", async () => {
+    const { library, legacy } = await benches(10);
+    const txs: [ContractTransactionResponse, ContractTransactionResponse][] = [];
+    // Few distinct scores and several runs per block exercise both tie rules.
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      for (let i = 0; i < 60; i++) {
+        const player = players[i % 8];
+        const score = BigInt(Math.floor(Math.random() * 8));
+        const id = sessionId();
+        txs.push([
+          await library.submit(player, score, id, { gasLimit: 1_000_000 }),
+          await legacy.submit(player, score, id, { gasLimit: 3_000_000 }),
+        ]);
+        if (i % 3 === 2) await ethers.provider.send("evm_mine", []);
+      }
+      await ethers.provider.send("evm_mine", []);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+
+    const rows = await library.entries();
+    const legacyRows = await legacy.entries();
+    expect(rows).to.have.length(10);
+    expect(rows.map((r) => [r.player, r.score, r.sessionId, r.updatedAt]))
+      .to.deep.equal(legacyRows.map((r) => [r.player, r.score, r.sessionId, r.updatedAt]));
+    for (const player of players.slice(0, 8)) {
+      expect(await library.rankOf(player)).to.equal(await legacy.rankOf(player));
+    }
+    // The rank each run reports, derived from its position, matches a walk of the board.
+    const ranks = async (bench: LeaderboardBench | LegacyLeaderboardBench, tx: ContractTransactionResponse) =>
+      (await tx.wait())!.logs.map((log) => bench.interface.parseLog(log)!.args.rank);
+    for (const [libraryTx, legacyTx] of txs) {
+      expect(await ranks(library, libraryTx)).to.deep.equal(await ranks(legacy, legacyTx));
+    }
+  });
+
+  it("drops the last row of a full board for better or later equal runs", async () => {
+    const { library } = await benches(2);
+    await library.submit(players[0], 5n, sessionId());
+    await library.submit(players[1], 3n, sessionId());
+    await library.submit(players[2], 2n, sessionId());
+    expect((await library.entries()).map((r) => r.player)).to.deep.equal([players[0], players[1]]);
+
+    // Later runs win ties, so an equal score pushes the older row out.
+    await library.submit(players[3], 3n, sessionId());
+    expect((await library.entries()).map((r) => r.player)).to.deep.equal([players[0], players[3]]);
+    expect(await library.rankOf(players[1])).to.equal(0);
+  });
+
+  it("keeps each player's best run on the player board", async () => {
+    const { library } = await benches(5);
+    type Row = { player: string, score: bigint, sessionId: string, t: number };
+    let model: Row[] = [];
+    for (let i = 0; i < 60; i++) {
+      const player = players[Math.floor(Math.random() * 8)];
+      const score = BigInt(Math.floor(Math.random() * 20));
+      const id = sessionId();
+      const receipt = await (await library.submitBest(player, score, id)).wait();
+      const t = (await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp;
+
+      const held = model.find((r) => r.player === player);
+      if (held && score <= held.score) continue;
+      const row = { player, score, sessionId: id, t };
+      const rest = model.filter((r) => r !== held);
+      const pos = rest.findIndex((r) => score > r.score || (score === r.score && t > r.t));
+      const at = pos === -1 ? rest.length : pos;
+      if (!held && at >= 5) continue;
+      rest.splice(at, 0, row);
+      model = rest.slice(0, 5);
+    }
+
+    const rows = await library.bestEntries();
+    expect(rows.map((r) => [r.player, r.score, r.sessionId])).to.deep.equal(model.map((r) => [r.player, r.score, r.sessionId]));
+    expect(new Set(rows.map((r) => r.player)).size).to.equal(rows.length);
+  });
+
+  it("costs less gas than the board it replaced", async () => {
+    const report: Record<string, { legacy: number, library: number }> = {};
+    for (const size of [25, 100, 255]) {
+      const { library, legacy } = await benches(size);
+      const avg = async (bench: LeaderboardBench | LegacyLeaderboardBench, scores: number[]) => {
+        let gas = 0n;
+        for (let i = 0; i < scores.length; i++) {
+          const tx = await bench.submit(players[i % players.length], BigInt(scores[i]), sessionId());
+          gas += (await tx.wait())!.gasUsed;
+        }
+        return Number(gas / BigInt(scores.length));
+      };
+      const fill = Array.from({ length: size }, (_, i) => 1000 + i);
+      // New best runs shift every row; mid-board runs shift half of them.
+      const top = Array.from({ length: 10 }, (_, i) => 10_000 + i);
+      const middle = Array.from({ length: 10 }, () => 1000 + Math.floor(size / 2));
+      for (const bench of [library, legacy]) await avg(bench, fill);
+      report[`size ${size}, new best`] = { legacy: await avg(legacy, top), library: await avg(library, top) };
+      report[`size ${size}, mid-board`] = { legacy: await avg(legacy, middle), library: await avg(library, middle) };
+    }
+    console.table(report);
+
+    for (const row of Object.values(report)) {
+      expect(row.library).to.be.lessThan(row.legacy / 2);
+    }
+    expect(report["size 100, new best"].library).to.be.lessThan(report["size 25, new best"].legacy);
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre from "hardhat";
+import { Contract, JsonRpcProvider, keccak256, toUtf8Bytes } from "ethers";
+import { LocalStack, startLocalStack } from "../scripts/localStack";
+import { SnakeEngine } from "../shared/engine";
+import type { HeartbeatResponse, SessionResponse, VerifyRunResponse } from "../shared/api";
+
+// Everything over HTTP, the way the client drives it: JSON-RPC for the chain,
+// the attestation server's endpoints, heartbeats in real time and the
+// server's timing checks left on.
+describe("local stack", function () {
+  this.timeout(60_000);
+  let dir: string;
+  let stack: LocalStack;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "snake-stack-"));
+    stack = await startLocalStack(hre, { rpcPort: 0, serverPort: 0, clientEnvFile: path.join(dir, ".env.local"), manifestRoot: dir });
+  });
+
+  afterEach(async () => {
+    await stack.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function post<T>(route: string, body: unknown): Promise<{ status: number, json: T }> {
+    const resp = await fetch(`${stack.serverUrl}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: resp.status, json: (await resp.json()) as T };
+  }
+
+  it("writes the client env and manifest for the deployment", () => {
+    const env = fs.readFileSync(path.join(dir, ".env.local"), "utf8");
+    expect(env).to.equal(Object.entries(stack.clientEnv).map(([k, v]) => `${k}=${v}\n`).join(""));
+    expect(stack.clientEnv).to.include({ VITE_POOL_ADDRESS: stack.manifest.address, VITE_PUBLIC_RPC: stack.rpcUrl, VITE_SERVER_URL: stack.serverUrl });
+    const manifest = JSON.parse(fs.readFileSync(path.join(dir, "deployments", "localhost.json"), "utf8"));
+    expect(manifest).to.deep.equal(stack.manifest);
+    expect(manifest.args.serverSigner).to.equal(stack.serverSigner);
+  });
+
+  it("plays a paid run from session to leaderboard", async () => {
+    const provider = new JsonRpcProvider(stack.rpcUrl, undefined, { staticNetwork: true });
+    try {
+      const player = await provider.getSigner(1);
+      const abi = (await hre.artifacts.readArtifact("SnakeLeaderboard")).abi;
+      const pool = new Contract(stack.manifest.address, abi, player);
+
+      const { status, json: sess } = await post<SessionResponse>("/session", { address: player.address });
+      expect(status).to.equal(200);
+      await (await pool.startRun(sess.sessionId, { value: await pool.entryFeeWei() })).wait();
+
+      // Eat the first food, then turn down and left into the wall.
+      const engine = new SnakeEngine(sess.seed);
+      const script: Record<number, { x: number, y: number }> = { 6: { x: 0, y: 1 }, 9: { x: -1, y: 0 } };
+      let playMs = 0;
+      while (!engine.over) {
+        if (script[engine.frame]) engine.turn(script[engine.frame], "script");
+        playMs += engine.tickMs;
+        engine.step();
+      }
+      expect(engine.score).to.be.greaterThan(0);
+
+      // Beat about every 300ms for as long as the run takes to play.
+      const beats: HeartbeatResponse[] = [];
+      const started = Date.now();
+      for (let i = 1; beats.length < 3 || Date.now() - started < playMs; i++) {
+        const beat = await post<HeartbeatResponse>("/heartbeat", { sessionId: sess.sessionId, i });
+        expect(beat.status).to.equal(200);
+        beats.push(beat.json);
+        await new Promise((r) => setTimeout(r, 300));
+      }
+
+      const runHash = keccak256(toUtf8Bytes(JSON.stringify(engine.inputs)));
+      const verified = await post<VerifyRunResponse>("/verify-run", {
+        sessionId: sess.sessionId,
+        address: player.address,
+        runHash,
+        inputs: engine.inputs,
+        beats,
+      });
+      expect(verified.status).to.equal(200);
+      const { json } = verified;
+      expect(json.score).to.equal(engine.score);
+
+      const payload = { player: player.address, sessionId: sess.sessionId, mode: json.mode, day: json.day, score: json.score, runHash, timeDigest: json.timeDigest, deadline: json.deadline };
+      await (await pool.submitScore(payload, json.attestSigs)).wait();
+      const board = await pool.getLeaderboard(0);
+      expect(board.map((r: any) => [r.player, r.score, r.sessionId])).to.deep.equal([[player.address, BigInt(engine.score), sess.sessionId]]);
+    } finally {
+      provider.destroy();
+    }
+  });
+});
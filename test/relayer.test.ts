@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import hre, { ethers, network } from "hardhat";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { BrowserProvider, Wallet, keccak256, toUtf8Bytes } from "ethers";
+import { createApp } from "../server/src/app";
+import { loadConfig } from "../server/src/config";
+import { FakeSessionStore, MemoryTranscriptStore } from "../server/src/store";
+import { Relayer } from "../server/src/relayer";
+import { ContractChainReader } from "../server/src/chain";
+import { SnakeEngine } from "../shared/engine";
+import { attestationDomain, signRelayAuthorization } from "../shared/attestation";
+import { poolFactory } from "../scripts/deployments";
+import type { HeartbeatResponse, RelayQuotaResponse, RelayRequest, RelayResponse, SessionResponse, VerifyRunResponse } from "../shared/api";
+
+describe("relayer", () => {
+  const entryFee = ethers.parseEther("0.0005");
+  const serverSigner = Wallet.createRandom();
+  let contract: any;
+  let player: any;
+  let relayWallet: any;
+  let domain: ReturnType<typeof attestationDomain>;
+  let server: Server;
+  let base: string;
+
+  beforeEach(async () => {
+    const signers = await ethers.getSigners();
+    player = signers[3];
+    // A plain JSON-RPC signer, as in production, so reverts surface as ethers call exceptions.
+    relayWallet = await new BrowserProvider(network.provider).getSigner(signers[6].address);
+    const SnakeLeaderboard = await poolFactory(hre);
+    contract = await SnakeLeaderboard.deploy(signers[1].address, serverSigner.address, entryFee, 25);
+    await contract.waitForDeployment();
+    const pool = await contract.getAddress();
+    domain = attestationDomain(31337, pool);
+
+    // Runs are replayed in milliseconds here, far faster than anyone plays them.
+    const config = loadConfig({ HB_MIN_BEATS: "3", HB_MIN_MS: "1", HB_MAX_MS: "10000", VERIFY_TIMING: "0", CHAIN_MISS_CACHE_MS: "0", POOL_ADDRESS: pool, CHAIN_ID: "31337" });
+    const relayer = new Relayer(relayWallet, pool, { quota: 2, windowMs: 60_000 });
+    const app = await createApp({
+      config,
+      store: new FakeSessionStore(),
+      transcripts: new MemoryTranscriptStore(),
+      signer: serverSigner,
+      chain: new ContractChainReader(new BrowserProvider(network.provider), pool),
+      relayer,
+      rateLimits: false,
+    });
+    server = app.listen(0);
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  async function post<T>(path: string, body: unknown): Promise<{ status: number, json: T }> {
+    const resp = await fetch(`${base}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: resp.status, json: (await resp.json()) as T };
+  }
+
+  // Pay for a session, play it and have it verified: everything up to the
+  // point where the client would otherwise send submitScore itself.
+  async function verifiedRun(): Promise<RelayRequest> {
+    const { json: sess } = await post<SessionResponse>("/session", { address: player.address });
+    const playerSig = await signRelayAuthorization(player, domain, player.address, sess.sessionId);
+    await contract.connect(player).startRun(sess.sessionId, { value: entryFee });
+    const beats: HeartbeatResponse[] = [];
+    for (let i = 1; i <= 3; i++) {
+      await new Promise((r) => setTimeout(r, 5));
+      beats.push((await post<HeartbeatResponse>("/heartbeat", { sessionId: sess.sessionId, i })).json);
+    }
+    const engine = new SnakeEngine(sess.seed);
+    engine.turn({ x: 0, y: 1 }, "ArrowDown");
+    while (!engine.over) engine.step();
+    const runHash = keccak256(toUtf8Bytes(JSON.stringify(engine.inputs)));
+    const { json } = await post<VerifyRunResponse>("/verify-run", {
+      sessionId: sess.sessionId,
+      address: player.address,
+      runHash,
+      inputs: engine.inputs,
+      beats,
+    });
+    return {
+      payload: { player: player.address, sessionId: sess.sessionId, mode: json.mode, day: json.day, score: json.score, runHash, timeDigest: json.timeDigest, deadline: json.deadline },
+      attestSigs: json.attestSigs,
+      playerSig,
+    };
+  }
+
+  it("submits verified runs from its own wallet", async () => {
+    const req = await verifiedRun();
+    const playerBalance = await ethers.provider.getBalance(player.address);
+    const relayerBalance = await ethers.provider.getBalance(relayWallet.address);
+
+    const { status, json } = await post<RelayResponse>("/relay", req);
+    expect(status).to.equal(200);
+    expect(json.remaining).to.equal(1);
+    const receipt = await ethers.provider.getTransactionReceipt(json.txHash);
+    expect(receipt!.from).to.equal(relayWallet.address);
+
+    const run = await contract.runs(req.payload.sessionId);
+    expect(run.finalized).to.equal(true);
+    expect(run.runHash).to.equal(req.payload.runHash);
+    expect((await contract.getLeaderboard(0))[0].player).to.equal(player.address);
+    expect(await ethers.provider.getBalance(player.address)).to.equal(playerBalance);
+    expect(await ethers.provider.getBalance(relayWallet.address)).to.be.lessThan(relayerBalance);
+  });
+
+  it("keeps nonces in order for concurrent relays", async () => {
+    const a = await verifiedRun();
+    const b = await verifiedRun();
+    const nonce = await ethers.provider.getTransactionCount(relayWallet.address);
+    const [ra, rb] = await Promise.all([post<RelayResponse>("/relay", a), post<RelayResponse>("/relay", b)]);
+    expect([ra.status, rb.status]).to.deep.equal([200, 200]);
+    const nonces = await Promise.all([ra, rb].map(async (r) => (await ethers.provider.getTransaction(r.json.txHash))!.nonce));
+    expect(nonces.sort()).to.deep.equal([nonce, nonce + 1]);
+    expect((await contract.runs(b.payload.sessionId)).finalized).to.equal(true);
+  });
+
+  it("refuses submissions the contract would reject without spending gas", async () => {
+    const req = await verifiedRun();
+    const nonce = await ethers.provider.getTransactionCount(relayWallet.address);
+
+    const stranger = Wallet.createRandom();
+    const forged = await signRelayAuthorization(stranger, domain, player.address, req.payload.sessionId);
+    expect(await post("/relay", { ...req, playerSig: forged })).to.deep.equal({ status: 400, json: { error: "BadPlayerSignature" } });
+    const inflated = { ...req, payload: { ...req.payload, score: req.payload.score + 1 } };
+    expect(await post("/relay", inflated)).to.deep.equal({ status: 400, json: { error: "BadAttestation" } });
+    expect((await post("/relay", { ...req, playerSig: "0x1234" })).status).to.equal(400);
+    expect(await ethers.provider.getTransactionCount(relayWallet.address)).to.equal(nonce);
+
+    expect((await post("/relay", req)).status).to.equal(200);
+    expect(await post("/relay", req)).to.deep.equal({ status: 409, json: { error: "already relayed" } });
+  });
+
+  it("serves sessions only after startRun is mined", async () => {
+    const { json: sess } = await post<SessionResponse>("/session", { address: player.address });
+    expect(await post("/heartbeat", { sessionId: sess.sessionId, i: 1 })).to.deep.equal({ status: 403, json: { error: "run not started" } });
+    await contract.connect(player).startRun(sess.sessionId, { value: entryFee });
+    expect((await post("/heartbeat", { sessionId: sess.sessionId, i: 1 })).status).to.equal(200);
+
+    // Someone else paying for the session does not unlock it.
+    const { json: other } = await post<SessionResponse>("/session", { address: player.address });
+    await contract.connect((await ethers.getSigners())[4]).startRun(other.sessionId, { value: entryFee });
+    expect(await post("/heartbeat", { sessionId: other.sessionId, i: 1 })).to.deep.equal({ status: 403, json: { error: "run player mismatch" } });
+  });
+
+  it("enforces a per-player quota", async () => {
+    const runs = [await verifiedRun(), await verifiedRun(), await verifiedRun()];
+    expect((await post("/relay", runs[0])).status).to.equal(200);
+    expect((await post("/relay", runs[1])).status).to.equal(200);
+    expect(await post("/relay", runs[2])).to.deep.equal({ status: 429, json: { error: "relay quota exceeded" } });
+
+    const quota = (await (await fetch(`${base}/relay/quota/${player.address}`)).json()) as RelayQuotaResponse;
+    expect(quota).to.deep.equal({ relayer: relayWallet.address, limit: 2, remaining: 0 });
+    const fresh = (await (await fetch(`${base}/relay/quota/${Wallet.createRandom().address}`)).json()) as RelayQuotaResponse;
+    expect(fresh.remaining).to.equal(2);
+
+    // The player can still submit the run themselves.
+    await expect(contract.connect(player).submitScore(runs[2].payload, runs[2].attestSigs)).to.emit(contract, "ScoreSubmitted");
+  });
+});
@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { ScorePayload, attestationDomain, signScorePayload } from "../shared/attestation";
+import { poolFactory } from "../scripts/deployments";
+
+describe("SnakeBadges", () => {
+  const entryFee = ethers.parseEther("0.0005");
+  const [BOARD_ENTRY, TOP_RANK, SCORE_THRESHOLD] = [0, 1, 2];
+
+  async function deploy(boardSize = 3) {
+    const [owner, feeSink, serverSigner, player, other] = await ethers.getSigners();
+    const pool = await (await poolFactory(hre)).deploy(feeSink.address, serverSigner.address, entryFee, boardSize);
+    const badges = await ethers.deployContract("SnakeBadges", [await pool.getAddress()]);
+    await pool.setBadges(await badges.getAddress());
+    return { pool, badges, owner, serverSigner, player, other };
+  }
+
+  async function signedRun(pool: any, serverSigner: any, player: any, score: bigint, mode = 0) {
+    const sessionId = ethers.keccak256(ethers.randomBytes(32));
+    await pool.connect(player).startRun(sessionId, { value: entryFee });
+    const { chainId } = await ethers.provider.getNetwork();
+    const payload: ScorePayload = {
+      player: player.address,
+      sessionId,
+      mode,
+      day: 0,
+      score,
+      runHash: ethers.keccak256(ethers.randomBytes(32)),
+      timeDigest: ethers.keccak256(ethers.randomBytes(32)),
+      deadline: BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 3600n,
+    };
+    const sig = await signScorePayload(serverSigner, attestationDomain(chainId, await pool.getAddress()), payload);
+    return { payload, sig };
+  }
+
+  async function play(pool: any, serverSigner: any, player: any, score: bigint, mode = 0, gasLimit?: bigint) {
+    const { payload, sig } = await signedRun(pool, serverSigner, player, score, mode);
+    return pool.connect(player).submitScore(payload, [sig], { gasLimit });
+  }
+
+  const kinds = async (badges: any, player: string) =>
+    Promise.all((await badges.badgesOf(player)).map(async (id: bigint) => {
+      const b = await badges.badges(id);
+      return [Number(b.kind), b.threshold];
+    }));
+
+  const decode = (uri: string) => {
+    const [prefix, data] = uri.split(",");
+    expect(prefix).to.match(/;base64$/);
+    return Buffer.from(data, "base64").toString("utf8");
+  };
+
+  it("mints the first board entry, reaching #1 and each score threshold once", async () => {
+    const { pool, badges, serverSigner, player, other } = await deploy();
+    expect(await badges.getThresholds()).to.deep.equal([10n, 25n, 50n, 100n]);
+
+    await expect(play(pool, serverSigner, player, 12n))
+      .to.emit(badges, "BadgeMinted").withArgs(player.address, 1n, BOARD_ENTRY, 12n)
+      .and.to.emit(badges, "BadgeMinted").withArgs(player.address, 2n, TOP_RANK, 12n)
+      .and.to.emit(badges, "BadgeMinted").withArgs(player.address, 3n, SCORE_THRESHOLD, 12n);
+    await play(pool, serverSigner, player, 60n);
+    expect(await kinds(badges, player.address)).to.deep.equal([
+      [BOARD_ENTRY, 0n], [TOP_RANK, 0n], [SCORE_THRESHOLD, 10n], [SCORE_THRESHOLD, 25n], [SCORE_THRESHOLD, 50n],
+    ]);
+    expect(await badges.balanceOf(player.address)).to.equal(5n);
+    const entry = await badges.badges(1n);
+    expect([entry.rank, entry.season, entry.score]).to.deep.equal([1n, 1n, 12n]);
+
+    // Below the leader only the entry badge; other modes earn nothing.
+    await play(pool, serverSigner, other, 5n);
+    await play(pool, serverSigner, other, 500n, 1);
+    expect(await kinds(badges, other.address)).to.deep.equal([[BOARD_ENTRY, 0n]]);
+    expect((await badges.badges(6n)).rank).to.equal(3n);
+
+    // Runs that miss the board still count towards thresholds.
+    await badges.setThresholds([1n, 10n, 1000n]);
+    for (const score of [70n, 80n, 90n]) await play(pool, serverSigner, player, score);
+    await play(pool, serverSigner, other, 3n);
+    expect((await pool.getPlayer(other.address)).bestRank).to.equal(0n);
+    expect(await kinds(badges, other.address)).to.deep.equal([[BOARD_ENTRY, 0n], [SCORE_THRESHOLD, 1n]]);
+    expect(await badges.totalSupply()).to.equal(8n);
+  });
+
+  it("cannot be moved or approved and only takes mints from the pool", async () => {
+    const { pool, badges, serverSigner, player, other } = await deploy();
+    await play(pool, serverSigner, player, 1n);
+    expect(await badges.ownerOf(1n)).to.equal(player.address);
+
+    await expect(badges.connect(player).transferFrom(player.address, other.address, 1n)).to.be.revertedWithCustomError(badges, "Soulbound");
+    await expect(badges.connect(player).approve(other.address, 1n)).to.be.revertedWithCustomError(badges, "Soulbound");
+    await expect(badges.connect(player).setApprovalForAll(other.address, true)).to.be.revertedWithCustomError(badges, "Soulbound");
+    await expect(badges.recordRun(player.address, 1, 100n, 1)).to.be.revertedWithCustomError(badges, "NotMinter");
+    await expect(badges.setThresholds([10n, 10n])).to.be.revertedWithCustomError(badges, "InvalidThresholds");
+    await expect(badges.setThresholds([0n])).to.be.revertedWithCustomError(badges, "InvalidThresholds");
+    await expect(badges.connect(player).setMinter(player.address)).to.be.revertedWithCustomError(badges, "OwnableUnauthorizedAccount");
+    await expect(pool.connect(player).setBadges(player.address)).to.be.revertedWithCustomError(pool, "OwnableUnauthorizedAccount");
+  });
+
+  it("never blocks a score", async () => {
+    const { pool, badges, serverSigner, player, other } = await deploy();
+    await badges.setMinter(other.address);
+    await expect(play(pool, serverSigner, player, 30n)).to.emit(pool, "ScoreSubmitted");
+    expect(await badges.totalSupply()).to.equal(0n);
+
+    await expect(pool.setBadges(other.address)).to.emit(pool, "BadgesUpdated").withArgs(other.address);
+    await expect(play(pool, serverSigner, player, 31n)).to.emit(pool, "ScoreSubmitted");
+
+    // Milestones missed meanwhile are minted on the next qualifying run.
+    await badges.setMinter(await pool.getAddress());
+    await pool.setBadges(await badges.getAddress());
+    await play(pool, serverSigner, player, 1n);
+    expect(await kinds(badges, player.address)).to.deep.equal([[BOARD_ENTRY, 0n], [TOP_RANK, 0n]]);
+    await play(pool, serverSigner, player, 40n);
+    expect(await kinds(badges, player.address)).to.deep.equal([[BOARD_ENTRY, 0n], [TOP_RANK, 0n], [SCORE_THRESHOLD, 10n], [SCORE_THRESHOLD, 25n]]);
+
+    // A badge contract that burns all its gas only costs the submission its stipend.
+    const greedy = await ethers.deployContract("GreedyBadges");
+    await pool.setBadges(await greedy.getAddress());
+    const tx = await play(pool, serverSigner, player, 41n, 0, 5_000_000n);
+    await expect(tx).to.emit(pool, "ScoreSubmitted");
+    expect((await tx.wait())!.gasUsed).to.be.lessThan((await pool.BADGE_GAS()) + 500_000n);
+  });
+
+  it("refuses a submission with too little gas for the badge call instead of skipping it", async () => {
+    const { pool, badges, serverSigner, player } = await deploy();
+    const { payload, sig } = await signedRun(pool, serverSigner, player, 30n);
+    const gas = await pool.connect(player).submitScore.estimateGas(payload, [sig]);
+
+    await expect(pool.connect(player).submitScore(payload, [sig], { gasLimit: gas - 20_000n }))
+      .to.be.revertedWithCustomError(pool, "BadgeGasTooLow");
+    expect(await badges.totalSupply()).to.equal(0n);
+    await expect(pool.connect(player).submitScore(payload, [sig], { gasLimit: gas }))
+      .to.emit(badges, "BadgeMinted").withArgs(player.address, 1n, BOARD_ENTRY, 30n);
+  });
+
+  it("renders metadata and artwork on-chain with the score and date", async () => {
+    const { pool, badges, serverSigner, player } = await deploy();
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    try {
+      // A leap day checks the calendar math.
+      const at = Date.UTC(2032, 1, 29, 12) / 1000;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [at]);
+      await play(pool, serverSigner, player, 27n);
+      await expect(badges.tokenURI(9n)).to.be.revertedWithCustomError(badges, "ERC721NonexistentToken");
+
+      const earnedAt = (await badges.badges(4n)).earnedAt;
+      expect(earnedAt - BigInt(at)).to.be.lessThan(60n);
+      const meta = JSON.parse(decode(await badges.tokenURI(4n)));
+      expect(meta.name).to.equal("Score 25+");
+      expect(meta.description).to.contain("2032-02-29");
+      expect(meta.attributes).to.deep.equal([
+        { trait_type: "Milestone", value: "Score 25+" },
+        { trait_type: "Score", display_type: "number", value: 27 },
+        { trait_type: "Season", display_type: "number", value: 1 },
+        { trait_type: "Earned", display_type: "date", value: Number(earnedAt) },
+      ]);
+      expect(meta.image).to.match(/^data:image\/svg\+xml;base64,/);
+      const svg = decode(meta.image);
+      expect(svg).to.match(/^<svg .*<\/svg>$/);
+      expect(svg).to.contain(">27</text>").and.to.contain("Season 1 - 2032-02-29");
+      expect(JSON.parse(decode(await badges.tokenURI(2n))).name).to.equal("Number one");
+      expect(JSON.parse(decode(await badges.tokenURI(1n))).name).to.equal("On the board");
+    } finally {
+      await ethers.provider.send("evm_revert", [snapshot]);
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { DEFAULT_CONFIG, SnakeEngine, Vec, makeRng, replayRun, speedPoints, tickMsForScore } from "../shared/engine";
+import { GAME_MODES, modeById } from "../shared/modes";
+
+describe("SnakeEngine", () => {
+  const seed = "0x5f1d3c0e9b7a4c2e8d6f1a3b5c7e9d0f2a4b6c8e0d1f3a5b7c9e1d3f5a7b9c0e";
+
+  // Greedy bot that chases food and avoids walls/body; drives the engine the
+  // same way the client's keyboard handler does.
+  function playLive(seedHex: string, maxFrames = 2000) {
+    const engine = new SnakeEngine(seedHex, { ...DEFAULT_CONFIG, maxFrames });
+    const dirs: Vec[] = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 0, y: -1 }];
+    const safe = (d: Vec) => {
+      const h = { x: engine.snake[0].x + d.x, y: engine.snake[0].y + d.y };
+      const g = engine.config.grid;
+      if (h.x < 0 || h.y < 0 || h.x >= g || h.y >= g) return false;
+      return !engine.snake.some((s, i) => i > 0 && s.x === h.x && s.y === h.y);
+    };
+    while (!engine.over) {
+      const head = engine.snake[0];
+      const want = dirs
+        .filter(safe)
+        .sort((a, b) => {
+          const da = Math.abs(head.x + a.x - engine.food.x) + Math.abs(head.y + a.y - engine.food.y);
+          const db = Math.abs(head.x + b.x - engine.food.x) + Math.abs(head.y + b.y - engine.food.y);
+          return da - db;
+        })[0];
+      const cur = engine.direction;
+      if (want && (want.x !== cur.x || want.y !== cur.y)) engine.turn(want, "bot");
+      engine.step();
+      if (!engine.over) {
+        expect(engine.snake.some((s) => s.x === engine.food.x && s.y === engine.food.y)).to.equal(false);
+      }
+    }
+    return engine;
+  }
+
+  it("replays a live transcript to the same score on the server path", () => {
+    const live = playLive(seed);
+    expect(live.score).to.be.greaterThan(0);
+
+    // The client ships the recorded inputs as JSON; replay what the server receives.
+    const wire = JSON.parse(JSON.stringify(live.inputs));
+    const replay = replayRun(wire, seed, { ...DEFAULT_CONFIG, maxFrames: 2000 });
+    expect(replay.score).to.equal(live.score);
+    expect(replay.frames).to.equal(live.frame);
+    expect(replay.endReason).to.equal(live.endReason);
+
+    // runHash is computed over the same transcript on both sides
+    const clientHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(live.inputs)));
+    const serverHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(wire)));
+    expect(serverHash).to.equal(clientHash);
+  });
+
+  it("agrees across many seeds", () => {
+    for (let i = 0; i < 10; i++) {
+      const s = ethers.keccak256(ethers.toUtf8Bytes(`seed-${i}`));
+      const live = playLive(s, 1500);
+      const replay = replayRun(live.inputs, s, { ...DEFAULT_CONFIG, maxFrames: 1500 });
+      expect(replay.score).to.equal(live.score);
+      expect(replay.frames).to.equal(live.frame);
+    }
+  });
+
+  it("never places food on the snake", () => {
+    const engine = new SnakeEngine(seed, { ...DEFAULT_CONFIG, grid: 4, start: { x: 0, y: 0 }, firstFood: { x: 1, y: 0 } });
+    // sweep the 4x4 board row by row so the body fills most of it
+    const path: Vec[] = [
+      { x: 1, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: -1, y: 0 },
+      { x: 0, y: 1 }, { x: 1, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: -1, y: 0 }, { x: -1, y: 0 },
+    ];
+    for (const d of path) {
+      if (engine.over) break;
+      engine.turn(d);
+      engine.step();
+      if (!engine.over) {
+        expect(engine.snake.some((s) => s.x === engine.food.x && s.y === engine.food.y)).to.equal(false);
+      }
+    }
+  });
+
+  it("rejects a reversal made of two turns inside one tick", () => {
+    const engine = new SnakeEngine(seed);
+    expect(engine.turn({ x: 0, y: -1 })).to.equal(true);
+    expect(engine.turn({ x: -1, y: 0 })).to.equal(false);
+    engine.step();
+    expect(engine.over).to.equal(false);
+    expect(engine.snake[0]).to.deep.equal({ x: 5, y: 9 });
+    expect(engine.inputs).to.have.length(1);
+  });
+
+  it("ignores malformed inputs during replay", () => {
+    const clean = replayRun([], seed);
+    const noisy = replayRun([null, { f: "x" }, { f: 0, d: { x: 2, y: 0 } }, { f: 0, d: { x: -1, y: 0 } }], seed);
+    expect(noisy).to.deep.equal(clean);
+    expect(clean.endReason).to.equal("wall");
+  });
+
+  it("ends at the frame cap", () => {
+    // circle in a 2x2 loop forever
+    const inputs = [];
+    for (let f = 0; f < 400; f += 4) {
+      inputs.push({ f, d: { x: 0, y: 1 } }, { f: f + 1, d: { x: -1, y: 0 } }, { f: f + 2, d: { x: 0, y: -1 } }, { f: f + 3, d: { x: 1, y: 0 } });
+    }
+    const res = replayRun(inputs, seed, { ...DEFAULT_CONFIG, maxFrames: 50 });
+    expect(res.frames).to.equal(50);
+    expect(res.endReason).to.equal("frame-cap");
+  });
+
+  it("speeds up with score and seeds its RNG deterministically", () => {
+    expect(tickMsForScore(0)).to.equal(140);
+    expect(tickMsForScore(3)).to.equal(110);
+    expect(tickMsForScore(50)).to.equal(60);
+    const a = makeRng(seed);
+    const b = makeRng(seed);
+    for (let i = 0; i < 5; i++) expect(a()).to.equal(b());
+  });
+
+  describe("game modes", () => {
+    it("wraps around the board edges", () => {
+      const engine = new SnakeEngine(seed, { ...DEFAULT_CONFIG, wrap: true, start: { x: 19, y: 0 }, firstFood: { x: 5, y: 5 } });
+      engine.step();
+      expect(engine.over).to.equal(false);
+      expect(engine.snake[0]).to.deep.equal({ x: 0, y: 0 });
+      expect(replayRun([], seed, modeById(1)!.config).endReason).to.equal("frame-cap");
+    });
+
+    it("ends on obstacles and never places food on them", () => {
+      const blocked = new SnakeEngine(seed, { ...DEFAULT_CONFIG, obstacles: [{ x: 6, y: 10 }] });
+      blocked.step();
+      expect(blocked.endReason).to.equal("obstacle");
+
+      const tiny = new SnakeEngine(seed, { ...DEFAULT_CONFIG, grid: 2, start: { x: 0, y: 0 }, firstFood: { x: 1, y: 0 }, obstacles: [{ x: 0, y: 1 }] });
+      expect(tiny.step().ate).to.equal(true);
+      expect(tiny.food).to.deep.equal({ x: 1, y: 1 });
+    });
+
+    it("pays more for food reached quickly in speed scoring", () => {
+      const engine = new SnakeEngine(seed, { ...DEFAULT_CONFIG, scoring: "speed", firstFood: { x: 6, y: 10 } });
+      engine.step();
+      expect(engine.score).to.equal(5);
+      expect(engine.eaten).to.equal(1);
+      expect(engine.tickMs).to.equal(tickMsForScore(1));
+      expect(speedPoints(25)).to.equal(3);
+      expect(speedPoints(500)).to.equal(1);
+    });
+
+    it("keeps every mode's opening move safe", () => {
+      expect(GAME_MODES.map((m) => m.id)).to.deep.equal([0, 1, 2, 3, 4]);
+      for (const mode of GAME_MODES) {
+        const { start, firstFood, obstacles } = mode.config;
+        expect(obstacles.some((o) => o.y === start.y && o.x >= start.x && o.x <= firstFood.x), mode.key).to.equal(false);
+        expect(replayRun([], seed, mode.config).score, mode.key).to.be.at.least(1);
+      }
+    });
+  });
+});
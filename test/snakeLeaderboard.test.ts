@@ -1,21 +1,51 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import { ScorePayload, attestationDomain, cosignScorePayload, signRelayAuthorization, signScorePayload, signVoidRun } from "../shared/attestation";
+import { permitDomain, signPermit } from "../shared/permit";
+import { poolFactory } from "../scripts/deployments";
 
 describe("SnakeLeaderboard", () => {
   const entryFee = ethers.parseEther("0.0005");
 
-  async function deploy() {
+  async function deploy(boardSize = 25) {
     const [owner, feeSink, serverSigner, player] = await ethers.getSigners();
-    const SnakeLeaderboard = await ethers.getContractFactory("SnakeLeaderboard");
+    const SnakeLeaderboard = await poolFactory(hre);
     const contract = await SnakeLeaderboard.deploy(
       feeSink.address,
       serverSigner.address,
-      entryFee
+      entryFee,
+      boardSize
     );
     await contract.waitForDeployment();
     return { contract, owner, feeSink, serverSigner, player };
   }
 
+  async function domainOf(contract: any) {
+    const { chainId } = await ethers.provider.getNetwork();
+    return attestationDomain(chainId, await contract.getAddress());
+  }
+
+  async function now() {
+    return BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+  }
+
+  // Server-side view of a run: random transcript hashes and an hour to submit.
+  async function attest(contract: any, serverSigner: any, player: string, sessionId: string, score: bigint, overrides: Partial<ScorePayload> = {}) {
+    const payload: ScorePayload = {
+      player,
+      sessionId,
+      mode: 0,
+      day: 0,
+      score,
+      runHash: ethers.keccak256(ethers.randomBytes(32)),
+      timeDigest: ethers.keccak256(ethers.randomBytes(32)),
+      deadline: (await now()) + 3600n,
+      ...overrides,
+    };
+    const sig = await signScorePayload(serverSigner, await domainOf(contract), payload);
+    return { payload, sig };
+  }
+
   it("allows start and score submission", async () => {
     const { contract, serverSigner, player } = await deploy();
 
@@ -23,40 +53,31 @@ describe("SnakeLeaderboard", () => {
 
     await expect(
       contract.connect(player).startRun(sessionId, { value: entryFee })
-    ).to.emit(contract, "RunStarted");
+    ).to.emit(contract, "RunStarted").withArgs(sessionId, player.address, entryFee);
 
     const score = 1234n;
-    const payload = {
-      player: player.address,
-      sessionId,
-      score,
-      runHash: ethers.keccak256(ethers.randomBytes(32)),
-      timeDigest: ethers.keccak256(ethers.randomBytes(32)),
-    };
-
-    const digest = ethers.keccak256(
-      ethers.AbiCoder.defaultAbiCoder().encode(
-        ["address", "bytes32", "uint64", "bytes32", "bytes32"],
-        [payload.player, payload.sessionId, payload.score, payload.runHash, payload.timeDigest]
-      )
-    );
-    const sig = await serverSigner.signMessage(ethers.getBytes(digest));
+    const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, score);
 
     await expect(
-      contract.connect(player).submitScore(payload, sig)
-    ).to.emit(contract, "ScoreSubmitted").withArgs(payload.sessionId, player.address, score, 1);
+      contract.connect(player).submitScore(payload, [sig])
+    ).to.emit(contract, "ScoreSubmitted").withArgs(payload.sessionId, player.address, 0, score, 1);
 
     const stats = await contract.getPlayer(player.address);
     expect(stats.bestScore).to.equal(score);
     expect(stats.runs).to.equal(1);
     expect(stats.bestRank).to.equal(1);
 
-    const board = await contract.getLeaderboard();
+    const board = await contract.getLeaderboard(0);
     expect(board.length).to.equal(1);
     expect(board[0].player).to.equal(player.address);
     expect(board[0].score).to.equal(score);
     expect(board[0].sessionId).to.equal(sessionId);
     expect(Number(board[0].updatedAt)).to.be.greaterThan(0);
+
+    const run = await contract.runs(sessionId);
+    expect(run.player).to.equal(player.address);
+    expect(run.finalized).to.equal(true);
+    expect(run.runHash).to.equal(payload.runHash);
   });
 
   it("keeps only the top 25 scores", async () => {
@@ -75,25 +96,11 @@ describe("SnakeLeaderboard", () => {
       const sessionId = ethers.keccak256(ethers.randomBytes(32));
       await contract.connect(p).startRun(sessionId, { value: entryFee });
 
-      const score = BigInt(1000 + i);
-      const payload = {
-        player: p.address,
-        sessionId,
-        score,
-        runHash: ethers.keccak256(ethers.randomBytes(32)),
-        timeDigest: ethers.keccak256(ethers.randomBytes(32)),
-      };
-      const digest = ethers.keccak256(
-        ethers.AbiCoder.defaultAbiCoder().encode(
-          ["address", "bytes32", "uint64", "bytes32", "bytes32"],
-          [payload.player, payload.sessionId, payload.score, payload.runHash, payload.timeDigest]
-        )
-      );
-      const sig = await serverSigner.signMessage(ethers.getBytes(digest));
-      await contract.connect(p).submitScore(payload, sig);
+      const { payload, sig } = await attest(contract, serverSigner, p.address, sessionId, BigInt(1000 + i));
+      await contract.connect(p).submitScore(payload, [sig]);
     }
 
-    const board = await contract.getLeaderboard();
+    const board = await contract.getLeaderboard(0);
     expect(board.length).to.equal(25);
     for (let i = 1; i < board.length; i++) {
       expect(board[i - 1].score >= board[i].score).to.equal(true);
@@ -103,6 +110,47 @@ describe("SnakeLeaderboard", () => {
     }
   });
 
+  it("caps every board at the size chosen at deployment", async () => {
+    const { contract, serverSigner, player } = await deploy(3);
+    expect(await contract.LEADERBOARD_SIZE()).to.equal(3);
+    for (const score of [10n, 50n, 30n, 20n, 40n]) {
+      await (await play(contract, serverSigner, player, score)).submit();
+    }
+    expect((await contract.getLeaderboard(0)).map((r: any) => r.score)).to.deep.equal([50n, 40n, 30n]);
+    await expect(contract.setPrizeConfig(5000, [4000, 3000, 2000, 1000]))
+      .to.be.revertedWithCustomError(contract, "InvalidSchedule");
+    await expect(deploy(0)).to.be.revertedWithCustomError(contract, "InvalidBoardSize");
+  });
+
+  it("keeps one row per player on the player board", async () => {
+    const { contract, serverSigner, player } = await deploy(3);
+    const [, , , , b, c, d] = await ethers.getSigners();
+    const scores = (rows: any[]) => rows.map((r: any) => [r.player, r.score]);
+
+    for (const score of [10n, 30n, 20n]) {
+      await (await play(contract, serverSigner, player, score)).submit();
+    }
+    await expect((await play(contract, serverSigner, b, 5n)).submit())
+      .to.emit(contract, "PlayerLeaderboardChanged").withArgs(b.address, 0, 5n, 2);
+    expect(scores(await contract.getLeaderboard(0))).to.deep.equal([[player.address, 30n], [player.address, 20n], [player.address, 10n]]);
+    expect(scores(await contract.getPlayerLeaderboard(0))).to.deep.equal([[player.address, 30n], [b.address, 5n]]);
+
+    // A worse run leaves the player's row alone; a better one moves it up in place.
+    await expect((await play(contract, serverSigner, player, 25n)).submit()).to.not.emit(contract, "PlayerLeaderboardChanged");
+    await (await play(contract, serverSigner, c, 1n)).submit();
+    await (await play(contract, serverSigner, d, 2n)).submit();
+    expect(scores(await contract.getPlayerLeaderboard(0))).to.deep.equal([[player.address, 30n], [b.address, 5n], [d.address, 2n]]);
+    await expect((await play(contract, serverSigner, d, 40n)).submit())
+      .to.emit(contract, "PlayerLeaderboardChanged").withArgs(d.address, 0, 40n, 1);
+    expect(scores(await contract.getPlayerLeaderboard(0))).to.deep.equal([[d.address, 40n], [player.address, 30n], [b.address, 5n]]);
+    expect(await contract.getPlayerLeaderboard(1)).to.have.length(0);
+
+    await contract.closeSeason();
+    expect(await contract.getPlayerLeaderboard(0)).to.have.length(0);
+    expect(scores(await contract.getSeasonPlayerLeaderboard(1, 0))).to.deep.equal([[d.address, 40n], [player.address, 30n], [b.address, 5n]]);
+    await expect(contract.getSeasonPlayerLeaderboard(3, 0)).to.be.revertedWithCustomError(contract, "UnknownSeason");
+  });
+
   it("orders ties by most recent submission", async () => {
     const { contract, serverSigner } = await deploy();
     const signers = await ethers.getSigners();
@@ -113,50 +161,18 @@ describe("SnakeLeaderboard", () => {
 
     const sessionA = ethers.keccak256(ethers.randomBytes(32));
     await contract.connect(playerA).startRun(sessionA, { value: entryFee });
-    const payloadA = {
-      player: playerA.address,
-      sessionId: sessionA,
-      score,
-      runHash: ethers.keccak256(ethers.randomBytes(32)),
-      timeDigest: ethers.keccak256(ethers.randomBytes(32))
-    };
-    const digestA = ethers.keccak256(
-      ethers.AbiCoder.defaultAbiCoder().encode([
-        "address",
-        "bytes32",
-        "uint64",
-        "bytes32",
-        "bytes32"
-      ], [payloadA.player, payloadA.sessionId, payloadA.score, payloadA.runHash, payloadA.timeDigest])
-    );
-    const sigA = await serverSigner.signMessage(ethers.getBytes(digestA));
-    await contract.connect(playerA).submitScore(payloadA, sigA);
+    const { payload: payloadA, sig: sigA } = await attest(contract, serverSigner, playerA.address, sessionA, score);
+    await contract.connect(playerA).submitScore(payloadA, [sigA]);
 
     await ethers.provider.send("evm_increaseTime", [5]);
     await ethers.provider.send("evm_mine", []);
 
     const sessionB = ethers.keccak256(ethers.randomBytes(32));
     await contract.connect(playerB).startRun(sessionB, { value: entryFee });
-    const payloadB = {
-      player: playerB.address,
-      sessionId: sessionB,
-      score,
-      runHash: ethers.keccak256(ethers.randomBytes(32)),
-      timeDigest: ethers.keccak256(ethers.randomBytes(32))
-    };
-    const digestB = ethers.keccak256(
-      ethers.AbiCoder.defaultAbiCoder().encode([
-        "address",
-        "bytes32",
-        "uint64",
-        "bytes32",
-        "bytes32"
-      ], [payloadB.player, payloadB.sessionId, payloadB.score, payloadB.runHash, payloadB.timeDigest])
-    );
-    const sigB = await serverSigner.signMessage(ethers.getBytes(digestB));
-    await contract.connect(playerB).submitScore(payloadB, sigB);
+    const { payload: payloadB, sig: sigB } = await attest(contract, serverSigner, playerB.address, sessionB, score);
+    await contract.connect(playerB).submitScore(payloadB, [sigB]);
 
-    const board = await contract.getLeaderboard();
+    const board = await contract.getLeaderboard(0);
     expect(board.length).to.equal(2);
     expect(board[0].score).to.equal(score);
     expect(board[1].score).to.equal(score);
@@ -167,4 +183,897 @@ describe("SnakeLeaderboard", () => {
     expect(statsA.bestRank).to.equal(2);
     expect(statsB.bestRank).to.equal(1);
   });
+
+  async function play(contract: any, serverSigner: any, player: any, score: bigint, mode = 0) {
+    const sessionId = ethers.keccak256(ethers.randomBytes(32));
+    await contract.connect(player).startRun(sessionId, { value: entryFee });
+    return { sessionId, submit: () => submit(contract, serverSigner, player, sessionId, score, mode) };
+  }
+
+  async function submit(contract: any, serverSigner: any, player: any, sessionId: string, score: bigint, mode = 0) {
+    const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, score, { mode });
+    return contract.connect(player).submitScore(payload, [sig]);
+  }
+
+  describe("attestations", () => {
+    it("binds signatures to the chain and contract", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const { contract: other } = await deploy();
+      const domain = await contract.eip712Domain();
+      expect(domain.name).to.equal("SnakeLeaderboard");
+      expect(domain.version).to.equal("1");
+      expect(domain.chainId).to.equal((await ethers.provider.getNetwork()).chainId);
+      expect(domain.verifyingContract).to.equal(await contract.getAddress());
+
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await other.connect(player).startRun(sessionId, { value: entryFee });
+      const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, 10n);
+      await expect(other.connect(player).submitScore(payload, [sig])).to.be.revertedWithCustomError(other, "BadAttestation");
+
+      const foreignChain = attestationDomain(1n, await other.getAddress());
+      const foreignSig = await signScorePayload(serverSigner, foreignChain, payload);
+      await expect(other.connect(player).submitScore(payload, [foreignSig])).to.be.revertedWithCustomError(other, "BadAttestation");
+      await expect(other.connect(player).submitScore({ ...payload, score: 11n }, [sig])).to.be.revertedWithCustomError(other, "BadAttestation");
+
+      const good = await attest(other, serverSigner, player.address, sessionId, 10n);
+      await expect(other.connect(player).submitScore(good.payload, [good.sig])).to.emit(other, "ScoreSubmitted");
+    });
+
+    it("rejects attestations past their deadline", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await contract.connect(player).startRun(sessionId, { value: entryFee });
+      const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, 10n, { deadline: (await now()) + 60n });
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(contract.connect(player).submitScore(payload, [sig])).to.be.revertedWithCustomError(contract, "AttestationExpired");
+      await expect(contract.connect(player).submitScore({ ...payload, deadline: payload.deadline + 3600n }, [sig]))
+        .to.be.revertedWithCustomError(contract, "BadAttestation");
+    });
+  });
+
+  describe("signer set", () => {
+    async function started(contract: any, player: any) {
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await contract.connect(player).startRun(sessionId, { value: entryFee });
+      return sessionId;
+    }
+
+    it("requires threshold signatures from distinct signers in address order", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const a = ethers.Wallet.createRandom();
+      const b = ethers.Wallet.createRandom();
+      await expect(contract.addSigner(a.address)).to.emit(contract, "SignerAdded").withArgs(a.address);
+      await contract.addSigner(b.address);
+      await expect(contract.setSignerThreshold(2)).to.emit(contract, "SignerThresholdUpdated").withArgs(2);
+      expect(await contract.getSigners()).to.deep.equal([serverSigner.address, a.address, b.address]);
+
+      const sessionId = await started(contract, player);
+      const { payload, sig: sigA } = await attest(contract, a, player.address, sessionId, 10n);
+      const domain = await domainOf(contract);
+      const [first, second] = await cosignScorePayload([a, b], domain, payload);
+      const stranger = ethers.Wallet.createRandom();
+      const submit = (sigs: string[]) => contract.connect(player).submitScore(payload, sigs);
+
+      await expect(submit([sigA])).to.be.revertedWithCustomError(contract, "BadAttestation");
+      await expect(submit([sigA, sigA])).to.be.revertedWithCustomError(contract, "BadAttestation");
+      await expect(submit([second, first])).to.be.revertedWithCustomError(contract, "BadAttestation");
+      await expect(submit(await cosignScorePayload([a, stranger], domain, payload))).to.be.revertedWithCustomError(contract, "BadAttestation");
+      await expect(submit(await cosignScorePayload([a, stranger, b], domain, payload))).to.emit(contract, "ScoreSubmitted");
+    });
+
+    it("keeps a removed signer valid through the grace period", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const next = ethers.Wallet.createRandom();
+      await expect(contract.setSignerGracePeriod(600)).to.emit(contract, "SignerGracePeriodUpdated").withArgs(600);
+      await contract.addSigner(next.address);
+      const early = await attest(contract, serverSigner, player.address, await started(contract, player), 10n);
+      const late = await attest(contract, serverSigner, player.address, await started(contract, player), 20n);
+
+      const tx = await contract.removeSigner(serverSigner.address);
+      const ts = BigInt((await ethers.provider.getBlock(tx.blockNumber!))!.timestamp);
+      await expect(tx).to.emit(contract, "SignerRemoved").withArgs(serverSigner.address, ts + 600n);
+      expect(await contract.getSigners()).to.deep.equal([next.address]);
+
+      await expect(contract.connect(player).submitScore(early.payload, [early.sig])).to.emit(contract, "ScoreSubmitted");
+      await ethers.provider.send("evm_increaseTime", [601]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(contract.connect(player).submitScore(late.payload, [late.sig]))
+        .to.be.revertedWithCustomError(contract, "BadAttestation");
+      const fresh = await attest(contract, next, player.address, late.payload.sessionId, 20n);
+      await expect(contract.connect(player).submitScore(fresh.payload, [fresh.sig])).to.emit(contract, "ScoreSubmitted");
+    });
+
+    it("guards membership and threshold changes", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const other = ethers.Wallet.createRandom().address;
+      await expect(contract.removeSigner(serverSigner.address)).to.be.revertedWithCustomError(contract, "InvalidThreshold");
+      await expect(contract.removeSigner(other)).to.be.revertedWithCustomError(contract, "InvalidSigner");
+      await expect(contract.addSigner(serverSigner.address)).to.be.revertedWithCustomError(contract, "InvalidSigner");
+      await expect(contract.addSigner(ethers.ZeroAddress)).to.be.revertedWithCustomError(contract, "InvalidSigner");
+      await expect(contract.setSignerThreshold(0)).to.be.revertedWithCustomError(contract, "InvalidThreshold");
+      await expect(contract.setSignerThreshold(2)).to.be.revertedWithCustomError(contract, "InvalidThreshold");
+      await expect(contract.connect(player).addSigner(other))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+
+      await contract.addSigner(other);
+      await expect(contract.removeSigner(other)).to.emit(contract, "SignerRemoved");
+      await expect(contract.addSigner(other)).to.emit(contract, "SignerAdded");
+      expect(await contract.signerValidUntil(other)).to.equal(2n ** 64n - 1n);
+    });
+  });
+
+  describe("seasons", () => {
+    it("archives the board and resets season stats on rollover", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const other = (await ethers.getSigners())[4];
+      expect(await contract.currentSeason()).to.equal(1);
+
+      await (await play(contract, serverSigner, player, 900n)).submit();
+      await (await play(contract, serverSigner, other, 400n)).submit();
+
+      await expect(contract.closeSeason())
+        .to.emit(contract, "SeasonClosed").withArgs(1, 2)
+        .and.to.emit(contract, "SeasonStarted").withArgs(2);
+      expect(await contract.currentSeason()).to.equal(2);
+      expect((await contract.seasons(1)).closedAt).to.be.greaterThan(0);
+
+      expect(await contract.getLeaderboard(0)).to.have.length(0);
+      const archive = await contract.getSeasonLeaderboard(1, 0);
+      expect(archive.map((r: any) => r.score)).to.deep.equal([900n, 400n]);
+      expect(archive[0].player).to.equal(player.address);
+
+      // lifetime stats survive, live rank and season stats start over
+      const lifetime = await contract.getPlayer(player.address);
+      expect(lifetime.bestScore).to.equal(900n);
+      expect(lifetime.runs).to.equal(1);
+      expect(lifetime.bestRank).to.equal(0);
+      const s1 = await contract.getSeasonPlayer(1, player.address);
+      expect(s1.bestScore).to.equal(900n);
+      expect(s1.bestRank).to.equal(1);
+      const s2 = await contract.getSeasonPlayer(2, player.address);
+      expect(s2.bestScore).to.equal(0);
+      expect(s2.runs).to.equal(0);
+
+      // a lower score now tops the fresh board without touching the archive
+      await (await play(contract, serverSigner, other, 100n)).submit();
+      expect((await contract.getLeaderboard(0))[0].player).to.equal(other.address);
+      expect((await contract.getPlayer(other.address)).bestRank).to.equal(1);
+      expect((await contract.getSeasonPlayer(1, other.address)).bestRank).to.equal(2);
+      expect(await contract.getSeasonLeaderboard(1, 0)).to.have.length(2);
+    });
+
+    it("keeps runs paid in a closed season off the new board", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const run = await play(contract, serverSigner, player, 700n);
+      await contract.closeSeason();
+
+      await expect(run.submit())
+        .to.emit(contract, "ScoreSubmitted").withArgs(run.sessionId, player.address, 0, 700n, 0);
+      expect(await contract.getLeaderboard(0)).to.have.length(0);
+      expect(await contract.getSeasonLeaderboard(1, 0)).to.have.length(0);
+      expect((await contract.getSeasonPlayer(1, player.address)).bestScore).to.equal(700n);
+      expect((await contract.getPlayer(player.address)).bestScore).to.equal(700n);
+    });
+
+    it("restricts rollover to the owner and rejects unknown seasons", async () => {
+      const { contract, player } = await deploy();
+      await expect(contract.connect(player).closeSeason())
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      await expect(contract.getSeasonLeaderboard(0, 0)).to.be.revertedWithCustomError(contract, "UnknownSeason");
+      await expect(contract.getSeasonLeaderboard(2, 0)).to.be.revertedWithCustomError(contract, "UnknownSeason");
+    });
+
+    describe("prize pool", () => {
+      it("splits the pool among the top entries at season close", async () => {
+        const { contract, serverSigner, feeSink, player } = await deploy();
+        const [, , , , second, third] = await ethers.getSigners();
+        await expect(contract.setPrizeConfig(5000, [6000, 3000]))
+          .to.emit(contract, "PrizeConfigUpdated").withArgs(5000, [6000, 3000]);
+
+        await (await play(contract, serverSigner, player, 300n)).submit();
+        await (await play(contract, serverSigner, second, 200n)).submit();
+        await (await play(contract, serverSigner, third, 100n)).submit();
+
+        const pool = (entryFee * 3n) / 2n;
+        expect(await contract.prizePool()).to.equal(pool);
+
+        await expect(contract.closeSeason())
+          .to.emit(contract, "PrizeAwarded").withArgs(1, player.address, 1, (pool * 6000n) / 10000n, ethers.ZeroAddress)
+          .and.to.emit(contract, "PrizePoolSettled").withArgs(1, pool, (pool * 9000n) / 10000n, pool / 10n, ethers.ZeroAddress);
+        expect(await contract.prizePool()).to.equal(0);
+        expect(await contract.claimable(player.address)).to.equal((pool * 6000n) / 10000n);
+        expect(await contract.claimable(second.address)).to.equal((pool * 3000n) / 10000n);
+        expect(await contract.claimable(third.address)).to.equal(0);
+        expect(await contract.claimable(feeSink.address)).to.equal(pool / 10n);
+
+        await expect(contract.connect(player).claimPrize())
+          .to.changeEtherBalances([player, contract], [(pool * 6000n) / 10000n, -(pool * 6000n) / 10000n]);
+        await expect(contract.connect(player).claimPrize()).to.be.revertedWithCustomError(contract, "NothingToClaim");
+        await expect(contract.connect(feeSink).claimPrize()).to.changeEtherBalance(feeSink, pool / 10n);
+      });
+
+      it("keeps the pool and unclaimed prizes out of owner withdrawals", async () => {
+        const { contract, serverSigner, owner, player } = await deploy();
+        await contract.setPrizeConfig(4000, [10000]);
+        await (await play(contract, serverSigner, player, 10n)).submit();
+
+        const free = entryFee - (entryFee * 4000n) / 10000n;
+        await expect(contract.withdraw(owner.address, free + 1n)).to.be.revertedWith("exceeds free balance");
+        await contract.closeSeason();
+        await expect(contract.withdraw(owner.address, free + 1n)).to.be.revertedWith("exceeds free balance");
+        await expect(contract.withdraw(owner.address, free)).to.changeEtherBalance(owner, free);
+        await expect(contract.connect(player).claimPrize()).to.changeEtherBalance(player, entryFee - free);
+      });
+
+      it("rejects schedules that pay out more than the pool", async () => {
+        const { contract, player } = await deploy();
+        await expect(contract.setPrizeConfig(10001, [])).to.be.revertedWithCustomError(contract, "InvalidSchedule");
+        await expect(contract.setPrizeConfig(1000, [6000, 4001])).to.be.revertedWithCustomError(contract, "InvalidSchedule");
+        await expect(contract.connect(player).setPrizeConfig(1000, [10000]))
+          .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      });
+    });
+  });
+
+  describe("game modes", () => {
+    it("keeps a separate board per mode", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const other = (await ethers.getSigners())[4];
+      await (await play(contract, serverSigner, player, 50n)).submit();
+
+      const blitz = await play(contract, serverSigner, player, 400n, 4);
+      await expect(blitz.submit())
+        .to.emit(contract, "LeaderboardChanged").withArgs(player.address, 4, 400n, 1)
+        .and.to.emit(contract, "ScoreSubmitted").withArgs(blitz.sessionId, player.address, 4, 400n, 1);
+      const rival = await play(contract, serverSigner, other, 900n, 4);
+      await expect(rival.submit())
+        .to.emit(contract, "ScoreSubmitted").withArgs(rival.sessionId, other.address, 4, 900n, 1);
+
+      expect((await contract.getLeaderboard(4)).map((r: any) => r.player)).to.deep.equal([other.address, player.address]);
+      expect(await contract.leaderboardLength(0)).to.equal(1);
+      expect(await contract.leaderboardLength(1)).to.equal(0);
+
+      // stats follow the classic board only
+      const stats = await contract.getPlayer(player.address);
+      expect(stats.bestScore).to.equal(50n);
+      expect(stats.bestRank).to.equal(1);
+      expect(stats.runs).to.equal(2);
+      expect((await contract.getPlayer(other.address)).bestScore).to.equal(0);
+    });
+
+    it("binds the mode into the signed payload", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await contract.connect(player).startRun(sessionId, { value: entryFee });
+      const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, 10n, { mode: 1 });
+      await expect(contract.connect(player).submitScore({ ...payload, mode: 0 }, [sig]))
+        .to.be.revertedWithCustomError(contract, "BadAttestation");
+      await contract.connect(player).submitScore(payload, [sig]);
+      expect(await contract.leaderboardLength(1)).to.equal(1);
+    });
+
+    it("archives every mode's board and pays prizes from the classic one", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const other = (await ethers.getSigners())[4];
+      await contract.setPrizeConfig(5000, [10000]);
+      await (await play(contract, serverSigner, other, 10n)).submit();
+      await (await play(contract, serverSigner, player, 99n, 2)).submit();
+
+      await expect(contract.closeSeason()).to.emit(contract, "SeasonClosed").withArgs(1, 1);
+      expect(await contract.claimable(other.address)).to.equal(entryFee);
+      expect(await contract.claimable(player.address)).to.equal(0);
+      expect(await contract.getLeaderboard(2)).to.have.length(0);
+      expect((await contract.getSeasonLeaderboard(1, 2))[0].score).to.equal(99n);
+    });
+  });
+
+  describe("daily challenge", () => {
+    async function daily(contract: any, player: any, day: bigint) {
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await contract.connect(player).startDailyRun(sessionId, day, { value: entryFee });
+      return sessionId;
+    }
+
+    it("keeps a board per day apart from the season boards", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const day = await contract.currentDay();
+      expect(day).to.equal((await now()) / 86400n);
+
+      const sessionId = await daily(contract, player, day);
+      const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, 42n, { day: Number(day) });
+      await expect(contract.connect(player).submitScore(payload, [sig]))
+        .to.emit(contract, "DailyLeaderboardChanged").withArgs(day, player.address, 42n, 1)
+        .and.to.emit(contract, "ScoreSubmitted").withArgs(sessionId, player.address, 0, 42n, 1);
+
+      expect((await contract.getDailyLeaderboard(day))[0].sessionId).to.equal(sessionId);
+      expect(await contract.leaderboardLength(0)).to.equal(0);
+      const stats = await contract.getPlayer(player.address);
+      expect(stats.bestScore).to.equal(0);
+      expect(stats.runs).to.equal(1);
+    });
+
+    it("limits paid attempts per player and day", async () => {
+      const { contract, player } = await deploy();
+      const other = (await ethers.getSigners())[4];
+      const day = await contract.currentDay();
+      await expect(daily(contract, player, day + 1n)).to.be.revertedWithCustomError(contract, "WrongDay");
+
+      const started = contract.connect(player).startDailyRun(ethers.keccak256("0x01"), day, { value: entryFee });
+      await expect(started).to.emit(contract, "DailyRunStarted").withArgs(ethers.keccak256("0x01"), player.address, day, 1);
+      await daily(contract, player, day);
+      await daily(contract, player, day);
+      await expect(daily(contract, player, day)).to.be.revertedWithCustomError(contract, "DailyLimitReached");
+      expect(await contract.dailyAttempts(day, player.address)).to.equal(3);
+      await daily(contract, other, day);
+
+      await ethers.provider.send("evm_increaseTime", [86400]);
+      await ethers.provider.send("evm_mine", []);
+      await daily(contract, player, day + 1n);
+
+      await expect(contract.connect(player).setDailyAttemptLimit(5))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      await expect(contract.setDailyAttemptLimit(0)).to.emit(contract, "DailyAttemptLimitUpdated").withArgs(0);
+      await expect(daily(contract, other, day + 1n)).to.be.revertedWithCustomError(contract, "DailyLimitReached");
+    });
+
+    it("binds the day into the signed payload", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const day = await contract.currentDay();
+      const dailyRun = await daily(contract, player, day);
+      const regular = await attest(contract, serverSigner, player.address, dailyRun, 10n);
+      await expect(contract.connect(player).submitScore(regular.payload, [regular.sig]))
+        .to.be.revertedWithCustomError(contract, "InvalidSession");
+
+      const run = await play(contract, serverSigner, player, 10n);
+      const dated = await attest(contract, serverSigner, player.address, run.sessionId, 10n, { day: Number(day) });
+      await expect(contract.connect(player).submitScore(dated.payload, [dated.sig]))
+        .to.be.revertedWithCustomError(contract, "InvalidSession");
+      await expect(contract.connect(player).submitScore({ ...dated.payload, day: 0 }, [dated.sig]))
+        .to.be.revertedWithCustomError(contract, "BadAttestation");
+    });
+  });
+
+  describe("relayed submissions", () => {
+    it("records a relayed run for the player who authorized it", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const relayer = (await ethers.getSigners())[5];
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await contract.connect(player).startRun(sessionId, { value: entryFee });
+      const playerSig = await signRelayAuthorization(player, await domainOf(contract), player.address, sessionId);
+      const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, 77n);
+
+      await expect(contract.connect(relayer).submitScoreFor(payload, [sig], playerSig))
+        .to.emit(contract, "ScoreSubmitted").withArgs(sessionId, player.address, 0, 77n, 1)
+        .and.to.emit(contract, "LeaderboardChanged").withArgs(player.address, 0, 77n, 1);
+      expect((await contract.getPlayer(player.address)).bestScore).to.equal(77n);
+      expect((await contract.getPlayer(relayer.address)).bestScore).to.equal(0);
+      expect((await contract.getLeaderboard(0))[0].player).to.equal(player.address);
+      await expect(contract.connect(relayer).submitScoreFor(payload, [sig], playerSig))
+        .to.be.revertedWithCustomError(contract, "RunFinalized");
+    });
+
+    it("requires the player's authorization for that session", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const [relayer, stranger] = (await ethers.getSigners()).slice(5);
+      const domain = await domainOf(contract);
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await contract.connect(player).startRun(sessionId, { value: entryFee });
+      const { payload, sig } = await attest(contract, serverSigner, player.address, sessionId, 5n);
+
+      const otherSession = await signRelayAuthorization(player, domain, player.address, ethers.keccak256("0x01"));
+      const forged = await signRelayAuthorization(stranger, domain, player.address, sessionId);
+      const foreign = await signRelayAuthorization(player, attestationDomain(1n, await contract.getAddress()), player.address, sessionId);
+      for (const playerSig of [otherSession, forged, foreign]) {
+        await expect(contract.connect(relayer).submitScoreFor(payload, [sig], playerSig))
+          .to.be.revertedWithCustomError(contract, "BadPlayerSignature");
+      }
+
+      // An authorization does not let the relayer reassign the run.
+      const own = await signRelayAuthorization(stranger, domain, stranger.address, sessionId);
+      const moved = await attest(contract, serverSigner, stranger.address, sessionId, 5n);
+      await expect(contract.connect(relayer).submitScoreFor(moved.payload, [moved.sig], own))
+        .to.be.revertedWithCustomError(contract, "InvalidSession");
+    });
+  });
+
+  describe("batched submissions", () => {
+    // Paid runs by `players` in turn, attested and authorized for a relayer.
+    async function batchOf(contract: any, serverSigner: any, players: any[], scores: bigint[]) {
+      const domain = await domainOf(contract);
+      const payloads: ScorePayload[] = [];
+      const sigs: string[][] = [];
+      const playerSigs: string[] = [];
+      for (let i = 0; i < scores.length; i++) {
+        const p = players[i % players.length];
+        const sessionId = ethers.keccak256(ethers.randomBytes(32));
+        await contract.connect(p).startRun(sessionId, { value: entryFee });
+        const { payload, sig } = await attest(contract, serverSigner, p.address, sessionId, scores[i]);
+        payloads.push(payload);
+        sigs.push([sig]);
+        playerSigs.push(await signRelayAuthorization(p, domain, p.address, sessionId));
+      }
+      return { payloads, sigs, playerSigs };
+    }
+
+    it("records valid runs and skips bad entries", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const signers = await ethers.getSigners();
+      const [relayer, other] = [signers[5], signers[6]];
+      const { payloads, sigs, playerSigs } = await batchOf(contract, serverSigner, [player, other], [30n, 50n, 40n, 20n, 10n]);
+
+      const forged = await signRelayAuthorization(relayer, await domainOf(contract), other.address, payloads[3].sessionId);
+      const expired = await attest(contract, serverSigner, player.address, payloads[4].sessionId, 10n, { deadline: 1n });
+      await contract.connect(player).submitScore(payloads[2], sigs[2]);
+      const batch = {
+        payloads: [payloads[0], payloads[1], payloads[3], expired.payload, payloads[0], payloads[2]],
+        sigs: [sigs[0], sigs[1], sigs[3], [expired.sig], sigs[0], sigs[2]],
+        playerSigs: [playerSigs[0], playerSigs[1], forged, playerSigs[4], playerSigs[0], playerSigs[2]],
+      };
+
+      expect(await contract.connect(relayer).submitScores.staticCall(batch.payloads, batch.sigs, batch.playerSigs)).to.equal(2);
+      const tx = contract.connect(relayer).submitScores(batch.payloads, batch.sigs, batch.playerSigs);
+      const selector = (name: string) => contract.interface.getError(name)!.selector;
+      await expect(tx)
+        .to.emit(contract, "ScoreSubmitted").withArgs(payloads[1].sessionId, other.address, 0, 50n, 1)
+        .and.to.emit(contract, "ScoreSkipped").withArgs(payloads[3].sessionId, other.address, selector("BadPlayerSignature"))
+        .and.to.emit(contract, "ScoreSkipped").withArgs(payloads[4].sessionId, player.address, selector("AttestationExpired"))
+        .and.to.emit(contract, "ScoreSkipped").withArgs(payloads[0].sessionId, player.address, selector("RunFinalized"))
+        .and.to.emit(contract, "ScoreSkipped").withArgs(payloads[2].sessionId, player.address, selector("RunFinalized"));
+
+      const board = await contract.getLeaderboard(0);
+      expect(board.map((e: any) => e.score)).to.deep.equal([50n, 40n, 30n]);
+      expect((await contract.getPlayer(other.address)).bestRank).to.equal(1);
+      expect((await contract.getPlayer(player.address)).bestRank).to.equal(2);
+      expect((await contract.getSeasonPlayer(1, player.address)).bestRank).to.equal(2);
+      expect((await contract.runs(payloads[3].sessionId)).finalized).to.equal(false);
+      expect((await contract.runs(payloads[4].sessionId)).finalized).to.equal(false);
+
+      // A forged score fails the attestation check rather than the batch.
+      const tampered = await batchOf(contract, serverSigner, [player], [5n]);
+      await expect(contract.connect(player).submitScores([{ ...tampered.payloads[0], score: 6n }], tampered.sigs, ["0x"]))
+        .to.emit(contract, "ScoreSkipped").withArgs(tampered.payloads[0].sessionId, player.address, selector("BadAttestation"));
+      await expect(contract.connect(player).submitScores(tampered.payloads, tampered.sigs, ["0x"]))
+        .to.emit(contract, "ScoreSubmitted").withArgs(tampered.payloads[0].sessionId, player.address, 0, 5n, 2);
+    });
+
+    it("rejects batches with mismatched arrays", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const { payloads, sigs } = await batchOf(contract, serverSigner, [player], [1n, 2n]);
+      await expect(contract.connect(player).submitScores(payloads, sigs.slice(1), ["0x", "0x"]))
+        .to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await expect(contract.connect(player).submitScores(payloads, sigs, ["0x"]))
+        .to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("costs less gas per run than single submissions", async () => {
+      const signers = await ethers.getSigners();
+      const relayer = signers[5];
+      const players = signers.slice(6, 16);
+      // Every measurement starts from a full board and uses rising scores, so
+      // each run enters the board and moves the ranks.
+      async function fullBoard() {
+        const { contract, serverSigner } = await deploy();
+        const fill = await batchOf(contract, serverSigner, players, Array.from({ length: 25 }, (_, i) => BigInt(i + 1)));
+        await contract.connect(relayer).submitScores(fill.payloads, fill.sigs, fill.playerSigs);
+        const runs = (n: number) => batchOf(contract, serverSigner, players, Array.from({ length: n }, (_, i) => BigInt(100 + i)));
+        return { contract, runs };
+      }
+
+      const perRun: Record<string, bigint> = {};
+      {
+        const { contract, runs } = await fullBoard();
+        const { payloads, sigs, playerSigs } = await runs(10);
+        let gas = 0n;
+        for (let i = 0; i < 10; i++) {
+          const tx = await contract.connect(relayer).submitScoreFor(payloads[i], sigs[i], playerSigs[i]);
+          gas += (await tx.wait())!.gasUsed;
+        }
+        perRun["submitScoreFor"] = gas / 10n;
+      }
+      for (const n of [1, 10, 50]) {
+        const { contract, runs } = await fullBoard();
+        const { payloads, sigs, playerSigs } = await runs(n);
+        const tx = await contract.connect(relayer).submitScores(payloads, sigs, playerSigs);
+        perRun[`submitScores x${n}`] = (await tx.wait())!.gasUsed / BigInt(n);
+        const board = await contract.getLeaderboard(0);
+        expect(board[0].score).to.equal(BigInt(100 + n - 1));
+        expect((await contract.getPlayer(board[0].player)).bestRank).to.equal(1);
+      }
+      console.table(Object.fromEntries(Object.entries(perRun).map(([k, v]) => [k, { "gas per run": Number(v) }])));
+
+      expect(perRun["submitScores x10"]).to.be.lessThan(perRun["submitScoreFor"]);
+      expect(perRun["submitScores x50"]).to.be.lessThan(perRun["submitScores x10"]);
+    });
+  });
+
+  describe("pause", () => {
+    it("lets the owner or guardian halt runs and only the owner resume them", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      const [, , , , guardian] = await ethers.getSigners();
+      await contract.setRefundPolicy(0, 10000);
+      const run = await play(contract, serverSigner, player, 50n);
+
+      await expect(contract.connect(guardian).pause()).to.be.revertedWithCustomError(contract, "NotGuardian");
+      await expect(contract.connect(guardian).setGuardian(guardian.address)).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      await expect(contract.setGuardian(guardian.address)).to.emit(contract, "GuardianUpdated").withArgs(guardian.address);
+      await expect(contract.connect(guardian).pause()).to.emit(contract, "Paused").withArgs(guardian.address);
+      expect(await contract.paused()).to.equal(true);
+
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await expect(contract.connect(player).startRun(sessionId, { value: entryFee })).to.be.revertedWithCustomError(contract, "EnforcedPause");
+      await expect(contract.connect(player).startDailyRun(sessionId, await contract.currentDay(), { value: entryFee }))
+        .to.be.revertedWithCustomError(contract, "EnforcedPause");
+      await expect(run.submit()).to.be.revertedWithCustomError(contract, "EnforcedPause");
+      await expect(contract.connect(player).submitScores([], [], [])).to.be.revertedWithCustomError(contract, "EnforcedPause");
+      await expect(contract.connect(guardian).unpause()).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+
+      // Players can still get their fees back.
+      const sig = await signVoidRun(serverSigner, await domainOf(contract), player.address, run.sessionId);
+      await expect(contract.voidRun(run.sessionId, sig)).to.changeEtherBalance(player, entryFee);
+
+      await expect(contract.unpause()).to.emit(contract, "Unpaused");
+      await expect(contract.connect(player).startRun(sessionId, { value: entryFee })).to.emit(contract, "RunStarted");
+    });
+  });
+
+  describe("timelock", () => {
+    async function delayed(delay: number) {
+      const d = await deploy();
+      await d.contract.setAdminDelay(delay);
+      return d;
+    }
+
+    const call = (contract: any, fn: string, args: unknown[]) => contract.interface.encodeFunctionData(fn, args);
+    const idOf = (data: string) => ethers.keccak256(data);
+
+    async function wait(seconds: number) {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    it("applies fee and signer changes at once while the delay is 0", async () => {
+      const { contract, player } = await deploy();
+      expect(await contract.adminDelay()).to.equal(0);
+      await expect(contract.setEntryFee(1n)).to.emit(contract, "FeesUpdated").withArgs(1n);
+      await expect(contract.connect(player).setAdminDelay(60)).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      await expect(contract.setAdminDelay(31 * 24 * 3600)).to.be.revertedWithCustomError(contract, "InvalidDelay");
+      await expect(contract.setAdminDelay(3600)).to.emit(contract, "AdminDelayUpdated").withArgs(3600);
+      // Lowering the delay is a change like any other.
+      await expect(contract.setAdminDelay(0)).to.be.revertedWithCustomError(contract, "Timelocked");
+    });
+
+    it("holds queued changes for the delay and publishes them meanwhile", async () => {
+      const { contract, player } = await delayed(3600);
+      await expect(contract.setEntryFee(1n)).to.be.revertedWithCustomError(contract, "Timelocked");
+      await expect(contract.addSigner(player.address)).to.be.revertedWithCustomError(contract, "Timelocked");
+      await expect(contract.setFeeSink(player.address)).to.be.revertedWithCustomError(contract, "Timelocked");
+      await expect(contract.setPrizeConfig(5000, [10000])).to.be.revertedWithCustomError(contract, "Timelocked");
+      await expect(contract.setRefundPolicy(60, 10000)).to.be.revertedWithCustomError(contract, "Timelocked");
+      await expect(contract.setReferralBps(500)).to.be.revertedWithCustomError(contract, "Timelocked");
+      await expect(contract.setBadges(player.address)).to.be.revertedWithCustomError(contract, "Timelocked");
+
+      const data = call(contract, "setEntryFee", [1n]);
+      const tx = contract.queueChange(data);
+      const eta = (await now()) + 1n + 3600n;
+      await expect(tx).to.emit(contract, "ChangeQueued").withArgs(idOf(data), data, eta);
+      expect((await contract.getPendingChanges()).map((c: any) => [c.data, c.eta])).to.deep.equal([[data, eta]]);
+      await expect(contract.queueChange(data)).to.be.revertedWithCustomError(contract, "ChangeAlreadyQueued");
+
+      await expect(contract.executeChange(idOf(data))).to.be.revertedWithCustomError(contract, "ChangeNotReady");
+      await wait(3600);
+      await expect(contract.connect(player).executeChange(idOf(data))).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      await expect(contract.executeChange(idOf(data)))
+        .to.emit(contract, "ChangeExecuted").withArgs(idOf(data), data)
+        .and.to.emit(contract, "FeesUpdated").withArgs(1n);
+      expect(await contract.entryFeeWei()).to.equal(1n);
+      expect(await contract.getPendingChanges()).to.have.length(0);
+      await expect(contract.executeChange(idOf(data))).to.be.revertedWithCustomError(contract, "UnknownChange");
+    });
+
+    it("cancels queued changes", async () => {
+      const { contract, player } = await delayed(60);
+      const changes = [
+        call(contract, "addSigner", [player.address]),
+        call(contract, "setSignerGracePeriod", [600]),
+        call(contract, "setAdminDelay", [0]),
+      ];
+      for (const data of changes) await contract.queueChange(data);
+      await expect(contract.connect(player).cancelChange(idOf(changes[0]))).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      await expect(contract.cancelChange(idOf(changes[0]))).to.emit(contract, "ChangeCancelled").withArgs(idOf(changes[0]), changes[0]);
+      expect((await contract.getPendingChanges()).map((c: any) => c.data)).to.have.members(changes.slice(1));
+      await expect(contract.cancelChange(idOf(changes[0]))).to.be.revertedWithCustomError(contract, "UnknownChange");
+
+      await wait(60);
+      await contract.executeChange(idOf(changes[2]));
+      expect(await contract.adminDelay()).to.equal(0);
+      await contract.executeChange(idOf(changes[1]));
+      expect(await contract.signerGracePeriod()).to.equal(600);
+      expect(await contract.getSigners()).to.not.include(player.address);
+    });
+
+    it("only queues timelocked setters and surfaces their errors on execution", async () => {
+      const { contract, owner, player } = await delayed(60);
+      await expect(contract.connect(player).queueChange(call(contract, "setEntryFee", [1n]))).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      for (const data of [call(contract, "withdraw", [owner.address, 1n]), call(contract, "unpause", []), "0x1234"]) {
+        await expect(contract.queueChange(data)).to.be.revertedWithCustomError(contract, "NotTimelocked");
+      }
+      const data = call(contract, "setSignerThreshold", [2]);
+      await contract.queueChange(data);
+      await wait(60);
+      await expect(contract.executeChange(idOf(data))).to.be.revertedWithCustomError(contract, "InvalidThreshold");
+      expect(await contract.getPendingChanges()).to.have.length(1);
+    });
+
+    it("lets a paused pool drop a leaked signer", async () => {
+      const { contract, serverSigner, player } = await delayed(60);
+      await contract.queueChange(call(contract, "addSigner", [player.address]));
+      await wait(60);
+      await contract.executeChange(idOf(call(contract, "addSigner", [player.address])));
+      await contract.pause();
+      const data = call(contract, "removeSigner", [serverSigner.address]);
+      await contract.queueChange(data);
+      await wait(60);
+      await expect(contract.executeChange(idOf(data))).to.emit(contract, "SignerRemoved");
+      expect(await contract.getSigners()).to.deep.equal([player.address]);
+    });
+  });
+
+  describe("token entry fees", () => {
+    const tokenFee = 2_000_000n; // 2 USDC
+
+    async function withToken() {
+      const d = await deploy();
+      const token = await ethers.deployContract("MockERC20Permit", ["USD Coin", "USDC"]);
+      await token.mint(d.player.address, tokenFee * 10n);
+      await d.contract.setTokenEntryFee(await token.getAddress(), tokenFee);
+      return { ...d, token };
+    }
+
+    const noPermit = { deadline: 0, v: 0, r: ethers.ZeroHash, s: ethers.ZeroHash };
+
+    async function permitFor(token: any, owner: any, spender: string, value: bigint) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const deadline = (await now()) + 3600n;
+      const domain = permitDomain(await token.name(), chainId, await token.getAddress());
+      const sig = await signPermit(owner, domain, { owner: owner.address, spender, value, nonce: await token.nonces(owner.address), deadline });
+      const { v, r, s } = ethers.Signature.from(sig);
+      return { deadline, v, r, s };
+    }
+
+    async function playWithToken(contract: any, token: any, serverSigner: any, player: any, score: bigint) {
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      const permit = await permitFor(token, player, await contract.getAddress(), tokenFee);
+      await contract.connect(player).startRunWithToken(sessionId, 0, await token.getAddress(), permit);
+      return { sessionId, submit: () => submit(contract, serverSigner, player, sessionId, score) };
+    }
+
+    it("takes the fee of an accepted token through a permit or an allowance", async () => {
+      const { contract, player, token } = await withToken();
+      const [, , , , stranger] = await ethers.getSigners();
+      const pool = await contract.getAddress();
+      const tokenAddress = await token.getAddress();
+      expect(await contract.getTokens()).to.deep.equal([tokenAddress]);
+      expect((await contract.ledgers(tokenAddress)).entryFee).to.equal(tokenFee);
+
+      const sessionId = ethers.keccak256(ethers.randomBytes(32));
+      await expect(contract.connect(player).startRunWithToken(sessionId, 0, stranger.address, noPermit))
+        .to.be.revertedWithCustomError(contract, "TokenNotAccepted");
+      await expect(contract.connect(player).startRunWithToken(sessionId, 0, ethers.ZeroAddress, noPermit))
+        .to.be.revertedWithCustomError(contract, "TokenNotAccepted");
+      await expect(contract.connect(player).startRunWithToken(sessionId, 0, tokenAddress, noPermit))
+        .to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+
+      const tx = contract.connect(player).startRunWithToken(sessionId, 0, tokenAddress, await permitFor(token, player, pool, tokenFee));
+      await expect(tx).to.emit(contract, "RunStarted").withArgs(sessionId, player.address, tokenFee)
+        .and.to.emit(contract, "TokenRunStarted").withArgs(sessionId, tokenAddress);
+      await expect(tx).to.changeTokenBalances(token, [player, contract], [-tokenFee, tokenFee]);
+      const run = await contract.runs(sessionId);
+      expect([run.token, run.fee]).to.deep.equal([tokenAddress, tokenFee]);
+      expect((await contract.ledgers(tokenAddress)).escrowed).to.equal(tokenFee);
+      expect(await contract.escrowedFees()).to.equal(0);
+
+      // A plain approval works too, for daily runs as well.
+      const day = await contract.currentDay();
+      const daily = ethers.keccak256(ethers.randomBytes(32));
+      await token.connect(player).approve(pool, tokenFee);
+      await expect(contract.connect(player).startRunWithToken(daily, day, tokenAddress, noPermit))
+        .to.emit(contract, "DailyRunStarted").withArgs(daily, player.address, day, 1);
+      expect((await contract.runs(daily)).day).to.equal(day);
+      expect(await contract.dailyAttempts(day, player.address)).to.equal(1);
+
+      await expect(contract.setTokenEntryFee(tokenAddress, 0)).to.emit(contract, "TokenEntryFeeUpdated").withArgs(tokenAddress, 0);
+      await expect(contract.connect(player).startRunWithToken(ethers.keccak256(ethers.randomBytes(32)), 0, tokenAddress, noPermit))
+        .to.be.revertedWithCustomError(contract, "TokenNotAccepted");
+      // A fee too large for the run's escrow field is refused rather than truncated.
+      await contract.setTokenEntryFee(tokenAddress, 2n ** 128n);
+      await expect(contract.connect(player).startRunWithToken(ethers.keccak256(ethers.randomBytes(32)), 0, tokenAddress, noPermit))
+        .to.be.revertedWithCustomError(contract, "SafeCastOverflowedUintDowncast").withArgs(128, 2n ** 128n);
+      await contract.setTokenEntryFee(tokenAddress, tokenFee);
+      expect(await contract.getTokens()).to.deep.equal([tokenAddress]);
+      await expect(contract.connect(player).setTokenEntryFee(tokenAddress, 1n)).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      await expect(contract.setTokenEntryFee(ethers.ZeroAddress, 1n)).to.be.revertedWithCustomError(contract, "TokenNotAccepted");
+      await contract.setAdminDelay(60);
+      await expect(contract.setTokenEntryFee(tokenAddress, 1n)).to.be.revertedWithCustomError(contract, "Timelocked");
+    });
+
+    it("keeps escrow, prize pools, claims and withdrawals per asset", async () => {
+      const { contract, serverSigner, owner, feeSink, player, token } = await withToken();
+      const tokenAddress = await token.getAddress();
+      await contract.setPrizeConfig(5000, [8000]);
+      await contract.setRefundPolicy(0, 10000);
+
+      await (await play(contract, serverSigner, player, 10n)).submit();
+      await (await playWithToken(contract, token, serverSigner, player, 20n)).submit();
+      const refunded = await playWithToken(contract, token, serverSigner, player, 0n);
+      const sig = await signVoidRun(serverSigner, await domainOf(contract), player.address, refunded.sessionId);
+      await expect(contract.voidRun(refunded.sessionId, sig)).to.changeTokenBalance(token, player, tokenFee);
+
+      expect(await contract.prizePool()).to.equal(entryFee / 2n);
+      expect((await contract.ledgers(tokenAddress)).prizePool).to.equal(tokenFee / 2n);
+      await expect(contract.withdrawToken(tokenAddress, owner.address, tokenFee / 2n + 1n)).to.be.revertedWith("exceeds free balance");
+
+      await expect(contract.closeSeason())
+        .to.emit(contract, "PrizePoolSettled").withArgs(1, entryFee / 2n, (entryFee * 4n) / 10n, entryFee / 10n, ethers.ZeroAddress)
+        .and.to.emit(contract, "PrizePoolSettled").withArgs(1, tokenFee / 2n, (tokenFee * 4n) / 10n, tokenFee / 10n, tokenAddress);
+      expect(await contract.claimable(player.address)).to.equal((entryFee * 4n) / 10n);
+      expect(await contract.claimableOf(tokenAddress, player.address)).to.equal((tokenFee * 4n) / 10n);
+
+      const claim = contract.connect(player).claimTokenPrize(tokenAddress);
+      await expect(claim).to.emit(contract, "PrizeClaimed").withArgs(player.address, (tokenFee * 4n) / 10n, tokenAddress);
+      await expect(claim).to.changeTokenBalance(token, player, (tokenFee * 4n) / 10n);
+      await expect(contract.connect(player).claimTokenPrize(tokenAddress)).to.be.revertedWithCustomError(contract, "NothingToClaim");
+      await expect(contract.connect(player).claimPrize()).to.changeEtherBalance(player, (entryFee * 4n) / 10n);
+      await expect(contract.connect(feeSink).claimTokenPrize(tokenAddress)).to.changeTokenBalance(token, feeSink, tokenFee / 10n);
+
+      await expect(contract.withdrawToken(tokenAddress, owner.address, tokenFee / 2n + 1n)).to.be.revertedWith("exceeds free balance");
+      await expect(contract.withdrawToken(tokenAddress, owner.address, tokenFee / 2n)).to.changeTokenBalance(token, owner, tokenFee / 2n);
+      await expect(contract.connect(player).withdrawToken(tokenAddress, player.address, 0n))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+      expect(await contract.getTokens()).to.deep.equal([tokenAddress]);
+    });
+
+    it("refuses withdrawals when a token balance falls short of what the pool owes", async () => {
+      const { contract, serverSigner, owner, player, token } = await withToken();
+      const tokenAddress = await token.getAddress();
+      await contract.setPrizeConfig(5000, [10000]);
+      await (await playWithToken(contract, token, serverSigner, player, 20n)).submit();
+
+      // A token that takes from holders leaves less than the prize pool behind.
+      await token.burn(await contract.getAddress(), (tokenFee * 3n) / 4n);
+      await expect(contract.withdrawToken(tokenAddress, owner.address, 0n)).to.be.revertedWith("exceeds free balance");
+      await expect(contract.withdrawToken(tokenAddress, owner.address, 1n)).to.be.revertedWith("exceeds free balance");
+    });
+  });
+
+  describe("refunds", () => {
+    async function voidSig(contract: any, serverSigner: any, player: string, sessionId: string) {
+      return signVoidRun(serverSigner, await domainOf(contract), player, sessionId);
+    }
+
+    it("refunds runs that expire unattested", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      await expect(contract.setRefundPolicy(3600, 10000)).to.emit(contract, "RefundPolicyUpdated").withArgs(3600, 10000);
+      const run = await play(contract, serverSigner, player, 50n);
+
+      await expect(contract.refundExpiredRun(run.sessionId)).to.be.revertedWithCustomError(contract, "RunNotExpired");
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await ethers.provider.send("evm_mine", []);
+
+      const tx = contract.refundExpiredRun(run.sessionId);
+      await expect(tx).to.emit(contract, "RunRefunded").withArgs(run.sessionId, player.address, entryFee, false);
+      await expect(tx).to.changeEtherBalance(player, entryFee);
+      const state = await contract.runs(run.sessionId);
+      expect(state.finalized).to.equal(true);
+      expect(state.refunded).to.equal(true);
+      expect(await contract.escrowedFees()).to.equal(0);
+
+      await expect(run.submit()).to.be.revertedWithCustomError(contract, "RunFinalized");
+      await expect(contract.refundExpiredRun(run.sessionId)).to.be.revertedWithCustomError(contract, "RunFinalized");
+    });
+
+    it("partially refunds runs the server voids", async () => {
+      const { contract, serverSigner, owner, player } = await deploy();
+      await contract.setRefundPolicy(0, 8000);
+      const run = await play(contract, serverSigner, player, 50n);
+
+      const forged = await voidSig(contract, player, player.address, run.sessionId);
+      await expect(contract.voidRun(run.sessionId, forged)).to.be.revertedWithCustomError(contract, "BadAttestation");
+
+      const refund = (entryFee * 8000n) / 10000n;
+      const sig = await voidSig(contract, serverSigner, player.address, run.sessionId);
+      const tx = contract.connect(owner).voidRun(run.sessionId, sig);
+      await expect(tx).to.emit(contract, "RunRefunded").withArgs(run.sessionId, player.address, refund, true);
+      await expect(tx).to.changeEtherBalance(player, refund);
+
+      await expect(contract.withdraw(owner.address, entryFee - refund)).to.changeEtherBalance(owner, entryFee - refund);
+      await expect(contract.voidRun(run.sessionId, sig)).to.be.revertedWithCustomError(contract, "RunFinalized");
+    });
+
+    it("escrows fees until a run is scored and never refunds scored runs", async () => {
+      const { contract, serverSigner, owner, player } = await deploy();
+      await contract.setRefundPolicy(1, 10000);
+      const run = await play(contract, serverSigner, player, 50n);
+      expect(await contract.escrowedFees()).to.equal(entryFee);
+      await expect(contract.withdraw(owner.address, 1n)).to.be.revertedWith("exceeds free balance");
+      await expect(player.sendTransaction({ to: await contract.getAddress(), value: 1n })).to.be.revertedWith("direct eth not allowed");
+
+      await run.submit();
+      expect(await contract.escrowedFees()).to.equal(0);
+      await ethers.provider.send("evm_increaseTime", [10]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(contract.refundExpiredRun(run.sessionId)).to.be.revertedWithCustomError(contract, "RunFinalized");
+      await expect(contract.withdraw(owner.address, entryFee)).to.changeEtherBalance(owner, entryFee);
+    });
+
+    it("does not expire runs while expiry is disabled", async () => {
+      const { contract, serverSigner, player } = await deploy();
+      // Refunds return the whole fee until the owner sets a policy.
+      expect([await contract.runExpiry(), await contract.refundBps()]).to.deep.equal([0n, 10000n]);
+      const run = await play(contract, serverSigner, player, 50n);
+      await ethers.provider.send("evm_increaseTime", [365 * 24 * 3600]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(contract.refundExpiredRun(run.sessionId)).to.be.revertedWithCustomError(contract, "RunNotExpired");
+      await expect(contract.refundExpiredRun(ethers.ZeroHash)).to.be.revertedWithCustomError(contract, "InvalidSession");
+    });
+  });
+
+  describe("referrals", () => {
+    it("binds a referrer once and rejects self-referral and cycles", async () => {
+      const { contract, player } = await deploy();
+      const [, , , , a, b, c] = await ethers.getSigners();
+
+      await expect(contract.connect(player).setReferrer(player.address)).to.be.revertedWithCustomError(contract, "InvalidReferrer");
+      await expect(contract.connect(player).setReferrer(ethers.ZeroAddress)).to.be.revertedWithCustomError(contract, "InvalidReferrer");
+      await expect(contract.connect(a).setReferrer(b.address)).to.emit(contract, "ReferrerSet").withArgs(a.address, b.address);
+      await expect(contract.connect(a).setReferrer(c.address)).to.be.revertedWithCustomError(contract, "ReferrerAlreadySet");
+      await contract.connect(b).setReferrer(c.address);
+      // c -> a would close c -> a -> b -> c
+      await expect(contract.connect(c).setReferrer(a.address)).to.be.revertedWithCustomError(contract, "ReferralCycle");
+      await expect(contract.connect(c).setReferrer(b.address)).to.be.revertedWithCustomError(contract, "ReferralCycle");
+      await contract.connect(player).setReferrer(b.address);
+
+      const referral = await contract.referrals(b.address);
+      expect([referral.referrer, referral.referred]).to.deep.equal([c.address, 2n]);
+      expect((await contract.referrals(c.address)).referred).to.equal(1n);
+      expect((await contract.referrals(c.address)).referrer).to.equal(ethers.ZeroAddress);
+    });
+
+    it("credits the referral share of scored fees to the referrer's claimable balance", async () => {
+      const { contract, owner, serverSigner, player } = await deploy();
+      const referrer = (await ethers.getSigners())[4];
+      await contract.setPrizeConfig(6000, [10000]);
+      await expect(contract.setReferralBps(4001)).to.be.revertedWithCustomError(contract, "InvalidFee");
+      // Sums past the uint16 range are refused, not an arithmetic panic.
+      await expect(contract.setReferralBps(65535)).to.be.revertedWithCustomError(contract, "InvalidFee");
+      await expect(contract.setReferralBps(1000)).to.emit(contract, "ReferralBpsUpdated").withArgs(1000);
+      await expect(contract.setPrizeConfig(9001, [10000])).to.be.revertedWithCustomError(contract, "InvalidSchedule");
+      await expect(contract.setPrizeConfig(65535, [10000])).to.be.revertedWithCustomError(contract, "InvalidSchedule");
+      await expect(contract.connect(player).setReferralBps(0)).to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount");
+
+      // Runs scored before the binding pay nothing.
+      await expect((await play(contract, serverSigner, player, 10n)).submit()).to.not.emit(contract, "ReferralRewarded");
+      await contract.connect(player).setReferrer(referrer.address);
+      const reward = entryFee / 10n;
+      await expect((await play(contract, serverSigner, player, 20n)).submit())
+        .to.emit(contract, "ReferralRewarded").withArgs(referrer.address, player.address, reward, ethers.ZeroAddress);
+      expect(await contract.claimable(referrer.address)).to.equal(reward);
+      expect(await contract.totalClaimable()).to.equal(reward);
+
+      // Refunded runs pay nothing, and the credit never leaves as house balance.
+      await contract.setRefundPolicy(3600, 10000);
+      const unscored = await play(contract, serverSigner, player, 30n);
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(contract.refundExpiredRun(unscored.sessionId)).to.not.emit(contract, "ReferralRewarded");
+      const house = entryFee * 2n - (entryFee * 2n * 6000n) / 10000n - reward;
+      await expect(contract.withdraw(owner.address, house + 1n)).to.be.revertedWith("exceeds free balance");
+
+      const tx = contract.connect(referrer).claimPrize();
+      await expect(tx).to.emit(contract, "PrizeClaimed").withArgs(referrer.address, reward, ethers.ZeroAddress);
+      await expect(tx).to.changeEtherBalance(referrer, reward);
+      await expect(contract.withdraw(owner.address, house)).to.changeEtherBalance(owner, house);
+    });
+  });
 });
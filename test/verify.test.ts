@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import { keccak256, toUtf8Bytes } from "ethers";
+import { EngineConfig, InputEvent, SnakeEngine, Vec, makeRng, tickMsForScore } from "../shared/engine";
+import { GAME_MODES, modeById } from "../shared/modes";
+import type { HeartbeatResponse } from "../shared/api";
+import { loadConfig } from "../server/src/config";
+import { TranscriptCheck, peakTurnRate, replayTimed, turnFrames, verifyTranscript } from "../server/src/verify";
+
+// A corpus of synthetic transcripts: bots that play like people, and the
+// cheats the verifier has to catch. Beats are unsigned here; signatures are
+// covered by the attestation server tests.
+describe("transcript verification", () => {
+  const config = loadConfig({ HB_ALLOW_UNSIG: "1" });
+  const rules = { heartbeat: config.heartbeat, verify: config.verify, signerAddress: "" };
+  const sessionId = keccak256("0x01");
+  const seedOf = (i: number) => keccak256(toUtf8Bytes(`corpus-${i}`));
+  const dirs: Vec[] = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 0, y: -1 }];
+  const same = (a: Vec, b: Vec) => a.x === b.x && a.y === b.y;
+
+  function isSafe(engine: SnakeEngine, d: Vec): boolean {
+    const { grid, wrap, obstacles } = engine.config;
+    let h = { x: engine.snake[0].x + d.x, y: engine.snake[0].y + d.y };
+    if (wrap) h = { x: (h.x + grid) % grid, y: (h.y + grid) % grid };
+    else if (h.x < 0 || h.y < 0 || h.x >= grid || h.y >= grid) return false;
+    if (obstacles.some((o) => same(o, h))) return false;
+    return !engine.snake.some((s, i) => i > 0 && same(s, h));
+  }
+
+  // Chases food along L-shaped paths, reacts a frame or two late now and
+  // then, and sometimes presses the key it is already holding. `diagonal`
+  // makes it zig-zag every frame toward the food instead, which no person
+  // keeps up once the snake is fast.
+  function play(seed: string, cfg: EngineConfig, { diagonal = false } = {}) {
+    const engine = new SnakeEngine(seed, cfg);
+    const rng = makeRng(keccak256(toUtf8Bytes(seed)));
+    const distance = (d: Vec) => Math.abs(engine.snake[0].x + d.x - engine.food.x) + Math.abs(engine.snake[0].y + d.y - engine.food.y);
+    while (!engine.over) {
+      const cur = engine.direction;
+      const options = dirs.filter((d) => isSafe(engine, d) && !(d.x === -cur.x && d.y === -cur.y));
+      const closer = options.filter((d) => distance(d) < distance({ x: 0, y: 0 }));
+      let want = closer.find((d) => same(d, cur)) ?? closer[0] ?? options.find((d) => same(d, cur)) ?? options[0];
+      if (diagonal && closer.length === 2) want = closer.find((d) => !same(d, cur))!;
+      const forced = !isSafe(engine, cur);
+      if (want && !same(want, cur) && (forced || diagonal || rng() < 0.6)) engine.turn(want, "bot");
+      else if (rng() < 0.03) engine.turn(cur, "bot");
+      engine.step();
+    }
+    return engine;
+  }
+
+  // Beats every ~300ms from when the session opened until just after the
+  // run ended, when the run was played at `speed` times normal pace.
+  function beatsFor(inputs: InputEvent[], seed: string, cfg: EngineConfig, { speed = 1, idleMs = 2000 } = {}): HeartbeatResponse[] {
+    const rng = makeRng(seed);
+    const { tickAt, frames } = replayTimed(inputs, seed, cfg);
+    // rAF only catches a tick on the next animation frame
+    const endMs = idleMs + (tickAt[frames] + frames * 8) / speed + 100;
+    const beats: HeartbeatResponse[] = [];
+    for (let t = 300, i = 1; t <= endMs + 300; t += 270 + Math.floor(rng() * 60), i++) {
+      beats.push({ i, t: 1_700_000_000_000 + t, sig: "" });
+    }
+    return beats;
+  }
+
+  function transcript(seed: string, cfg: EngineConfig, inputs: InputEvent[], score: number, beats?: HeartbeatResponse[]): TranscriptCheck {
+    return {
+      sessionId,
+      seed,
+      config: cfg,
+      score,
+      runHash: keccak256(toUtf8Bytes(JSON.stringify(inputs))),
+      inputs,
+      beats: beats ?? beatsFor(inputs, seed, cfg),
+    };
+  }
+
+  const codes = (c: TranscriptCheck) => {
+    const verdict = verifyTranscript(c, rules);
+    return verdict.ok ? [] : verdict.reasons.map((r) => r.code);
+  };
+
+  describe("honest play", () => {
+    it("accepts people playing every mode", () => {
+      for (const mode of GAME_MODES) {
+        for (let i = 0; i < 8; i++) {
+          const seed = seedOf(i);
+          const cfg = { ...mode.config, maxFrames: Math.min(mode.config.maxFrames, 3000) };
+          const run = play(seed, cfg);
+          const verdict = verifyTranscript(transcript(seed, cfg, run.inputs, run.score), rules);
+          expect(verdict, `${mode.key} #${i}`).to.include({ ok: true, score: run.score, frames: run.frame });
+        }
+      }
+    });
+
+    it("maps frames to play time with the client's tick schedule", () => {
+      const seed = seedOf(1);
+      const run = play(seed, modeById(0)!.config);
+      const { tickAt, frames, score } = replayTimed(run.inputs, seed, run.config);
+      expect([frames, score]).to.deep.equal([run.frame, run.score]);
+      expect(tickAt[1]).to.equal(tickMsForScore(0));
+      // Every food makes the next ticks shorter, down to the floor.
+      const engine = new SnakeEngine(seed, run.config);
+      let expected = 0;
+      for (let f = 1; f <= frames; f++) {
+        expected += engine.tickMs;
+        for (const e of run.inputs.filter((x) => x.f === f - 1)) engine.turn(e.d);
+        engine.step();
+        expect(tickAt[f]).to.equal(expected);
+      }
+      const verdict = verifyTranscript(transcript(seed, run.config, run.inputs, run.score), rules);
+      expect(verdict.ok && verdict.playMs).to.equal(tickAt[frames]);
+    });
+
+    it("ignores held keys when counting turns", () => {
+      const seed = seedOf(2);
+      const run = play(seed, modeById(0)!.config);
+      // Key repeat fires the current direction ~30 times a second.
+      const inputs = run.inputs.flatMap((e) => [e, ...Array.from({ length: 5 }, () => ({ ...e, key: "repeat" }))]);
+      expect(turnFrames(inputs, run.config.startDir)).to.deep.equal(turnFrames(run.inputs, run.config.startDir));
+      expect(codes(transcript(seed, run.config, inputs, run.score))).to.deep.equal([]);
+    });
+
+    it("tolerates the heartbeat that lands just before the run ends", () => {
+      const seed = seedOf(3);
+      const run = play(seed, modeById(0)!.config);
+      const beats = beatsFor(run.inputs, seed, run.config, { idleMs: 0 });
+      beats.pop();
+      expect(codes(transcript(seed, run.config, run.inputs, run.score, beats))).to.deep.equal([]);
+    });
+  });
+
+  describe("cheats", () => {
+    const seed = seedOf(4);
+    const classic = modeById(0)!.config;
+
+    it("rejects a reported score the replay does not reach", () => {
+      const run = play(seed, classic);
+      expect(codes(transcript(seed, classic, run.inputs, run.score + 3))).to.deep.equal(["score mismatch"]);
+      const verdict = verifyTranscript(transcript(seed, classic, run.inputs, run.score + 3), rules);
+      expect(verdict.ok ? null : verdict.reasons[0]).to.deep.equal({ code: "score mismatch", score: run.score + 3, simScore: run.score });
+    });
+
+    it("rejects inputs edited after hashing", () => {
+      const run = play(seed, classic);
+      const c = transcript(seed, classic, run.inputs, run.score);
+      const edited = c.inputs.map((e, i) => (i === 3 ? { ...e, f: e.f + 1 } : e));
+      expect(codes({ ...c, inputs: edited })).to.deep.equal(["mismatch"]);
+    });
+
+    it("rejects a run played at double speed", () => {
+      const run = play(seed, classic);
+      const beats = beatsFor(run.inputs, seed, classic, { speed: 2, idleMs: 0 });
+      const verdict = verifyTranscript(transcript(seed, classic, run.inputs, run.score, beats), rules);
+      expect(verdict.ok).to.equal(false);
+      if (verdict.ok) return;
+      expect(verdict.reasons.map((r) => r.code)).to.deep.equal(["too fast"]);
+      expect(verdict.reasons[0].playMs).to.be.greaterThan(Number(verdict.reasons[0].beatMs) + config.verify.slackMs);
+    });
+
+    it("rejects a precomputed run submitted right after the session opened", () => {
+      const run = play(seed, classic);
+      const beats = [1, 2, 3].map((i) => ({ i, t: 1_700_000_000_000 + i * 300, sig: "" }));
+      expect(codes(transcript(seed, classic, run.inputs, run.score, beats))).to.deep.equal(["too fast"]);
+    });
+
+    it("rejects turns on a fixed beat", () => {
+      // A macro circling a 4x4 square until the Blitz timer runs out.
+      const blitz = modeById(4)!.config;
+      const inputs: InputEvent[] = [];
+      for (let f = 4, i = 1; f < blitz.maxFrames; f += 4, i++) inputs.push({ f, d: dirs[i % 4] });
+      const { score } = replayTimed(inputs, seed, blitz);
+      expect(codes(transcript(seed, blitz, inputs, score))).to.deep.equal(["regular input"]);
+    });
+
+    it("rejects zig-zagging faster than a person can turn", () => {
+      const run = play(seed, classic, { diagonal: true });
+      const { tickAt } = replayTimed(run.inputs, seed, classic);
+      expect(peakTurnRate(turnFrames(run.inputs, classic.startDir), tickAt)).to.be.greaterThan(config.verify.maxTurnsPerSec);
+      expect(codes(transcript(seed, classic, run.inputs, run.score))).to.include("superhuman input");
+    });
+
+    it("lists every failed check", () => {
+      const run = play(seed, classic, { diagonal: true });
+      const beats = beatsFor(run.inputs, seed, classic, { speed: 3 });
+      const found = codes(transcript(seed, classic, run.inputs, run.score + 1, beats));
+      expect(found).to.include.members(["score mismatch", "too fast", "superhuman input"]);
+    });
+
+    it("leaves timing alone when it is switched off", () => {
+      const off = loadConfig({ HB_ALLOW_UNSIG: "1", VERIFY_TIMING: "0" });
+      const run = play(seed, classic, { diagonal: true });
+      const beats = [1, 2, 3].map((i) => ({ i, t: 1_700_000_000_000 + i * 300, sig: "" }));
+      const verdict = verifyTranscript(transcript(seed, classic, run.inputs, run.score, beats), { ...rules, verify: off.verify });
+      expect(verdict.ok).to.equal(true);
+    });
+  });
+});